@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Eye, EyeOff, Flag, Plus, Trash2 } from "lucide-react";
+import { ProjectBaseline } from "@/types/project";
+
+interface BaselineManagerProps {
+  baselines: ProjectBaseline[];
+  activeBaselineId?: string;
+  onCreate: (name: string) => void;
+  onSelect: (baselineId: string | undefined) => void;
+  onDelete: (baselineId: string) => void;
+}
+
+export function BaselineManager({ baselines, activeBaselineId, onCreate, onSelect, onDelete }: BaselineManagerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const baselineName = name.trim() || `Baseline ${baselines.length + 1}`;
+    onCreate(baselineName);
+    setName('');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Flag className="w-4 h-4 mr-2" />
+          Baselines ({baselines.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Project Baselines</DialogTitle>
+          <DialogDescription>
+            Save the current plan to track slippage. The shown baseline appears as ghost bars
+            in the timeline and as variance columns in reports and exports.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={`Baseline ${baselines.length + 1}`}
+            />
+            <Button type="submit">
+              <Plus className="w-4 h-4 mr-2" />
+              Save Baseline
+            </Button>
+          </form>
+
+          {baselines.length > 0 ? (
+            <div className="space-y-3">
+              {baselines.map(baseline => {
+                const isActive = baseline.id === activeBaselineId;
+                return (
+                  <Card key={baseline.id}>
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{baseline.name}</span>
+                            {isActive && <Badge variant="secondary" className="text-xs">Shown</Badge>}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {format(parseISO(baseline.created_at), 'MMM dd, yyyy HH:mm')} · {baseline.tasks.length} tasks
+                          </div>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={isActive ? "Hide baseline" : "Show baseline"}
+                            onClick={() => onSelect(isActive ? undefined : baseline.id)}
+                          >
+                            {isActive ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onDelete(baseline.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Flag className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No baselines saved yet.</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Download, Link } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { Task } from "@/types/project";
+import { exportToICS, filterCalendarTasks, IcsOptions } from "@/utils/icsExport";
+import { generateId } from "@/utils/idGenerator";
+import { splitAssignees } from "@/utils/workingCalendar";
+
+// The feed is served by a Supabase function, so demo mode only offers the download
+const FEED_URL = supabase ? `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed` : '';
+const EVERYONE = 'everyone';
+
+interface CalendarExportDialogProps {
+  isOpen: boolean;
+  projectName: string;
+  tasks: Task[];
+  feedToken?: string | null;
+  onChangeFeedToken: (token: string | null) => Promise<void> | void;
+  onClose: () => void;
+}
+
+export function CalendarExportDialog({
+  isOpen,
+  projectName,
+  tasks,
+  feedToken,
+  onChangeFeedToken,
+  onClose
+}: CalendarExportDialogProps) {
+  const [assignee, setAssignee] = useState(EVERYONE);
+  const [milestonesOnly, setMilestonesOnly] = useState(false);
+  const { toast } = useToast();
+
+  // Tasks shared by several people list them all, e.g. "Ana, Ben"
+  const assignees = useMemo(() => [...new Set(
+    tasks.flatMap(task => splitAssignees(task.assignee))
+  )].sort(), [tasks]);
+
+  const options: IcsOptions = { assignee: assignee === EVERYONE ? undefined : assignee, milestonesOnly };
+  const eventCount = filterCalendarTasks(tasks, options).length;
+
+  const feedUrl = useMemo(() => {
+    if (!feedToken || !FEED_URL) return '';
+    const params = new URLSearchParams({ token: feedToken });
+    if (options.assignee) params.set('assignee', options.assignee);
+    if (milestonesOnly) params.set('milestones', '1');
+    return `${FEED_URL}?${params}`;
+  }, [feedToken, options.assignee, milestonesOnly]);
+
+  const handleDownload = () => {
+    exportToICS(projectName, tasks, options);
+    toast({
+      title: "Export Successful",
+      description: `${eventCount} ${eventCount === 1 ? 'event was' : 'events were'} exported to an iCalendar file.`,
+    });
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Link Copied", description: "Paste it into your calendar app's \"subscribe from URL\" option." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Select the link and copy it instead.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Calendar Export</DialogTitle>
+          <DialogDescription>
+            Add tasks and milestones to Outlook, Google Calendar or Apple Calendar as all-day events.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <Label>Assignee</Label>
+              <Select value={assignee} onValueChange={setAssignee}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                  {assignees.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-3 pb-2">
+              <Switch id="milestones-only" checked={milestonesOnly} onCheckedChange={setMilestonesOnly} />
+              <Label htmlFor="milestones-only" className="font-normal">Milestones only</Label>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">{eventCount} {eventCount === 1 ? 'event' : 'events'}</span>
+            <Button onClick={handleDownload} disabled={eventCount === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Download .ics
+            </Button>
+          </div>
+
+          {FEED_URL && (
+            <div className="border-t pt-4 space-y-3">
+              <h4 className="font-medium">Subscribe</h4>
+              <p className="text-sm text-muted-foreground">
+                A subscribed calendar checks for changes on its own, so dates stay up to date. Anyone with the link can
+                see the tasks, so share it only with the team.
+              </p>
+              {feedToken ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input readOnly value={feedUrl} onFocus={(e) => e.target.select()} aria-label="Calendar feed link" />
+                    <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={feedUrl.replace(/^https?:/, 'webcal:')}>
+                        <Link className="w-4 h-4 mr-2" />
+                        Open in Calendar App
+                      </a>
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => onChangeFeedToken(generateId())}>
+                      Reset Link
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => onChangeFeedToken(null)}>
+                      Turn Off
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Resetting the link stops every calendar subscribed to the old one.</p>
+                </>
+              ) : (
+                <Button variant="outline" onClick={() => onChangeFeedToken(generateId())}>
+                  <Link className="w-4 h-4 mr-2" />
+                  Create Subscription Link
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, CheckCircle2 } from "lucide-react";
+import { MappedRow, RowIssue } from "@/utils/importWithMapping";
+
+const PAGE_SIZE = 50;
+
+export interface ReviewColumn {
+  field: string; // App field, as in MappedRow.values
+  label: string;
+}
+
+interface CsvImportReviewDialogProps {
+  isOpen: boolean;
+  rows: MappedRow[];
+  columns: ReviewColumn[];
+  validate: (rows: MappedRow[]) => RowIssue[][];
+  confirmLabel: (count: number) => string;
+  onConfirm: (rows: MappedRow[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Dry run of a CSV import: every row is shown with the problems found in
+ * its cells, and rows can be edited or left out before anything is saved.
+ */
+export function CsvImportReviewDialog({
+  isOpen,
+  rows: initialRows,
+  columns,
+  validate,
+  confirmLabel,
+  onConfirm,
+  onClose
+}: CsvImportReviewDialogProps) {
+  const [rows, setRows] = useState(initialRows);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    setRows(initialRows);
+    setExcluded(new Set());
+    setPage(0);
+  }, [initialRows]);
+
+  const issues = useMemo(() => validate(rows), [rows, validate]);
+  // Problems in fields without a column of their own are shown next to the row number
+  const columnFields = useMemo(() => new Set(columns.map(column => column.field)), [columns]);
+
+  // Indexes into rows, so edits and exclusions survive filtering and paging
+  const visibleIndexes = useMemo(() => {
+    const indexes = rows.map((_, index) => index);
+    return onlyProblems ? indexes.filter(index => issues[index].length > 0) : indexes;
+  }, [rows, issues, onlyProblems]);
+
+  // Fixing rows while only problems are shown can leave fewer pages than before
+  const pageCount = Math.max(1, Math.ceil(visibleIndexes.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageIndexes = visibleIndexes.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const includedIndexes = rows.map((_, index) => index).filter(index => !excluded.has(index));
+  const blockedCount = includedIndexes.filter(index => issues[index].length > 0).length;
+  const problemCount = issues.filter(rowIssues => rowIssues.length > 0).length;
+
+  const updateCell = (index: number, field: string, value: string) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, values: { ...row.values, [field]: value } } : row));
+  };
+
+  const toggleExcluded = (index: number, exclude: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (exclude) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const excludeRowsWithProblems = () => {
+    setExcluded(prev => new Set([...prev, ...rows.map((_, index) => index).filter(index => issues[index].length > 0)]));
+  };
+
+  const handleOnlyProblemsChange = (checked: boolean) => {
+    setOnlyProblems(checked);
+    setPage(0);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review CSV Import</DialogTitle>
+          <DialogDescription>
+            Fix highlighted cells or leave rows out. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+            {problemCount > 0 ? (
+              <div className="flex items-center gap-2 text-yellow-800">
+                <AlertTriangle className="w-4 h-4" />
+                {problemCount} of {rows.length} rows have problems
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 text-green-700">
+                <CheckCircle2 className="w-4 h-4" />
+                All {rows.length} rows are valid
+              </div>
+            )}
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Switch id="only-problems" checked={onlyProblems} onCheckedChange={handleOnlyProblemsChange} />
+                <Label htmlFor="only-problems" className="font-normal">Only rows with problems</Label>
+              </div>
+              <Button variant="outline" size="sm" onClick={excludeRowsWithProblems} disabled={blockedCount === 0}>
+                Leave Out Rows with Problems
+              </Button>
+            </div>
+          </div>
+
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Import</th>
+                  <th className="px-3 py-2 font-medium">Row</th>
+                  {columns.map(column => (
+                    <th key={column.field} className="px-3 py-2 font-medium whitespace-nowrap">{column.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageIndexes.map(index => {
+                  const row = rows[index];
+                  const isExcluded = excluded.has(index);
+                  return (
+                    <tr key={row.rowNumber} className={`border-t align-top ${isExcluded ? 'opacity-50' : ''}`}>
+                      <td className="px-3 py-1.5">
+                        <Checkbox
+                          checked={!isExcluded}
+                          onCheckedChange={(checked) => toggleExcluded(index, checked !== true)}
+                          aria-label={`Import row ${row.rowNumber}`}
+                        />
+                      </td>
+                      <td className="px-3 py-1.5 text-muted-foreground">
+                        {row.rowNumber}
+                        {issues[index].filter(issue => !columnFields.has(issue.field)).map((issue, issueIndex) => (
+                          <p key={issueIndex} className="text-xs text-destructive mt-0.5 min-w-[8rem]">{issue.message}</p>
+                        ))}
+                      </td>
+                      {columns.map(column => {
+                        const cellIssues = issues[index].filter(issue => issue.field === column.field);
+                        return (
+                          <td key={column.field} className="px-2 py-1 min-w-[8rem]">
+                            <Input
+                              value={row.values[column.field] || ''}
+                              onChange={(e) => updateCell(index, column.field, e.target.value)}
+                              disabled={isExcluded}
+                              className={`h-8 ${cellIssues.length > 0 ? 'border-destructive' : ''}`}
+                            />
+                            {cellIssues.map((issue, issueIndex) => (
+                              <p key={issueIndex} className="text-xs text-destructive mt-0.5">{issue.message}</p>
+                            ))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end gap-2 text-sm">
+              <Button variant="outline" size="sm" onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+                Previous
+              </Button>
+              <span className="text-muted-foreground">Page {currentPage + 1} of {pageCount}</span>
+              <Button variant="outline" size="sm" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1}>
+                Next
+              </Button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between pt-4 border-t">
+            <p className="text-sm text-muted-foreground">
+              {includedIndexes.length} rows selected, {excluded.size} left out
+              {blockedCount > 0 && `; fix or leave out ${blockedCount} rows with problems to continue`}
+            </p>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => onConfirm(includedIndexes.map(index => rows[index]))}
+                disabled={includedIndexes.length === 0 || blockedCount > 0}
+              >
+                {confirmLabel(includedIndexes.length)}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
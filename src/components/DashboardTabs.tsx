@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card } from "@/components/ui/card";
-import { Task, CustomField } from "@/types/project";
+import { Task, CustomField, ProjectBaseline, ProjectCalendar } from "@/types/project";
 import { GanttChart } from "./GanttChart";
 import { ProjectReports } from "./ProjectReports";
 import { TaskFilters } from "./TaskFilters";
@@ -9,13 +9,16 @@ import { BarChart3, Calendar, Filter, FileText } from "lucide-react";
 
 interface DashboardTabsProps {
   tasks: Task[];
+  projectName: string;
   onEditTask: (task: Task) => void;
   onDeleteTask: (taskId: string) => void;
   onExportReport: () => void;
   customFields?: CustomField[];
+  calendar?: ProjectCalendar;
+  baseline?: ProjectBaseline;
 }
 
-export function DashboardTabs({ tasks, onEditTask, onDeleteTask, onExportReport, customFields = [] }: DashboardTabsProps) {
+export function DashboardTabs({ tasks, projectName, onEditTask, onDeleteTask, onExportReport, customFields = [], calendar, baseline }: DashboardTabsProps) {
   const [filteredTasks, setFilteredTasks] = useState<Task[]>(tasks);
 
   // Update filtered tasks when tasks change
@@ -43,6 +46,8 @@ export function DashboardTabs({ tasks, onEditTask, onDeleteTask, onExportReport,
       <TabsContent value="timeline" className="space-y-6">
         <GanttChart
           tasks={filteredTasks}
+          calendar={calendar}
+          baseline={baseline}
           onEditTask={onEditTask}
           onDeleteTask={onDeleteTask}
         />
@@ -51,6 +56,9 @@ export function DashboardTabs({ tasks, onEditTask, onDeleteTask, onExportReport,
       <TabsContent value="reports" className="space-y-6">
         <ProjectReports
           tasks={tasks}
+          projectName={projectName}
+          calendar={calendar}
+          baseline={baseline}
           onExportReport={onExportReport}
         />
       </TabsContent>
@@ -62,6 +70,8 @@ export function DashboardTabs({ tasks, onEditTask, onDeleteTask, onExportReport,
         />
         <GanttChart
           tasks={filteredTasks}
+          calendar={calendar}
+          baseline={baseline}
           onEditTask={onEditTask}
           onDeleteTask={onDeleteTask}
         />
@@ -1,10 +1,20 @@
 // @ts-nocheck
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Task, CustomField } from "@/types/project";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import { CustomField, ImportDateFormat, ImportProfile, ImportTranslations, TaskStatus, TaskType } from "@/types/project";
+import { ParsedCsv } from "@/utils/csvParser";
+import { DATE_FORMAT_LABELS, DATE_FORMATS, detectDateFormat, pickDateFormat } from "@/utils/dateFormats";
+import { applyImportProfile, createImportProfile, findMatchingProfile } from "@/utils/importProfiles";
+import { ImportOptions, listColumnValues, normalizeStatus } from "@/utils/importWithMapping";
+
+// 'upsert' and 'delete' match rows to tasks by External ID
+export type ImportMode = 'create' | 'upsert' | 'delete';
+const KEY_FIELDS = ['externalId'];
 
 interface FieldMapping {
   csvColumn: string;
@@ -15,12 +25,17 @@ interface FieldMappingDialogProps {
   isOpen: boolean;
   onClose: () => void;
   csvHeaders: string[];
+  csv?: ParsedCsv | null; // Lists the values found in the Status and Type columns
   customFields?: CustomField[];
-  importMode?: 'create' | 'update' | 'delete';
-  onConfirm: (mappings: FieldMapping[]) => void;
+  importMode?: ImportMode;
+  profiles?: ImportProfile[];
+  onSaveProfile?: (profile: ImportProfile) => void;
+  onDeleteProfile?: (profileId: string) => void;
+  onConfirm: (mappings: FieldMapping[], options: ImportOptions) => void;
 }
 
 const APP_FIELDS = [
+  { value: 'externalId', label: 'External ID', required: false },
   { value: 'name', label: 'Task Name', required: true },
   { value: 'type', label: 'Type', required: false },
   { value: 'status', label: 'Status', required: false },
@@ -30,8 +45,40 @@ const APP_FIELDS = [
   { value: 'progress', label: 'Progress (%)', required: false },
   { value: 'dependencies', label: 'Dependencies', required: false },
   { value: 'description', label: 'Description', required: false },
+  { value: 'wbs', label: 'WBS', required: false },
+  { value: 'outlineLevel', label: 'Outline Level', required: false },
+];
+
+const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
+  { value: 'not-started', label: 'Not Started' },
+  { value: 'in-progress', label: 'In Progress' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'on-hold', label: 'On Hold' },
+  { value: 'impacted', label: 'Impacted' },
+  { value: 'on-going', label: 'On Going' },
+  { value: 'dev-in-progress', label: 'Dev In Progress' },
+  { value: 'done', label: 'Done' },
+];
+
+const TYPE_OPTIONS: { value: TaskType; label: string }[] = [
+  { value: 'task', label: 'Task' },
+  { value: 'milestone', label: 'Milestone' },
+  { value: 'deliverable', label: 'Deliverable' },
 ];
 
+// The fields whose values are translated, and the app value a source value is taken as by default
+const TRANSLATED_FIELDS = [
+  { field: 'status', label: 'Status', options: STATUS_OPTIONS, guess: (value: string) => normalizeStatus(value) },
+  { field: 'type', label: 'Type', options: TYPE_OPTIONS, guess: (value: string) => value.toLowerCase() },
+] as const;
+
+// Ambiguous rows beyond this are only counted
+const MAX_LISTED_ROWS = 5;
+
+// Shared defaults, so the profile matching below doesn't rerun on every render
+const NO_CUSTOM_FIELDS: CustomField[] = [];
+const NO_PROFILES: ImportProfile[] = [];
+
 const findBestMatch = (headers: string[], fieldName: string): string | null => {
   const lowerHeaders = headers.map(h => h.toLowerCase().trim());
   
@@ -44,7 +91,10 @@ const findBestMatch = (headers: string[], fieldName: string): string | null => {
     assignee: ['assignee', 'assigned to', 'owner'],
     progress: ['progress', 'progress (%)', 'completion'],
     dependencies: ['dependencies', 'depends on'],
-    description: ['description', 'notes', 'details']
+    description: ['description', 'notes', 'details'],
+    externalId: ['external id', 'external_id', 'key', 'issue key', 'id'],
+    wbs: ['wbs', 'wbs code', 'outline number'],
+    outlineLevel: ['outline level', 'level']
   };
 
   const patterns = matchPatterns[fieldName] || [];
@@ -57,36 +107,175 @@ const findBestMatch = (headers: string[], fieldName: string): string | null => {
   return null;
 };
 
+const guessMappings = (csvHeaders: string[], customFields: CustomField[]): FieldMapping[] => {
+  // Create mappings for standard fields
+  const standardMappings = APP_FIELDS.map(appField => {
+    const csvColumn = findBestMatch(csvHeaders, appField.value);
+    return {
+      csvColumn: csvColumn || '',
+      appField: appField.value
+    };
+  });
+  
+  // Create mappings for custom fields
+  const customMappings = customFields.map(customField => {
+    const csvColumn = findBestMatch(csvHeaders, customField.name.toLowerCase());
+    return {
+      csvColumn: csvColumn || '',
+      appField: `custom_${customField.id}`
+    };
+  });
+  
+  return [...standardMappings, ...customMappings];
+};
+
 export function FieldMappingDialog({ 
   isOpen, 
   onClose, 
   csvHeaders, 
-  customFields = [], 
+  csv,
+  customFields = NO_CUSTOM_FIELDS, 
   importMode = 'create',
+  profiles = NO_PROFILES,
+  onSaveProfile,
+  onDeleteProfile,
   onConfirm 
 }: FieldMappingDialogProps) {
-  const [mappings, setMappings] = useState<FieldMapping[]>(() => {
-    // Create mappings for standard fields
-    const standardMappings = APP_FIELDS.map(appField => {
-      const csvColumn = findBestMatch(csvHeaders, appField.value);
-      return {
-        csvColumn: csvColumn || '',
-        appField: appField.value
-      };
-    });
-    
-    // Create mappings for custom fields
-    const customMappings = customFields.map(customField => {
-      const csvColumn = findBestMatch(csvHeaders, customField.name.toLowerCase());
-      return {
-        csvColumn: csvColumn || '',
-        appField: `custom_${customField.id}`
-      };
+  const [mappings, setMappings] = useState<FieldMapping[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [isAutoMatched, setIsAutoMatched] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  // Choices made in the dialog or loaded from a profile; other values keep their guessed translation
+  const [translations, setTranslations] = useState<ImportTranslations>({});
+  // Empty until picked or loaded from a profile; the format detected from the file is used till then
+  const [chosenDateFormat, setChosenDateFormat] = useState<ImportDateFormat | ''>('');
+
+  // A saved profile reproduces its mapping exactly; without one, columns are guessed from their names
+  const applyProfile = useCallback((profile: ImportProfile | undefined) => {
+    const guessed = guessMappings(csvHeaders, customFields);
+    if (!profile) {
+      setMappings(guessed);
+      setTranslations({});
+      setChosenDateFormat('');
+      setProfileId('');
+      return;
+    }
+    const saved = applyImportProfile(profile, csvHeaders);
+    setMappings(guessed.map(mapping => ({
+      ...mapping,
+      csvColumn: saved.find(s => s.appField === mapping.appField)?.csvColumn || ''
+    })));
+    setTranslations(profile.translations || {});
+    setChosenDateFormat(profile.date_format || '');
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+  }, [csvHeaders, customFields]);
+
+  // Matched again when a profile is saved or deleted while the dialog is open
+  useEffect(() => {
+    if (!isOpen) return;
+    const profile = findMatchingProfile(profiles, csvHeaders);
+    applyProfile(profile);
+    setIsAutoMatched(!!profile);
+    if (!profile) setProfileName('');
+  }, [isOpen, csvHeaders, profiles, applyProfile]);
+
+  const handleProfileChange = (value: string) => {
+    applyProfile(profiles.find(profile => profile.id === value));
+    setIsAutoMatched(false);
+  };
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim();
+    if (!name || !onSaveProfile) return;
+    // Saving under an existing name replaces that profile
+    const existing = profiles.find(profile => profile.name.toLowerCase() === name.toLowerCase());
+    const profile = createImportProfile(name, csvHeaders, mappings, getTranslations(), dateFormat);
+    onSaveProfile(existing ? { ...profile, id: existing.id } : profile);
+    setProfileId(existing?.id || profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    onDeleteProfile?.(profileId);
+    applyProfile(undefined);
+    setProfileName('');
+    setIsAutoMatched(false);
+  };
+
+  // Distinct values of the columns mapped to Status and Type
+  const columnValues = useMemo(() => {
+    const values: Record<string, ReturnType<typeof listColumnValues>> = {};
+    TRANSLATED_FIELDS.forEach(({ field }) => {
+      const column = mappings.find(m => m.appField === field)?.csvColumn;
+      values[field] = csv && column ? listColumnValues(csv, column) : [];
     });
-    
-    return [...standardMappings, ...customMappings];
-  });
+    return values;
+  }, [csv, mappings]);
+
+  // Every date in the columns mapped to date fields, so the format is worked out from all of them
+  const dateValues = useMemo(() => {
+    const dateFields = new Set([
+      'startDate',
+      'endDate',
+      ...customFields
+        .filter(field => (field.field_type || field.type) === 'date')
+        .map(field => `custom_${field.id}`)
+    ]);
+    const indexes = mappings
+      .filter(m => m.csvColumn && dateFields.has(m.appField))
+      .map(m => csvHeaders.indexOf(m.csvColumn))
+      .filter(index => index !== -1);
+    if (!csv) return [];
+    return csv.rows.flatMap((row, i) =>
+      indexes.map(index => ({ rowNumber: csv.rowNumbers[i], value: row[index] || '' }))
+    );
+  }, [csv, csvHeaders, customFields, mappings]);
+
+  const dateDetection = useMemo(() => detectDateFormat(dateValues.map(date => date.value)), [dateValues]);
+  const dateFormat = chosenDateFormat || pickDateFormat(dateDetection);
+  const ambiguousRows = [...new Set(dateDetection.ambiguous.map(index => dateValues[index].rowNumber))];
+
+  // '' means the value is left to the fallback
+  const getTranslation = (field: 'status' | 'type', value: string): string => {
+    const chosen = translations[field]?.values[value.toLowerCase()];
+    if (chosen !== undefined) return chosen;
+    const { options, guess } = TRANSLATED_FIELDS.find(f => f.field === field);
+    const guessed = guess(value);
+    return options.some(option => option.value === guessed) ? guessed : '';
+  };
+
+  const updateTranslation = (field: 'status' | 'type', value: string, target: string) => {
+    setTranslations(prev => ({
+      ...prev,
+      [field]: { ...prev[field], values: { ...prev[field]?.values, [value.toLowerCase()]: target } }
+    }));
+  };
+
+  const updateFallback = (field: 'status' | 'type', fallback: string) => {
+    setTranslations(prev => ({
+      ...prev,
+      [field]: { values: {}, ...prev[field], fallback: fallback || undefined }
+    }));
+  };
 
+  // The full tables: saved choices, plus the guesses for this file's values
+  const getTranslations = (): ImportTranslations => {
+    const result: ImportTranslations = {};
+    TRANSLATED_FIELDS.forEach(({ field }) => {
+      const values: Record<string, string> = {};
+      Object.entries(translations[field]?.values || {}).forEach(([value, target]) => {
+        if (target) values[value] = target;
+      });
+      columnValues[field].forEach(({ value }) => {
+        const target = getTranslation(field, value);
+        if (target) values[value.toLowerCase()] = target;
+        else delete values[value.toLowerCase()];
+      });
+      const fallback = translations[field]?.fallback;
+      if (Object.keys(values).length > 0 || fallback) result[field] = { values, fallback };
+    });
+    return result;
+  };
 
   const updateMapping = (appField: string, csvColumn: string) => {
     const actualValue = csvColumn === '__no_mapping__' ? '' : csvColumn;
@@ -113,14 +302,14 @@ export function FieldMappingDialog({
   const handleConfirm = () => {
     const validMappings = mappings.filter(m => m.csvColumn !== '');
     
+    const keyMappings = validMappings.filter(m => KEY_FIELDS.includes(m.appField));
+    if (importMode !== 'create' && keyMappings.length === 0) {
+      alert('Please map the External ID column so rows can be matched to tasks');
+      return;
+    }
+
     if (importMode === 'delete') {
-      // For delete mode, only need task name
-      const nameMapping = validMappings.find(m => m.appField === 'name');
-      if (!nameMapping) {
-        alert('Please map the Task Name field for deletion');
-        return;
-      }
-      onConfirm([nameMapping]);
+      onConfirm(keyMappings, {});
       return;
     }
     
@@ -156,7 +345,7 @@ export function FieldMappingDialog({
       return;
     }
 
-    onConfirm(validMappings);
+    onConfirm(validMappings, { translations: getTranslations(), dateFormat });
   };
 
   return (
@@ -169,15 +358,50 @@ export function FieldMappingDialog({
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
             {importMode === 'delete' 
-              ? 'Map the task name column to identify tasks for deletion.' 
-              : `Map your CSV columns to the application fields. Required fields are marked with *.`}
+              ? 'Map the External ID column to identify tasks for deletion.' 
+              : importMode === 'upsert'
+                ? 'Map your CSV columns to the application fields. Rows are matched to tasks by External ID. Required fields are marked with *.'
+                : `Map your CSV columns to the application fields. Required fields are marked with *.`}
           </p>
           
+          {profiles.length > 0 && (
+            <div className="space-y-1">
+              <div className="grid grid-cols-2 gap-4 items-center">
+                <Label className="text-sm font-medium">Mapping Profile</Label>
+                <div className="flex items-center gap-2">
+                  <Select value={profileId || '__no_profile__'} onValueChange={handleProfileChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__no_profile__">-- None --</SelectItem>
+                      {profiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>
+                          {profile.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {profileId && onDeleteProfile && (
+                    <Button variant="ghost" size="sm" onClick={handleDeleteProfile} aria-label="Delete profile">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {isAutoMatched && profileId && (
+                <p className="text-xs text-muted-foreground text-right">
+                  Picked automatically because the file's columns match this profile.
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="space-y-3">
             {/* Standard Fields */}
             {APP_FIELDS.map(appField => {
-              // For delete mode, only show required fields (mainly task name)
-              if (importMode === 'delete' && !appField.required) return null;
+              // For delete mode, only show the columns tasks are matched by
+              if (importMode === 'delete' && !KEY_FIELDS.includes(appField.value)) return null;
               
               return (
                 <div key={appField.value} className="grid grid-cols-2 gap-4 items-center">
@@ -241,14 +465,130 @@ export function FieldMappingDialog({
               </>
             )}
           </div>
+
+          {importMode !== 'delete' && dateValues.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <div className="grid grid-cols-2 gap-4 items-center">
+                <Label className="text-sm font-medium">Date Format</Label>
+                <Select value={dateFormat} onValueChange={(value: ImportDateFormat) => setChosenDateFormat(value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(format => (
+                      <SelectItem key={format} value={format}>
+                        {DATE_FORMAT_LABELS[format]}
+                        {dateDetection.formats.length < DATE_FORMATS.length && dateDetection.formats.includes(format) && ' (fits the file)'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {ambiguousRows.length > 0 ? (
+                <div className="flex items-start gap-2 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <p>
+                    Every date in the file fits both DD/MM/YYYY and MM/DD/YYYY. The dates on
+                    {ambiguousRows.length === 1 ? ' row ' : ' rows '}
+                    {ambiguousRows.slice(0, MAX_LISTED_ROWS).join(', ')}
+                    {ambiguousRows.length > MAX_LISTED_ROWS && ` and ${ambiguousRows.length - MAX_LISTED_ROWS} more`}
+                    {' '}are read differently in each, so check the format before importing.
+                  </p>
+                </div>
+              ) : dateDetection.formats.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                  Some dates fit none of these formats; they will be flagged in the review.
+                </p>
+              ) : !dateDetection.formats.includes(dateFormat) && (
+                <p className="text-xs text-muted-foreground">
+                  Some dates in the file are not in this format; they will be flagged in the review.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Value Translations */}
+          {importMode !== 'delete' && TRANSLATED_FIELDS.map(({ field, label, options }) => {
+            const values = columnValues[field];
+            if (values.length === 0) return null;
+            const fallback = translations[field]?.fallback || '';
+
+            return (
+              <div key={field} className="space-y-3 border-t pt-4">
+                <div>
+                  <h4 className="text-sm font-medium text-muted-foreground">{label} Values</h4>
+                  <p className="text-xs text-muted-foreground">
+                    Choose the {label.toLowerCase()} each value in the file stands for.
+                  </p>
+                </div>
+                {values.map(({ value, count }) => (
+                  <div key={value} className="grid grid-cols-2 gap-4 items-center">
+                    <Label className="text-sm font-normal">
+                      {value}
+                      <span className="text-xs text-muted-foreground ml-1">({count} {count === 1 ? 'row' : 'rows'})</span>
+                    </Label>
+                    <Select
+                      value={getTranslation(field, value) || '__fallback__'}
+                      onValueChange={(target) => updateTranslation(field, value, target === '__fallback__' ? '' : target)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="__fallback__">-- Use default --</SelectItem>
+                        {options.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 gap-4 items-center">
+                  <Label className="text-sm font-medium">Default</Label>
+                  <Select
+                    value={fallback || '__no_fallback__'}
+                    onValueChange={(target) => updateFallback(field, target === '__no_fallback__' ? '' : target)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="__no_fallback__">-- None, flag the row for review --</SelectItem>
+                      {options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            );
+          })}
           
+          {onSaveProfile && (
+            <div className="flex items-center gap-2 pt-4 border-t">
+              <Input
+                value={profileName}
+                onChange={(e) => setProfileName(e.target.value)}
+                placeholder="Profile name, e.g. Vendor weekly export"
+                className="flex-1"
+              />
+              <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                Save Mapping Profile
+              </Button>
+            </div>
+          )}
+
           <div className="flex justify-end space-x-2 pt-4 border-t">
             <Button variant="outline" onClick={onClose}>
               Cancel
             </Button>
             <Button onClick={handleConfirm}>
-              {importMode === 'delete' ? 'Delete Tasks' : 
-               importMode === 'update' ? 'Update Tasks' : 
+              {importMode === 'delete' ? 'Review Deletions' : 
+               importMode === 'upsert' ? 'Review Changes' : 
                'Import with Mapping'}
             </Button>
           </div>
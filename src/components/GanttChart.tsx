@@ -1,21 +1,39 @@
-import { useMemo } from "react";
-import { format, differenceInDays, startOfWeek, endOfWeek, eachDayOfInterval, addDays, isSameDay } from "date-fns";
-import { Task, CustomField } from "@/types/project";
+import { useMemo, useState } from "react";
+import { format, differenceInDays, startOfWeek, endOfWeek, eachDayOfInterval, addDays, isSameDay, parseISO } from "date-fns";
+import { Task, CustomField, ProjectBaseline, ProjectCalendar } from "@/types/project";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit2, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ChevronDown, ChevronRight, Edit2, Trash2 } from "lucide-react";
 import { adaptTaskForLegacyComponents } from "@/utils/typeCompatibility";
+import { computeSchedule } from "@/utils/scheduling";
+import { getWorkingDuration, isWorkingDay, resolveCalendar } from "@/utils/workingCalendar";
+import { formatVariance, getTaskVariance } from "@/utils/baselines";
+import { buildWbs, rollupSummaryTasks } from "@/utils/wbs";
 
 interface GanttChartProps {
   tasks: Task[];
   customFields: CustomField[];
+  calendar?: ProjectCalendar;
+  baseline?: ProjectBaseline;
   onEditTask: (task: Task) => void;
   onDeleteTask: (taskId: string) => void;
 }
 
-export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: GanttChartProps) {
+export function GanttChart({ tasks, customFields, calendar, baseline, onEditTask, onDeleteTask }: GanttChartProps) {
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [showBaseline, setShowBaseline] = useState(true);
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+
+  // Rows follow the WBS outline, with summary tasks spanning their subtasks
+  const rolledTasks = useMemo(() => rollupSummaryTasks(tasks, calendar), [tasks, calendar]);
+  const wbsNodes = useMemo(() => buildWbs(rolledTasks), [rolledTasks]);
+
   // Convert tasks to legacy format for compatibility
-  const adaptedTasks = tasks.map(adaptTaskForLegacyComponents);
+  const adaptedTasks = wbsNodes.map(node => adaptTaskForLegacyComponents(node.task));
+
+  const schedule = useMemo(() => computeSchedule(rolledTasks, calendar), [rolledTasks, calendar]);
   
   const { dateRange, dayColumns, taskRows } = useMemo(() => {
     if (adaptedTasks.length === 0) {
@@ -27,7 +45,12 @@ export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: Ga
       };
     }
 
-    const allDates = adaptedTasks.flatMap(task => [task.startDate, task.endDate]);
+    const variances = wbsNodes.map(({ task }) => baseline ? getTaskVariance(task, baseline, calendar) : undefined);
+    const baselineDates = variances
+      .filter(Boolean)
+      .flatMap(variance => [parseISO(variance.baseline.start_date), parseISO(variance.baseline.end_date)]);
+
+    const allDates = [...adaptedTasks.flatMap(task => [task.startDate, task.endDate]), ...baselineDates];
     const minDate = new Date(Math.min(...allDates.map(d => d.getTime())));
     const maxDate = new Date(Math.max(...allDates.map(d => d.getTime())));
 
@@ -37,16 +60,35 @@ export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: Ga
     const days = eachDayOfInterval({ start, end });
     const totalDays = days.length;
 
-    const rows = adaptedTasks.map(task => {
+    const rows = adaptedTasks.map((task, index) => {
+      // Each row is shaded with its assignee's calendar, so leave shows up too
+      const taskCalendar = resolveCalendar(calendar, wbsNodes[index].task.assignee);
       const taskStart = Math.max(0, differenceInDays(task.startDate, start));
       const taskDuration = differenceInDays(task.endDate, task.startDate) + 1;
       const taskWidth = Math.min(taskDuration, totalDays - taskStart);
 
+      // Ghost bar for the planned dates in the selected baseline
+      const variance = variances[index];
+      let baselineBar: { startOffset: number; width: number } | undefined;
+      if (variance) {
+        const plannedStart = parseISO(variance.baseline.start_date);
+        const plannedOffset = Math.max(0, differenceInDays(plannedStart, start));
+        const plannedDuration = differenceInDays(parseISO(variance.baseline.end_date), plannedStart) + 1;
+        baselineBar = {
+          startOffset: (plannedOffset / totalDays) * 100,
+          width: (Math.min(plannedDuration, totalDays - plannedOffset) / totalDays) * 100
+        };
+      }
+
       return {
         task,
+        node: wbsNodes[index],
         startOffset: (taskStart / totalDays) * 100,
         width: (taskWidth / totalDays) * 100,
-        duration: differenceInDays(task.endDate, task.startDate) + 1
+        duration: getWorkingDuration(task.startDate, task.endDate, taskCalendar),
+        nonWorkingDays: days.map(day => !isWorkingDay(day, taskCalendar)),
+        variance,
+        baselineBar
       };
     });
 
@@ -55,7 +97,30 @@ export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: Ga
       dayColumns: days,
       taskRows: rows
     };
-  }, [adaptedTasks]);
+  }, [adaptedTasks, wbsNodes, calendar, baseline]);
+
+  const projectCalendar = useMemo(() => resolveCalendar(calendar), [calendar]);
+
+  // Rows below a collapsed summary task are hidden; depth-first order keeps each branch contiguous
+  const visibleRows = useMemo(() => {
+    let collapsedLevel: number | null = null;
+    return taskRows.filter(({ node }) => {
+      if (collapsedLevel !== null && node.level > collapsedLevel) return false;
+      collapsedLevel = node.isSummary && collapsedIds.has(node.task.id) ? node.level : null;
+      return true;
+    });
+  }, [taskRows, collapsedIds]);
+
+  const summaryIds = wbsNodes.filter(node => node.isSummary).map(node => node.task.id);
+
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId);
+      else next.add(taskId);
+      return next;
+    });
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -100,8 +165,36 @@ export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: Ga
 
   return (
     <div className="bg-card rounded-lg border overflow-hidden">
-      <div className="p-4 border-b bg-muted/30">
+      <div className="p-4 border-b bg-muted/30 flex items-center justify-between">
         <h3 className="font-semibold text-foreground">Project Timeline</h3>
+        <div className="flex items-center space-x-2">
+          {summaryIds.length > 0 && (
+            <div className="flex items-center pr-4">
+              <Button variant="ghost" size="sm" onClick={() => setCollapsedIds(new Set())}>
+                Expand all
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCollapsedIds(new Set(summaryIds))}>
+                Collapse all
+              </Button>
+            </div>
+          )}
+          {baseline && (
+            <>
+              <Switch
+                id="show-baseline"
+                checked={showBaseline}
+                onCheckedChange={setShowBaseline}
+              />
+              <Label htmlFor="show-baseline" className="text-sm pr-4">Baseline: {baseline.name}</Label>
+            </>
+          )}
+          <Switch
+            id="show-critical-path"
+            checked={showCriticalPath}
+            onCheckedChange={setShowCriticalPath}
+          />
+          <Label htmlFor="show-critical-path" className="text-sm">Highlight critical path</Label>
+        </div>
       </div>
 
       <div className="overflow-auto">
@@ -115,7 +208,7 @@ export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: Ga
               <div
                 key={index}
                 className={`flex-1 min-w-[40px] p-2 text-center text-xs border-r ${
-                  isToday(day) ? 'bg-primary/20 font-semibold text-primary' : ''
+                  isToday(day) ? 'bg-primary/20 font-semibold text-primary' : !isWorkingDay(day, projectCalendar) ? 'bg-muted' : ''
                 }`}
               >
                 <div>{format(day, 'dd')}</div>
@@ -126,71 +219,116 @@ export function GanttChart({ tasks, customFields, onEditTask, onDeleteTask }: Ga
         </div>
 
         {/* Task rows */}
-        {taskRows.map(({ task, startOffset, width }) => (
-          <div key={task.id} className="flex border-b hover:bg-muted/20 min-w-max">
-            <div className="w-80 p-3 border-r bg-card">
-              <div className="flex items-center justify-between">
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center space-x-2">
-                    <span className="text-sm">{getTypeIcon(task.type)}</span>
-                    <span className="font-medium truncate">{task.name}</span>
+        {visibleRows.map(({ task, node, startOffset, width, duration, nonWorkingDays, variance, baselineBar }) => {
+          const taskSchedule = schedule.tasks[task.id];
+          const isCritical = showCriticalPath && taskSchedule?.isCritical;
+          const isCollapsed = collapsedIds.has(task.id);
+
+          return (
+            <div key={task.id} className="flex border-b hover:bg-muted/20 min-w-max">
+              <div className="w-80 p-3 border-r bg-card">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0" style={{ paddingLeft: `${(node.level - 1) * 16}px` }}>
+                    <div className="flex items-center space-x-2">
+                      {node.isSummary ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleCollapsed(task.id)}
+                          className="text-muted-foreground hover:text-foreground"
+                          title={isCollapsed ? "Expand" : "Collapse"}
+                        >
+                          {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </button>
+                      ) : (
+                        <span className="text-sm">{getTypeIcon(task.type)}</span>
+                      )}
+                      <span className="text-xs text-muted-foreground">{node.wbs}</span>
+                      <span className={`truncate ${node.isSummary ? 'font-semibold' : 'font-medium'}`}>{task.name}</span>
+                    </div>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <Badge 
+                        variant="outline" 
+                        className={`text-xs ${getStatusColor(task.status)} text-white border-0`}
+                      >
+                        {task.status.replace('-', ' ')}
+                      </Badge>
+                      {isCritical && (
+                        <Badge variant="destructive" className="text-xs">Critical</Badge>
+                      )}
+                      {task.assignee && (
+                        <span className="text-xs text-muted-foreground">{task.assignee}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {format(task.startDate, 'MMM dd')} - {format(task.endDate, 'MMM dd')}
+                      {task.type !== 'milestone' && <span className="ml-2">· {duration}d</span>}
+                      {taskSchedule && (
+                        <span className="ml-2">· Slack: {taskSchedule.totalFloat}d</span>
+                      )}
+                      {showBaseline && variance && variance.finishVariance !== 0 && (
+                        <span className={`ml-2 ${variance.finishVariance > 0 ? 'text-destructive' : 'text-success'}`}>
+                          · Finish {formatVariance(variance.finishVariance)}
+                        </span>
+                      )}
+                    </div>
+                    {renderCustomFields(task)}
                   </div>
-                  <div className="flex items-center space-x-2 mt-1">
-                    <Badge 
-                      variant="outline" 
-                      className={`text-xs ${getStatusColor(task.status)} text-white border-0`}
+                  <div className="flex space-x-1">
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      className="h-6 w-6"
+                      onClick={() => onEditTask(task)}
                     >
-                      {task.status.replace('-', ' ')}
-                    </Badge>
-                    {task.assignee && (
-                      <span className="text-xs text-muted-foreground">{task.assignee}</span>
-                    )}
-                  </div>
-                  <div className="text-xs text-muted-foreground mt-1">
-                    {format(task.startDate, 'MMM dd')} - {format(task.endDate, 'MMM dd')}
+                      <Edit2 className="h-3 w-3" />
+                    </Button>
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      className="h-6 w-6 text-destructive hover:text-destructive"
+                      onClick={() => onDeleteTask(task.id)}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
                   </div>
-                  {renderCustomFields(task)}
-                </div>
-                <div className="flex space-x-1">
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="h-6 w-6"
-                    onClick={() => onEditTask(task)}
-                  >
-                    <Edit2 className="h-3 w-3" />
-                  </Button>
-                  <Button 
-                    variant="ghost" 
-                    size="icon" 
-                    className="h-6 w-6 text-destructive hover:text-destructive"
-                    onClick={() => onDeleteTask(task.id)}
-                  >
-                    <Trash2 className="h-3 w-3" />
-                  </Button>
                 </div>
               </div>
-            </div>
-            <div className="flex-1 relative p-3">
-              <div 
-                className={`absolute top-1/2 transform -translate-y-1/2 h-6 rounded ${getStatusColor(task.status)} ${
-                  task.type === 'milestone' ? 'h-3 rotate-45' : ''
-                }`}
-                style={{
-                  left: `${startOffset}%`,
-                  width: task.type === 'milestone' ? '12px' : `${width}%`
-                }}
-              >
-                {task.type !== 'milestone' && (
-                  <div 
-                    className="h-full bg-white/20 rounded-l"
-                    style={{ width: `${task.progress}%` }}
+              <div className="flex-1 relative p-3">
+                {/* Weekends, holidays and leave */}
+                <div className="absolute inset-0 flex pointer-events-none">
+                  {nonWorkingDays.map((isOff, index) => (
+                    <div key={index} className={`flex-1 min-w-[40px] ${isOff ? 'bg-muted/60' : ''}`} />
+                  ))}
+                </div>
+                {showBaseline && baselineBar && (
+                  <div
+                    className="absolute bottom-1 h-2 rounded-sm border border-dashed border-muted-foreground/60 bg-muted-foreground/20"
+                    style={{ left: `${baselineBar.startOffset}%`, width: `${baselineBar.width}%` }}
+                    title={variance && `Baseline: ${variance.baseline.start_date} - ${variance.baseline.end_date}`}
                   />
                 )}
+                <div 
+                  className={`absolute top-1/2 transform -translate-y-1/2 rounded ${
+                    node.isSummary ? 'h-3 bg-foreground/70' : `h-6 ${getStatusColor(task.status)}`
+                  } ${
+                    task.type === 'milestone' && !node.isSummary ? 'h-3 rotate-45' : ''
+                  } ${isCritical ? 'ring-2 ring-destructive ring-offset-1' : ''}`}
+                  style={{
+                    left: `${startOffset}%`,
+                    width: task.type === 'milestone' && !node.isSummary ? '12px' : `${width}%`
+                  }}
+                >
+                  {(task.type !== 'milestone' || node.isSummary) && (
+                    <div 
+                      className="h-full bg-white/20 rounded-l"
+                      style={{ width: `${task.progress}%` }}
+                    />
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         {tasks.length === 0 && (
           <div className="p-8 text-center text-muted-foreground">
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2 } from "lucide-react";
+import { ProjectBaseline, ProjectCalendar, Task } from "@/types/project";
+import {
+  GANTT_COLUMNS,
+  GANTT_PAGE_SIZES,
+  GanttColumn,
+  GanttExportFormat,
+  GanttPageSize,
+  exportGantt
+} from "@/utils/ganttExport";
+
+const FORMATS: { value: GanttExportFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF (pages for printing)' },
+  { value: 'png', label: 'PNG image' },
+  { value: 'svg', label: 'SVG (scales without blurring)' }
+];
+
+const DEFAULT_COLUMNS: GanttColumn[] = ['wbs', 'name', 'start', 'finish', 'progress'];
+
+interface GanttExportDialogProps {
+  isOpen: boolean;
+  projectName: string;
+  tasks: Task[];
+  calendar?: ProjectCalendar;
+  baseline?: ProjectBaseline;
+  onClose: () => void;
+}
+
+export function GanttExportDialog({ isOpen, projectName, tasks, calendar, baseline, onClose }: GanttExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<GanttExportFormat>('pdf');
+  const [pageSize, setPageSize] = useState<GanttPageSize>('a4');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [statusDate, setStatusDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [columns, setColumns] = useState<GanttColumn[]>(DEFAULT_COLUMNS);
+  const [legend, setLegend] = useState(true);
+  const [showCriticalPath, setShowCriticalPath] = useState(true);
+  const [showBaseline, setShowBaseline] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const toggleColumn = (column: GanttColumn, checked: boolean) => {
+    setColumns(prev => checked ? [...prev, column] : prev.filter(value => value !== column));
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      await exportGantt(tasks, exportFormat, {
+        projectName,
+        statusDate,
+        from: from || undefined,
+        to: to || undefined,
+        columns,
+        legend,
+        pageSize,
+        showCriticalPath,
+        baseline: showBaseline ? baseline : undefined,
+        calendar
+      });
+      toast({
+        title: "Export Successful",
+        description: `The Gantt chart has been exported as ${exportFormat.toUpperCase()}.`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error exporting Gantt chart:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export the Gantt chart.",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Export Gantt Chart</DialogTitle>
+          <DialogDescription>
+            Save the timeline as a PDF for printing or as an image for slides. Everything is drawn in the browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as GanttExportFormat)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FORMATS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Page size</Label>
+              <Select value={pageSize} onValueChange={(value) => setPageSize(value as GanttPageSize)} disabled={exportFormat !== 'pdf'}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GANTT_PAGE_SIZES.map(size => (
+                    <SelectItem key={size.value} value={size.value}>{size.label} landscape</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="gantt-from">From</Label>
+              <Input id="gantt-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="gantt-to">To</Label>
+              <Input id="gantt-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="mt-1" />
+            </div>
+            <div>
+              <Label htmlFor="gantt-status-date">Status date</Label>
+              <Input id="gantt-status-date" type="date" value={statusDate} onChange={(e) => setStatusDate(e.target.value)} className="mt-1" />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-3">Leave the dates empty to show the whole plan.</p>
+
+          <div>
+            <Label>Columns</Label>
+            <div className="grid grid-cols-4 gap-2 mt-2">
+              {GANTT_COLUMNS.map(column => (
+                <label key={column.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={columns.includes(column.value)}
+                    onCheckedChange={(checked) => toggleColumn(column.value, checked === true)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-3">
+            <div className="flex items-center gap-2">
+              <Switch id="gantt-legend" checked={legend} onCheckedChange={setLegend} />
+              <Label htmlFor="gantt-legend" className="font-normal">Legend</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="gantt-critical" checked={showCriticalPath} onCheckedChange={setShowCriticalPath} />
+              <Label htmlFor="gantt-critical" className="font-normal">Critical path</Label>
+            </div>
+            {baseline && (
+              <div className="flex items-center gap-2">
+                <Switch id="gantt-baseline" checked={showBaseline} onCheckedChange={setShowBaseline} />
+                <Label htmlFor="gantt-baseline" className="font-normal">Baseline: {baseline.name}</Label>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { RefreshCw } from "lucide-react";
+import { SheetSyncLogEntry, SheetSyncSettings, Task } from "@/types/project";
+import { ImportDiff } from "@/utils/importDiff";
+import {
+  ConflictChoice,
+  createHttpSyncConnector,
+  getSyncTime,
+  planSync,
+  resolveConflicts,
+  SyncConnector,
+  SyncPlan
+} from "@/utils/sheetSync";
+import { SyncConflictDialog } from "./SyncConflictDialog";
+
+// Older entries are dropped from the saved log
+const MAX_LOG_ENTRIES = 20;
+const LISTED_LOG_ENTRIES = 5;
+
+interface GoogleSheetsSyncProps {
+  loadTasks: () => Promise<Task[]>; // Tasks as saved, since edits in the app don't refresh updated_at in memory
+  settings?: SheetSyncSettings;
+  onSaveSettings: (settings: SheetSyncSettings) => Promise<void> | void;
+  onApplyChanges: (diff: ImportDiff) => Promise<boolean>;
+}
+
+export function GoogleSheetsSync({ loadTasks, settings, onSaveSettings, onApplyChanges }: GoogleSheetsSyncProps) {
+  const [url, setUrl] = useState(settings?.url || '');
+  const [isSyncing, setIsSyncing] = useState(false);
+  // A pulled sync waiting for the user to settle its conflicts
+  const [pending, setPending] = useState<{ plan: SyncPlan; connector: SyncConnector } | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setUrl(settings?.url || '');
+  }, [settings?.url]);
+
+  const log = settings?.log || [];
+
+  const saveLogEntry = async (entry: SheetSyncLogEntry, lastSyncedAt = settings?.last_synced_at) => {
+    await onSaveSettings({ url, last_synced_at: lastSyncedAt, log: [entry, ...log].slice(0, MAX_LOG_ENTRIES) });
+  };
+
+  const failSync = async (error: unknown, skipped: string[] = []) => {
+    const message = error instanceof Error ? error.message : 'The sync failed';
+    console.error('Error syncing with Google Sheets:', error);
+    toast({ title: "Sync Failed", description: message, variant: "destructive" });
+    await saveLogEntry({ at: new Date().toISOString(), pulled: 0, pushed: 0, conflicts: 0, messages: skipped, error: message });
+  };
+
+  // Sheet edits are saved before the push, so a failed push leaves the last sync time as it was and is retried next time.
+  // The sync time is taken once everything is saved, so the tasks it stamped aren't seen as app edits next time.
+  const finishSync = async (plan: SyncPlan, connector: SyncConnector, conflictCount: number) => {
+    const pulled = plan.created.length + plan.changed.length;
+    if (pulled > 0) {
+      const saved = await onApplyChanges({ created: plan.created, changed: plan.changed, unchanged: [], removed: [] });
+      if (!saved) throw new Error('The changes from the sheet could not be saved');
+    }
+    if (plan.push.length > 0) {
+      await connector.push(plan.push);
+    }
+
+    await saveLogEntry(
+      { at: new Date().toISOString(), pulled, pushed: plan.push.length, conflicts: conflictCount, messages: plan.skipped },
+      getSyncTime(await loadTasks())
+    );
+    toast({
+      title: "Sync Complete",
+      description: `${pulled} ${pulled === 1 ? 'task' : 'tasks'} updated from the sheet, ${plan.push.length} ${plan.push.length === 1 ? 'row' : 'rows'} written to it.`,
+    });
+  };
+
+  const handleSync = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url) return;
+
+    setIsSyncing(true);
+    let plan: SyncPlan | undefined;
+    try {
+      const connector = createHttpSyncConnector(url);
+      const rows = await connector.pull();
+      plan = planSync(await loadTasks(), rows, settings?.last_synced_at);
+      if (plan.conflicts.length > 0) {
+        setPending({ plan, connector });
+        return;
+      }
+      await finishSync(plan, connector, 0);
+    } catch (error) {
+      await failSync(error, plan?.skipped);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleConflictsResolved = async (choices: Record<string, ConflictChoice>) => {
+    if (!pending) return;
+    const { plan, connector } = pending;
+    setPending(null);
+    setIsSyncing(true);
+    try {
+      await finishSync(resolveConflicts(plan, choices), connector, plan.conflicts.length);
+    } catch (error) {
+      await failSync(error, plan.skipped);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSync} className="space-y-4">
+        <div>
+          <Label htmlFor="sheet-sync-url">Sheet Web App URL</Label>
+          <Input
+            id="sheet-sync-url"
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://script.google.com/macros/s/.../exec"
+            className="mt-1"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Deploy an Apps Script from the sheet as a web app that lists its rows on GET and saves rows sent by POST.
+            Rows are matched to tasks by the ID column.
+          </p>
+        </div>
+
+        <Button type="submit" disabled={!url || isSyncing}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+          {isSyncing ? "Syncing..." : "Sync Now"}
+        </Button>
+      </form>
+
+      {log.length > 0 && (
+        <div className="space-y-2 text-sm">
+          <h4 className="font-medium">Sync Log</h4>
+          {settings?.last_synced_at && (
+            <p className="text-muted-foreground">Last synced {format(new Date(settings.last_synced_at), 'PPp')}</p>
+          )}
+          <ul className="space-y-2">
+            {log.slice(0, LISTED_LOG_ENTRIES).map((entry, index) => (
+              <li key={index} className="rounded-md border p-2">
+                <div className="flex justify-between gap-4">
+                  <span>{format(new Date(entry.at), 'PPp')}</span>
+                  {entry.error ? (
+                    <span className="text-destructive">Failed</span>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {entry.pulled} pulled, {entry.pushed} pushed
+                      {entry.conflicts > 0 && `, ${entry.conflicts} ${entry.conflicts === 1 ? 'conflict' : 'conflicts'} resolved`}
+                    </span>
+                  )}
+                </div>
+                {entry.error && <p className="text-destructive text-xs mt-1">{entry.error}</p>}
+                {entry.messages.length > 0 && (
+                  <ul className="list-disc pl-5 text-xs text-muted-foreground mt-1">
+                    {entry.messages.map((message, messageIndex) => <li key={messageIndex}>{message}</li>)}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {pending && (
+        <SyncConflictDialog
+          isOpen
+          conflicts={pending.plan.conflicts}
+          onConfirm={handleConflictsResolved}
+          onClose={() => setPending(null)}
+        />
+      )}
+    </div>
+  );
+}
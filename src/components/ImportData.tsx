@@ -1,63 +1,163 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { Upload, FileSpreadsheet, Download } from "lucide-react";
-import { Task, TaskStatus, TaskType, CustomField } from "@/types/project";
+import { Switch } from "@/components/ui/switch";
+import { Upload, FileSpreadsheet, Download, AlertTriangle, X } from "lucide-react";
+import { Task, CustomField, ImportProfile, ProjectCalendar, SheetSyncSettings } from "@/types/project";
 import { useToast } from "@/hooks/use-toast";
-import { importFromCSV } from "@/utils/importUtils";
-import { importFromCSVWithMapping, parseCSVHeaders } from "@/utils/importWithMapping";
-import { FieldMappingDialog } from "./FieldMappingDialog";
+import {
+  buildTasksFromRows,
+  FieldMapping,
+  getMappedTaskFields,
+  getRowKey,
+  ImportOptions,
+  mapCsvRows,
+  MappedRow,
+  validateMappedRows
+} from "@/utils/importWithMapping";
+import { diffDelete, diffUpsert, ImportDiff } from "@/utils/importDiff";
+import { CsvError, DELIMITER_LABELS, formatCsvError, parseCSV, ParsedCsv } from "@/utils/csvParser";
+import { parseCsvFile } from "@/utils/csvFile";
+import { readXlsx, sheetToCsv, XlsxSheet } from "@/utils/xlsx";
+import { importFromMSPDI, MspdiImportResult } from "@/utils/mspdiImport";
+import { decodeXerFile, importFromXER } from "@/utils/xerUtils";
+import { ASANA_PRESET, importFromTrackerCsv, importFromTrello, JIRA_PRESET, TrackerSource } from "@/utils/trackerImports";
+import { WEEKDAY_LABELS } from "@/utils/workingCalendar";
+import { downloadBlob } from "@/utils/download";
+import { FieldMappingDialog, ImportMode } from "./FieldMappingDialog";
+import { ImportPreviewDialog } from "./ImportPreviewDialog";
+import { CsvImportReviewDialog, ReviewColumn } from "./CsvImportReviewDialog";
+import { ImportDiffDialog } from "./ImportDiffDialog";
+import { GoogleSheetsSync } from "./GoogleSheetsSync";
+
+// How many CSV problems are listed before the rest are summarised
+const MAX_LISTED_CSV_ERRORS = 5;
+
+// Shared defaults, so the mapping dialog's profile matching doesn't rerun on every render
+const NO_CUSTOM_FIELDS: CustomField[] = [];
+const NO_PROFILES: ImportProfile[] = [];
+
+// A parsed MS Project or Primavera file waiting for confirmation
+type ProjectFilePreview = MspdiImportResult & { calendar?: ProjectCalendar; calendarName?: string };
+
+// The file each tracker exports, and where to find the export
+const TRACKER_FILES: Record<TrackerSource, { label: string; accept: string; help: string }> = {
+  jira: { label: 'Jira', accept: '.csv', help: 'In Jira, search for the issues and choose Export > Export CSV (all fields).' },
+  trello: { label: 'Trello', accept: '.json', help: 'In Trello, open the board menu and choose Print, export and share > Export as JSON.' },
+  asana: { label: 'Asana', accept: '.csv', help: 'In Asana, open the project menu and choose Export/Print > CSV.' }
+};
 
 interface ImportDataProps {
-  onImport: (tasks: Omit<Task, 'id'>[]) => void;
-  onBulkUpdate?: (tasks: Omit<Task, 'id'>[]) => void;
-  onBulkDelete?: (taskNames: string[]) => void;
+  onImport: (tasks: Partial<Task>[], newCustomFields?: CustomField[], calendar?: ProjectCalendar) => void;
+  onApplyChanges?: (diff: ImportDiff) => Promise<boolean> | void; // Upsert and delete imports, and sheet syncs
   existingTasks?: Task[];
   customFields?: CustomField[];
+  importProfiles?: ImportProfile[];
+  onSaveImportProfile?: (profile: ImportProfile) => void;
+  onDeleteImportProfile?: (profileId: string) => void;
+  sheetSync?: SheetSyncSettings;
+  onSaveSheetSync?: (settings: SheetSyncSettings) => Promise<void> | void;
+  onLoadTasks?: () => Promise<Task[]>; // Fresh tasks from the database, for sheet syncs
 }
 
 export function ImportData({ 
   onImport, 
-  onBulkUpdate, 
-  onBulkDelete, 
+  onApplyChanges,
   existingTasks = [], 
-  customFields = [] 
+  customFields = NO_CUSTOM_FIELDS,
+  importProfiles = NO_PROFILES,
+  onSaveImportProfile,
+  onDeleteImportProfile,
+  sheetSync,
+  onSaveSheetSync,
+  onLoadTasks
 }: ImportDataProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [csvData, setCsvData] = useState('');
-  const [webhookUrl, setWebhookUrl] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const [showFieldMapping, setShowFieldMapping] = useState(false);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
-  const [importMode, setImportMode] = useState<'create' | 'update' | 'delete'>('create');
+  // A workbook's sheets are kept so another one can be picked
+  const [csvFile, setCsvFile] = useState<{ name: string; csv: ParsedCsv; sheets?: XlsxSheet[]; sheetIndex?: number } | null>(null);
+  const [csvFileProgress, setCsvFileProgress] = useState<number | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<ParsedCsv | null>(null);
+  const [csvErrors, setCsvErrors] = useState<CsvError[]>([]);
+  const [csvReview, setCsvReview] = useState<{
+    rows: MappedRow[];
+    columns: ReviewColumn[];
+    mappings: FieldMapping[];
+    options: ImportOptions;
+  } | null>(null);
+  const [importDiff, setImportDiff] = useState<ImportDiff | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('create');
+  const [projectPreview, setProjectPreview] = useState<ProjectFilePreview | null>(null);
+  const [useFileCalendar, setUseFileCalendar] = useState(true);
+  const [trackerSource, setTrackerSource] = useState<TrackerSource>('jira');
   const { toast } = useToast();
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
 
-    if (!file.name.endsWith('.csv')) {
+    if (!/\.(csv|tsv|txt|xlsx)$/i.test(file.name)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload a CSV file",
+        description: "Please upload a CSV or Excel (.xlsx) file",
         variant: "destructive",
       });
       return;
     }
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
-      setCsvData(content);
-    };
-    reader.readAsText(file);
+    if (/\.xlsx$/i.test(file.name)) {
+      try {
+        const sheets = await readXlsx(await file.arrayBuffer());
+        const sheetIndex = sheets.findIndex(sheet => sheet.rows.length > 1);
+        if (sheetIndex === -1) {
+          throw new Error('The workbook has no sheet with a header row and data');
+        }
+        setCsvFile({ name: file.name, csv: sheetToCsv(sheets[sheetIndex]), sheets, sheetIndex });
+        setCsvErrors([]);
+      } catch (error) {
+        toast({
+          title: "Excel import failed",
+          description: error instanceof Error ? error.message : "Failed to read the Excel file",
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    // Large files are parsed off the main thread and never put in the textarea
+    setCsvFileProgress(0);
+    try {
+      const csv = await parseCsvFile(file, setCsvFileProgress);
+      setCsvFile({ name: file.name, csv });
+      setCsvErrors(csv.errors);
+    } catch (error) {
+      toast({
+        title: "CSV parsing failed",
+        description: error instanceof Error ? error.message : "Failed to read the CSV file",
+        variant: "destructive",
+      });
+    } finally {
+      setCsvFileProgress(null);
+    }
+  };
+
+  const handleSheetChange = (sheetIndex: number) => {
+    setCsvFile(prev => prev && { ...prev, csv: sheetToCsv(prev.sheets[sheetIndex]), sheetIndex });
+  };
+
+  const clearCsvFile = () => {
+    setCsvFile(null);
+    setCsvErrors([]);
   };
 
   const handleImportCSV = () => {
-    if (!csvData.trim()) {
+    if (!csvFile && !csvData.trim()) {
       toast({
         title: "No data to import",
         description: "Please upload a CSV file or paste CSV data",
@@ -67,9 +167,14 @@ export function ImportData({
     }
 
     try {
-      // Parse headers and show mapping dialog
-      const headers = parseCSVHeaders(csvData);
-      setCsvHeaders(headers);
+      // Parse the data and show the mapping dialog for its headers
+      const csv = csvFile?.csv || parseCSV(csvData);
+      if (csv.headers.length === 0) {
+        throw new Error('CSV data must start with a header row');
+      }
+      setPendingCsv(csv);
+      setCsvErrors(csv.errors);
+      setCsvHeaders(csv.headers);
       setShowFieldMapping(true);
     } catch (error) {
       toast({
@@ -80,66 +185,42 @@ export function ImportData({
     }
   };
 
-  const handleFieldMappingConfirm = (mappings: Array<{csvColumn: string; appField: string}>) => {
+  const resetCsvImport = () => {
+    setShowFieldMapping(false);
+    setCsvReview(null);
+    setImportDiff(null);
+    setCsvData('');
+    setCsvHeaders([]);
+    setPendingCsv(null);
+    clearCsvFile();
+  };
+
+  const handleFieldMappingConfirm = (mappings: FieldMapping[], options: ImportOptions) => {
     try {
-      const tasks = importFromCSVWithMapping(csvData, mappings, customFields);
-      
       if (importMode === 'delete') {
-        const taskNames = tasks.map(task => task.name).filter(name => name);
-        if (taskNames.length === 0) {
-          toast({
-            title: "No task names found",
-            description: "The CSV file doesn't contain valid task names for deletion",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        if (onBulkDelete) {
-          onBulkDelete(taskNames);
-          toast({
-            title: "Bulk delete initiated",
-            description: `Marked ${taskNames.length} tasks for deletion`,
-          });
-        }
-      } else if (importMode === 'update') {
-        if (tasks.length === 0) {
-          toast({
-            title: "No tasks found",
-            description: "The CSV file doesn't contain valid task data",
-            variant: "destructive",
-          });
-          return;
-        }
-        
-        if (onBulkUpdate) {
-          onBulkUpdate(tasks);
+        const keys = mapCsvRows(pendingCsv, mappings).map(getRowKey).filter(Boolean);
+        const diff = diffDelete(existingTasks, keys);
+        if (diff.removed.length === 0) {
           toast({
-            title: "Bulk update successful",
-            description: `Updated ${tasks.length} tasks from CSV`,
-          });
-        }
-      } else {
-        if (tasks.length === 0) {
-          toast({
-            title: "No tasks found",
-            description: "The CSV file doesn't contain valid task data",
+            title: "No matching tasks",
+            description: "None of the IDs in the CSV file match a task in this project",
             variant: "destructive",
           });
           return;
         }
-
-        onImport(tasks);
-        toast({
-          title: "Import successful",
-          description: `Imported ${tasks.length} tasks from CSV`,
-        });
+        setImportDiff(diff);
+        setShowFieldMapping(false);
+        return;
       }
-      
-      setIsOpen(false);
+
+      // New and updated tasks go through the review step first
+      setCsvReview({
+        rows: mapCsvRows(pendingCsv, mappings, options),
+        columns: mappings.map(mapping => ({ field: mapping.appField, label: mapping.csvColumn })),
+        mappings,
+        options
+      });
       setShowFieldMapping(false);
-      setCsvData('');
-      setCsvHeaders([]);
     } catch (error) {
       toast({
         title: "Operation failed",
@@ -149,55 +230,131 @@ export function ImportData({
     }
   };
 
-  const handleFieldMappingClose = () => {
-    setShowFieldMapping(false);
-    setCsvHeaders([]);
-  };
+  const validateReviewRows = useCallback(
+    (rows: MappedRow[]) => validateMappedRows(rows, customFields, existingTasks, {
+      requireKey: importMode === 'upsert',
+      dateFormat: csvReview?.options.dateFormat
+    }),
+    [customFields, existingTasks, importMode, csvReview?.options]
+  );
 
-  const handleGoogleSheetsSync = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!webhookUrl) {
+  const handleReviewConfirm = (rows: MappedRow[]) => {
+    const { tasks, issues } = buildTasksFromRows(rows, customFields, existingTasks, csvReview.options);
+    const problems = rows.flatMap((row, index) => issues[index].map(issue => `Row ${row.rowNumber}: ${issue.message}`));
+    if (problems.length > 0) {
       toast({
-        title: "Missing URL",
-        description: "Please enter your Google Sheets webhook URL",
+        title: `${problems.length} ${problems.length === 1 ? 'problem' : 'problems'} found while building the tasks`,
+        description: [
+          ...problems.slice(0, MAX_LISTED_CSV_ERRORS),
+          ...(problems.length > MAX_LISTED_CSV_ERRORS ? [`and ${problems.length - MAX_LISTED_CSV_ERRORS} more`] : [])
+        ].join('; '),
         variant: "destructive",
       });
       return;
     }
 
-    setIsLoading(true);
-
-    try {
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        mode: "no-cors",
-        body: JSON.stringify({
-          action: "sync_tasks",
-          timestamp: new Date().toISOString(),
-          source: window.location.origin,
-        }),
+    if (tasks.length === 0) {
+      toast({
+        title: "No tasks found",
+        description: "The CSV file doesn't contain valid task data",
+        variant: "destructive",
       });
+      return;
+    }
+
+    if (importMode === 'upsert') {
+      setImportDiff(diffUpsert(existingTasks, tasks, getMappedTaskFields(csvReview.mappings)));
+      setCsvReview(null);
+      return;
+    }
+
+    onImport(tasks);
+    toast({
+      title: "Import successful",
+      description: `Imported ${tasks.length} tasks from CSV`,
+    });
+    setIsOpen(false);
+    resetCsvImport();
+  };
+
+  const handleProjectFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
+    try {
+      const result: ProjectFilePreview = file.name.toLowerCase().endsWith('.xer')
+        ? importFromXER(decodeXerFile(await file.arrayBuffer()), customFields)
+        : importFromMSPDI(await file.text(), customFields);
+      if (result.tasks.length === 0) {
+        toast({
+          title: "No tasks found",
+          description: "The project file doesn't contain any tasks",
+          variant: "destructive",
+        });
+        return;
+      }
+      setProjectPreview(result);
+      setUseFileCalendar(true);
+    } catch (error) {
       toast({
-        title: "Sync Request Sent",
-        description: "The sync request was sent to Google Sheets. Please check your automation to confirm it worked.",
+        title: "Project file import failed",
+        description: error instanceof Error ? error.message : "Failed to read the project file",
+        variant: "destructive",
       });
+    }
+  };
+
+  const handleTrackerFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = trackerSource === 'trello'
+        ? importFromTrello(await file.text(), customFields)
+        : importFromTrackerCsv(await parseCsvFile(file), trackerSource === 'jira' ? JIRA_PRESET : ASANA_PRESET, customFields);
+      if (result.tasks.length === 0) {
+        toast({
+          title: "No tasks found",
+          description: `The ${TRACKER_FILES[trackerSource].label} export doesn't contain any tasks`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setProjectPreview({ ...result, projectName: result.projectName || file.name });
     } catch (error) {
-      console.error("Error syncing with Google Sheets:", error);
       toast({
-        title: "Sync Error",
-        description: "Failed to sync with Google Sheets. Please check the URL and try again.",
+        title: `${TRACKER_FILES[trackerSource].label} import failed`,
+        description: error instanceof Error ? error.message : "Failed to read the export",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  const handleProjectImportConfirm = () => {
+    if (!projectPreview) return;
+    onImport(
+      projectPreview.tasks,
+      projectPreview.customFields,
+      useFileCalendar ? projectPreview.calendar : undefined
+    );
+    setProjectPreview(null);
+    setIsOpen(false);
+  };
+
+  const handleDiffConfirm = (diff: ImportDiff) => {
+    onApplyChanges?.(diff);
+    setIsOpen(false);
+    resetCsvImport();
+  };
+
+  const handleFieldMappingClose = () => {
+    setShowFieldMapping(false);
+    setCsvHeaders([]);
+    setPendingCsv(null);
+  };
+
   const downloadTemplate = () => {
     // Include custom fields in template
     const customFieldHeaders = customFields.map(field => field.name).join(',');
@@ -212,24 +369,17 @@ export function ImportData({
       }
     }).join(',');
     
-    const headers = `Task Name,Type,Status,Start Date,End Date,Assignee,Progress (%),Dependencies,Description${customFieldHeaders ? ',' + customFieldHeaders : ''}`;
+    const headers = `External ID,Task Name,Type,Status,Start Date,End Date,Assignee,Progress (%),Dependencies,Description${customFieldHeaders ? ',' + customFieldHeaders : ''}`;
     const sampleRows = [
-      `"Setup Project Environment",task,not-started,2024-01-15,2024-01-17,"John Doe",0,"","Initialize development environment"${customFieldSample ? ',' + customFieldSample : ''}`,
-      `"Requirements Analysis",milestone,in-progress,2024-01-18,2024-01-25,"Jane Smith",50,"","Gather and analyze project requirements"${customFieldSample ? ',' + customFieldSample : ''}`,
-      `"Database Design",deliverable,not-started,2024-01-26,2024-02-02,"Mike Johnson",0,"Requirements Analysis","Design database schema"${customFieldSample ? ',' + customFieldSample : ''}`
+      `TASK-1,"Setup Project Environment",task,not-started,2024-01-15,2024-01-17,"John Doe",0,"","Initialize development environment"${customFieldSample ? ',' + customFieldSample : ''}`,
+      `TASK-2,"Requirements Analysis",milestone,in-progress,2024-01-18,2024-01-25,"Jane Smith",50,"","Gather and analyze project requirements"${customFieldSample ? ',' + customFieldSample : ''}`,
+      `TASK-3,"Database Design",deliverable,not-started,2024-01-26,2024-02-02,"Mike Johnson",0,"Requirements Analysis","Design database schema"${customFieldSample ? ',' + customFieldSample : ''}`
     ];
     
     const template = [headers, ...sampleRows].join('\n');
 
     const blob = new Blob([template], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', 'project_template.csv');
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadBlob(blob, 'project_template.csv');
   };
 
   return (
@@ -240,7 +390,7 @@ export function ImportData({
           Import Data
         </Button>
       </DialogTrigger>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Import Project Data</DialogTitle>
         </DialogHeader>
@@ -262,73 +412,173 @@ export function ImportData({
                 <select
                   id="import-mode"
                   value={importMode}
-                  onChange={(e) => setImportMode(e.target.value as 'create' | 'update' | 'delete')}
+                  onChange={(e) => setImportMode(e.target.value as ImportMode)}
                   className="w-full mt-1 px-3 py-2 border border-input rounded-md"
                 >
                   <option value="create">Create New Tasks</option>
-                  <option value="update">Update Existing Tasks (by name)</option>
-                  <option value="delete">Delete Tasks (by name)</option>
+                  <option value="upsert">Create and Update Tasks (by External ID)</option>
+                  <option value="delete">Delete Tasks (by External ID)</option>
                 </select>
               </div>
               
               <div>
-                <Label htmlFor="csv-file">Upload CSV File</Label>
+                <Label htmlFor="csv-file">Upload CSV or Excel File</Label>
                 <Input
                   id="csv-file"
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.tsv,.txt,.xlsx"
                   onChange={handleFileUpload}
+                  disabled={csvFileProgress !== null}
                   className="mt-1"
                 />
+                {csvFileProgress !== null && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Reading file... {Math.round(csvFileProgress * 100)}%
+                  </p>
+                )}
               </div>
               
-              <div>
-                <Label htmlFor="csv-data">Or Paste CSV Data</Label>
-                <Textarea
-                  id="csv-data"
-                  value={csvData}
-                  onChange={(e) => setCsvData(e.target.value)}
-                  placeholder="Paste CSV data here..."
-                  rows={6}
-                  className="mt-1 font-mono text-sm"
-                />
-              </div>
+              {csvFile ? (
+                <div className="space-y-3 rounded-md border p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span>
+                      <span className="font-medium">{csvFile.name}</span>
+                      <span className="text-muted-foreground ml-2">
+                        {csvFile.csv.rows.length} rows, {csvFile.csv.headers.length} columns
+                        {!csvFile.sheets && `, ${DELIMITER_LABELS[csvFile.csv.delimiter]}-separated`}
+                      </span>
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={clearCsvFile}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {csvFile.sheets && csvFile.sheets.length > 1 && (
+                    <div>
+                      <Label htmlFor="xlsx-sheet">Sheet</Label>
+                      <select
+                        id="xlsx-sheet"
+                        value={csvFile.sheetIndex}
+                        onChange={(e) => handleSheetChange(Number(e.target.value))}
+                        className="w-full mt-1 px-3 py-2 border border-input rounded-md"
+                      >
+                        {csvFile.sheets.map((sheet, index) => (
+                          <option key={index} value={index}>
+                            {sheet.name} ({Math.max(0, sheet.rows.length - 1)} rows)
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div>
+                  <Label htmlFor="csv-data">Or Paste CSV Data</Label>
+                  <Textarea
+                    id="csv-data"
+                    value={csvData}
+                    onChange={(e) => setCsvData(e.target.value)}
+                    placeholder="Paste CSV data here..."
+                    rows={6}
+                    className="mt-1 font-mono text-sm"
+                  />
+                </div>
+              )}
+
+              {csvErrors.length > 0 && (
+                <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <div className="flex items-center gap-2 font-medium mb-1">
+                    <AlertTriangle className="w-4 h-4" />
+                    {csvErrors.length} {csvErrors.length === 1 ? 'problem' : 'problems'} found while reading the CSV
+                  </div>
+                  <ul className="list-disc pl-6 space-y-0.5">
+                    {csvErrors.slice(0, MAX_LISTED_CSV_ERRORS).map((error, index) => (
+                      <li key={index}>{formatCsvError(error)}</li>
+                    ))}
+                    {csvErrors.length > MAX_LISTED_CSV_ERRORS && (
+                      <li>and {csvErrors.length - MAX_LISTED_CSV_ERRORS} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
               
-              <Button onClick={handleImportCSV} disabled={!csvData.trim()}>
+              <Button onClick={handleImportCSV} disabled={!csvFile && !csvData.trim()}>
                 <FileSpreadsheet className="w-4 h-4 mr-2" />
                 Import CSV Data
               </Button>
             </div>
           </div>
 
+          {/* Project File Import Section */}
+          <div className="border-t pt-6 space-y-4">
+            <h3 className="text-lg font-medium">Project File Import</h3>
+            <p className="text-sm text-muted-foreground">
+              Import tasks, hierarchy, links, resources and custom fields from Microsoft Project XML
+              (File &gt; Save As &gt; XML Format in MS Project) or a Primavera P6 XER export.
+              You can review everything before it is added.
+            </p>
+            <div>
+              <Label htmlFor="project-file">Upload Project XML or .xer File</Label>
+              <Input
+                id="project-file"
+                type="file"
+                accept=".xml,.xer"
+                onChange={handleProjectFileUpload}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          {/* Tracker Import Section */}
+          <div className="border-t pt-6 space-y-4">
+            <h3 className="text-lg font-medium">Jira, Trello and Asana</h3>
+            <p className="text-sm text-muted-foreground">
+              Import an export from another tracker with its fields already mapped: epics and parent tasks become the
+              hierarchy, blocking links become dependencies, and labels and story points become custom fields.
+            </p>
+            <div>
+              <Label htmlFor="tracker-source">Exported From</Label>
+              <select
+                id="tracker-source"
+                value={trackerSource}
+                onChange={(e) => setTrackerSource(e.target.value as TrackerSource)}
+                className="w-full mt-1 px-3 py-2 border border-input rounded-md"
+              >
+                {(Object.keys(TRACKER_FILES) as TrackerSource[]).map(source => (
+                  <option key={source} value={source}>{TRACKER_FILES[source].label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="tracker-file">Upload {TRACKER_FILES[trackerSource].label} Export</Label>
+              <Input
+                id="tracker-file"
+                type="file"
+                accept={TRACKER_FILES[trackerSource].accept}
+                onChange={handleTrackerFileUpload}
+                className="mt-1"
+              />
+              <p className="text-xs text-muted-foreground mt-1">{TRACKER_FILES[trackerSource].help}</p>
+            </div>
+          </div>
+
           {/* Google Sheets Integration Section */}
           <div className="border-t pt-6 space-y-4">
             <h3 className="text-lg font-medium">Google Sheets Integration</h3>
             <p className="text-sm text-muted-foreground">
-              To sync with Google Sheets, you'll need to create a webhook automation using tools like Zapier or Google Apps Script.
+              Keep tasks in step with a Google Sheet. Edits made on either side since the last sync are carried over,
+              and tasks edited on both sides are shown for you to choose which version to keep.
             </p>
             
-            <form onSubmit={handleGoogleSheetsSync} className="space-y-4">
-              <div>
-                <Label htmlFor="webhook-url">Webhook URL</Label>
-                <Input
-                  id="webhook-url"
-                  type="url"
-                  value={webhookUrl}
-                  onChange={(e) => setWebhookUrl(e.target.value)}
-                  placeholder="https://hooks.zapier.com/hooks/catch/..."
-                  className="mt-1"
-                />
-                <p className="text-xs text-muted-foreground mt-1">
-                  Create a Zapier webhook or Google Apps Script to handle the sync
-                </p>
-              </div>
-              
-              <Button type="submit" disabled={!webhookUrl || isLoading}>
-                <FileSpreadsheet className="w-4 h-4 mr-2" />
-                {isLoading ? "Syncing..." : "Sync with Google Sheets"}
-              </Button>
-            </form>
+            {onApplyChanges && onSaveSheetSync && onLoadTasks ? (
+              <GoogleSheetsSync
+                loadTasks={onLoadTasks}
+                settings={sheetSync}
+                onSaveSettings={onSaveSheetSync}
+                onApplyChanges={async (diff) => (await onApplyChanges(diff)) !== false}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground">Open a project to sync its tasks with a sheet.</p>
+            )}
           </div>
         </div>
       </DialogContent>
@@ -337,10 +587,61 @@ export function ImportData({
         isOpen={showFieldMapping}
         onClose={handleFieldMappingClose}
         csvHeaders={csvHeaders}
+        csv={pendingCsv}
         customFields={customFields}
         importMode={importMode}
+        profiles={importProfiles}
+        onSaveProfile={onSaveImportProfile}
+        onDeleteProfile={onDeleteImportProfile}
         onConfirm={handleFieldMappingConfirm}
       />
+
+      {csvReview && (
+        <CsvImportReviewDialog
+          isOpen
+          rows={csvReview.rows}
+          columns={csvReview.columns}
+          validate={validateReviewRows}
+          confirmLabel={(count) => importMode === 'upsert' ? `Compare ${count} Rows` : `Import ${count} Tasks`}
+          onConfirm={handleReviewConfirm}
+          onClose={() => setCsvReview(null)}
+        />
+      )}
+
+      {importDiff && (
+        <ImportDiffDialog
+          isOpen
+          diff={importDiff}
+          optionalRemovals={importMode === 'upsert'}
+          onConfirm={handleDiffConfirm}
+          onClose={() => setImportDiff(null)}
+        />
+      )}
+
+      {projectPreview && (
+        <ImportPreviewDialog
+          isOpen
+          title={`Import "${projectPreview.projectName || 'project file'}"`}
+          tasks={projectPreview.tasks}
+          customFields={projectPreview.customFields}
+          warnings={projectPreview.warnings}
+          onConfirm={handleProjectImportConfirm}
+          onClose={() => setProjectPreview(null)}
+        >
+          {projectPreview.calendar && (
+            <div className="flex items-center gap-3 text-sm">
+              <Switch id="use-file-calendar" checked={useFileCalendar} onCheckedChange={setUseFileCalendar} />
+              <Label htmlFor="use-file-calendar" className="font-normal">
+                Use the file's calendar{projectPreview.calendarName ? ` "${projectPreview.calendarName}"` : ''} as the project calendar
+                <span className="text-muted-foreground ml-1">
+                  ({projectPreview.calendar.working_days.map(day => WEEKDAY_LABELS[day]).join(', ')};{' '}
+                  {projectPreview.calendar.holidays.length} holidays)
+                </span>
+              </Label>
+            </div>
+          )}
+        </ImportPreviewDialog>
+      )}
     </Dialog>
   );
 }
\ No newline at end of file
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Task } from "@/types/project";
+import { ImportDiff } from "@/utils/importDiff";
+
+// Longer lists are cut short; the counts above them stay exact
+const MAX_LISTED = 100;
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  name: 'Name',
+  task_type: 'Type',
+  status: 'Status',
+  start_date: 'Start',
+  end_date: 'Finish',
+  assignee: 'Assignee',
+  progress: 'Progress',
+  dependencies: 'Dependencies',
+  description: 'Description',
+  parent_id: 'Parent',
+  custom_fields: 'Custom fields'
+};
+
+// Scalar values are shown before and after; lists and objects only by their label
+const formatValue = (field: keyof Task, value: unknown): string | null => {
+  if (typeof value === 'object' && value !== null) return null;
+  if (field === 'start_date' || field === 'end_date') return String(value).slice(0, 10);
+  if (field === 'progress') return `${value}%`;
+  return value === undefined || value === null || value === '' ? '(empty)' : String(value);
+};
+
+interface ImportDiffDialogProps {
+  isOpen: boolean;
+  diff: ImportDiff;
+  optionalRemovals?: boolean; // Removals are offered with a switch instead of always applied
+  onConfirm: (diff: ImportDiff) => void;
+  onClose: () => void;
+}
+
+export function ImportDiffDialog({ isOpen, diff, optionalRemovals = false, onConfirm, onClose }: ImportDiffDialogProps) {
+  const [applyRemovals, setApplyRemovals] = useState(!optionalRemovals);
+
+  useEffect(() => {
+    setApplyRemovals(!optionalRemovals);
+  }, [diff, optionalRemovals]);
+
+  const removed = applyRemovals ? diff.removed : [];
+  const changeCount = diff.created.length + diff.changed.length + removed.length;
+
+  const listed = <T,>(items: T[]) => items.slice(0, MAX_LISTED);
+  const more = (items: unknown[]) => items.length > MAX_LISTED && (
+    <li className="text-muted-foreground">and {items.length - MAX_LISTED} more</li>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Apply Import Changes</DialogTitle>
+          <DialogDescription>
+            {diff.created.length} new, {diff.changed.length} changed, {removed.length} removed
+            {diff.unchanged.length > 0 && `, ${diff.unchanged.length} unchanged`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {optionalRemovals && diff.removed.length > 0 && (
+            <div className="flex items-center gap-3">
+              <Switch id="apply-removals" checked={applyRemovals} onCheckedChange={setApplyRemovals} />
+              <Label htmlFor="apply-removals" className="font-normal">
+                Remove {diff.removed.length} imported {diff.removed.length === 1 ? 'task' : 'tasks'} that
+                {diff.removed.length === 1 ? ' is' : ' are'} no longer in the file
+              </Label>
+            </div>
+          )}
+
+          {diff.created.length > 0 && (
+            <section>
+              <h4 className="font-medium mb-1">
+                New <Badge variant="secondary">{diff.created.length}</Badge>
+              </h4>
+              <ul className="list-disc pl-6 space-y-0.5">
+                {listed(diff.created).map(task => <li key={task.id}>{task.name}</li>)}
+                {more(diff.created)}
+              </ul>
+            </section>
+          )}
+
+          {diff.changed.length > 0 && (
+            <section>
+              <h4 className="font-medium mb-1">
+                Changed <Badge variant="secondary">{diff.changed.length}</Badge>
+              </h4>
+              <ul className="list-disc pl-6 space-y-1">
+                {listed(diff.changed).map(({ task, updates, fields }) => (
+                  <li key={task.id}>
+                    <span className="font-medium">{task.name}</span>
+                    <span className="text-muted-foreground">
+                      {' '}
+                      {fields.map(field => {
+                        const before = formatValue(field, task[field]);
+                        const after = formatValue(field, updates[field]);
+                        const label = FIELD_LABELS[field] || field;
+                        return before === null || after === null ? label : `${label}: ${before} → ${after}`;
+                      }).join('; ')}
+                    </span>
+                  </li>
+                ))}
+                {more(diff.changed)}
+              </ul>
+            </section>
+          )}
+
+          {removed.length > 0 && (
+            <section>
+              <h4 className="font-medium mb-1 text-destructive">
+                Removed <Badge variant="destructive">{removed.length}</Badge>
+              </h4>
+              <ul className="list-disc pl-6 space-y-0.5">
+                {listed(removed).map(task => <li key={task.id}>{task.name}</li>)}
+                {more(removed)}
+              </ul>
+            </section>
+          )}
+
+          {changeCount === 0 && (
+            <p className="text-muted-foreground">The project already matches the file. There is nothing to change.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm({ ...diff, removed })}
+            disabled={changeCount === 0}
+            variant={diff.created.length + diff.changed.length === 0 ? 'destructive' : 'default'}
+          >
+            Apply {changeCount} {changeCount === 1 ? 'Change' : 'Changes'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
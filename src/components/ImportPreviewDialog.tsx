@@ -0,0 +1,125 @@
+import { ReactNode, useMemo } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+import { CustomField, Task } from "@/types/project";
+import { formatDependency, normalizeDependencies } from "@/utils/dependencies";
+import { buildWbs } from "@/utils/wbs";
+
+type PreviewTask = Omit<Task, 'project_id' | 'created_at' | 'updated_at'>;
+
+interface ImportPreviewDialogProps {
+  isOpen: boolean;
+  title: string;
+  tasks: PreviewTask[];
+  customFields?: CustomField[]; // Fields the import will add to the project
+  warnings?: string[];
+  children?: ReactNode; // Extra import options shown above the task list
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export function ImportPreviewDialog({
+  isOpen,
+  title,
+  tasks,
+  customFields = [],
+  warnings = [],
+  children,
+  onConfirm,
+  onClose
+}: ImportPreviewDialogProps) {
+  const nodes = useMemo(() => buildWbs(tasks), [tasks]);
+  const namesById = useMemo(() => new Map(tasks.map(task => [task.id, task.name])), [tasks]);
+
+  const formatDate = (value: string) => format(parseISO(value), 'MMM dd, yyyy');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Review the {tasks.length} tasks below. Nothing is saved until you confirm.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {warnings.length > 0 && (
+            <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm">
+              <div className="flex items-center gap-2 font-medium text-yellow-800 mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                {warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}
+              </div>
+              <ul className="list-disc pl-6 text-yellow-800 space-y-0.5">
+                {warnings.map((warning, index) => <li key={index}>{warning}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {customFields.length > 0 && (
+            <div className="text-sm">
+              <span className="text-muted-foreground mr-2">New custom fields:</span>
+              {customFields.map(field => (
+                <Badge key={field.id} variant="secondary" className="mr-1">
+                  {field.name} ({field.field_type})
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {children}
+
+          <div className="border rounded-md overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-medium">WBS</th>
+                  <th className="px-3 py-2 font-medium">Task</th>
+                  <th className="px-3 py-2 font-medium">Start</th>
+                  <th className="px-3 py-2 font-medium">Finish</th>
+                  <th className="px-3 py-2 font-medium">Predecessors</th>
+                  <th className="px-3 py-2 font-medium">Assignee</th>
+                  <th className="px-3 py-2 font-medium text-right">Progress</th>
+                </tr>
+              </thead>
+              <tbody>
+                {nodes.map(({ task, wbs, level, isSummary }) => (
+                  <tr key={task.id} className="border-t">
+                    <td className="px-3 py-1.5 text-muted-foreground">{wbs}</td>
+                    <td className="px-3 py-1.5" style={{ paddingLeft: `${0.75 + (level - 1) * 1.25}rem` }}>
+                      <span className={isSummary ? 'font-semibold' : ''}>{task.name}</span>
+                      {task.task_type === 'milestone' && (
+                        <Badge variant="outline" className="ml-2 text-xs">Milestone</Badge>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">{formatDate(task.start_date)}</td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">{formatDate(task.end_date)}</td>
+                    <td className="px-3 py-1.5">
+                      {normalizeDependencies(task.dependencies)
+                        .map(link => formatDependency(link, namesById.get(link.task_id)))
+                        .join(', ')}
+                    </td>
+                    <td className="px-3 py-1.5">{task.assignee}</td>
+                    <td className="px-3 py-1.5 text-right">{task.progress}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4 border-t">
+            <Button variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={onConfirm} disabled={tasks.length === 0}>
+              Import {tasks.length} Tasks
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
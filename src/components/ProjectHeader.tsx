@@ -1,13 +1,23 @@
-import { Plus, Download, Settings, Calendar } from "lucide-react";
+import { Plus, Download, Settings, Calendar, FileSpreadsheet, FileCode, FileText, Archive, GanttChart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export type ExportFormat = 'excel' | 'csv' | 'mspdi' | 'xer' | 'ics' | 'gantt' | 'bundle';
 
 interface ProjectHeaderProps {
   projectName: string;
   totalTasks: number;
   completedTasks: number;
   onAddTask: () => void;
-  onExport: () => void;
+  onExport: (format: ExportFormat) => void;
+  onOpenSettings: () => void;
 }
 
 export function ProjectHeader({ 
@@ -15,7 +25,8 @@ export function ProjectHeader({
   totalTasks, 
   completedTasks, 
   onAddTask, 
-  onExport 
+  onExport,
+  onOpenSettings
 }: ProjectHeaderProps) {
   const completionPercentage = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
@@ -49,17 +60,53 @@ export function ProjectHeader({
             <Plus className="w-4 h-4 mr-2" />
             Add Task
           </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button 
+                variant="secondary" 
+                className="bg-white/20 hover:bg-white/30 text-primary-foreground border-0"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => onExport('excel')}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                <span>Excel (.xlsx)</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('csv')}>
+                <FileText className="mr-2 h-4 w-4" />
+                <span>CSV (.csv)</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('mspdi')}>
+                <FileCode className="mr-2 h-4 w-4" />
+                <span>Microsoft Project (XML)</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('xer')}>
+                <FileCode className="mr-2 h-4 w-4" />
+                <span>Primavera P6 (XER)</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('gantt')}>
+                <GanttChart className="mr-2 h-4 w-4" />
+                <span>Gantt chart (PDF, PNG, SVG)</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onExport('ics')}>
+                <Calendar className="mr-2 h-4 w-4" />
+                <span>Calendar (.ics)</span>
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => onExport('bundle')}>
+                <Archive className="mr-2 h-4 w-4" />
+                <span>Project bundle (.json)</span>
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button 
-            onClick={onExport} 
-            variant="secondary" 
-            className="bg-white/20 hover:bg-white/30 text-primary-foreground border-0"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Export
-          </Button>
-          <Button 
+            onClick={onOpenSettings}
             variant="secondary" 
             size="icon"
+            title="Project settings"
             className="bg-white/20 hover:bg-white/30 text-primary-foreground border-0"
           >
             <Settings className="w-4 h-4" />
@@ -1,6 +1,6 @@
 // @ts-nocheck
-import { useMemo } from "react";
-import { Task } from "@/types/project";
+import { useMemo, useState } from "react";
+import { Task, ProjectBaseline, ProjectCalendar } from "@/types/project";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -14,90 +14,41 @@ import {
   Target,
   TrendingUp,
   Download,
-  FileText
+  FileText,
+  GitBranch,
+  Flag
 } from "lucide-react";
-import { format, differenceInDays, isAfter, isBefore } from "date-fns";
+import { format, parseISO } from "date-fns";
+import { computeSchedule } from "@/utils/scheduling";
+import { formatVariance, getTaskVariance } from "@/utils/baselines";
+import { getReportAnalytics } from "@/utils/statusReport";
+import { StatusReportDialog } from "./StatusReportDialog";
 
 interface ProjectReportsProps {
   tasks: Task[];
+  projectName: string;
   onExportReport: () => void;
+  calendar?: ProjectCalendar;
+  baseline?: ProjectBaseline;
 }
 
-export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
-  const analytics = useMemo(() => {
-    const totalTasks = tasks.length;
-    const completedTasks = tasks.filter(t => t.status === 'completed').length;
-    const inProgressTasks = tasks.filter(t => t.status === 'in-progress').length;
-    const notStartedTasks = tasks.filter(t => t.status === 'not-started').length;
-    const onHoldTasks = tasks.filter(t => t.status === 'on-hold').length;
-    
-    const milestones = tasks.filter(t => t.type === 'milestone');
-    const completedMilestones = milestones.filter(t => t.status === 'completed').length;
-    
-    const deliverables = tasks.filter(t => t.type === 'deliverable');
-    const completedDeliverables = deliverables.filter(t => t.status === 'completed').length;
+export function ProjectReports({ tasks, projectName, onExportReport, calendar, baseline }: ProjectReportsProps) {
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  const analytics = useMemo(() => getReportAnalytics(tasks), [tasks]);
 
-    const now = new Date();
-    const overdueTasks = tasks.filter(t => 
-      t.status !== 'completed' && isBefore(t.endDate, now)
-    );
-    
-    const upcomingTasks = tasks.filter(t => 
-      t.status === 'not-started' && 
-      isAfter(t.startDate, now) && 
-      differenceInDays(t.startDate, now) <= 7
-    );
+  const schedule = useMemo(() => computeSchedule(tasks, calendar), [tasks, calendar]);
 
-    // Team performance
-    const teamPerformance = tasks.reduce((acc, task) => {
-      if (!task.assignee) return acc;
-      
-      if (!acc[task.assignee]) {
-        acc[task.assignee] = { total: 0, completed: 0, inProgress: 0 };
-      }
-      
-      acc[task.assignee].total++;
-      if (task.status === 'completed') acc[task.assignee].completed++;
-      if (task.status === 'in-progress') acc[task.assignee].inProgress++;
-      
-      return acc;
-    }, {} as Record<string, { total: number; completed: number; inProgress: number }>);
+  const variances = useMemo(() => {
+    if (!baseline) return [];
+    return tasks
+      .map(task => ({ task, variance: getTaskVariance(task, baseline, calendar) }))
+      .filter(row => row.variance);
+  }, [tasks, baseline, calendar]);
 
-    // Status distribution for charts
-    const statusData = [
-      { name: 'Completed', value: completedTasks, color: 'hsl(var(--success))' },
-      { name: 'In Progress', value: inProgressTasks, color: 'hsl(var(--primary))' },
-      { name: 'Not Started', value: notStartedTasks, color: 'hsl(var(--muted))' },
-      { name: 'On Hold', value: onHoldTasks, color: 'hsl(var(--warning))' }
-    ];
+  const slippedTasks = variances.filter(row => row.variance.finishVariance > 0).length;
 
-    // Type distribution
-    const typeData = [
-      { name: 'Tasks', value: tasks.filter(t => t.type === 'task').length },
-      { name: 'Milestones', value: milestones.length },
-      { name: 'Deliverables', value: deliverables.length }
-    ];
-
-    return {
-      totalTasks,
-      completedTasks,
-      inProgressTasks,
-      notStartedTasks,
-      onHoldTasks,
-      milestones: milestones.length,
-      completedMilestones,
-      deliverables: deliverables.length,
-      completedDeliverables,
-      overdueTasks,
-      upcomingTasks,
-      teamPerformance,
-      statusData,
-      typeData,
-      completionRate: totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0,
-      milestoneCompletionRate: milestones.length > 0 ? Math.round((completedMilestones / milestones.length) * 100) : 0,
-      deliverableCompletionRate: deliverables.length > 0 ? Math.round((completedDeliverables / deliverables.length) * 100) : 0
-    };
-  }, [tasks]);
+  const varianceClass = (days: number) =>
+    days > 0 ? 'text-destructive' : days < 0 ? 'text-success' : 'text-muted-foreground';
 
   return (
     <div className="space-y-6">
@@ -112,7 +63,7 @@ export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
             <FileText className="w-4 h-4 mr-2" />
             Export Report
           </Button>
-          <Button variant="outline">
+          <Button variant="outline" onClick={() => setShowReportDialog(true)}>
             <Download className="w-4 h-4 mr-2" />
             Download PDF
           </Button>
@@ -141,7 +92,7 @@ export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-muted-foreground">Milestones</p>
-              <p className="text-3xl font-bold text-milestone">{analytics.completedMilestones}/{analytics.milestones}</p>
+              <p className="text-3xl font-bold text-milestone">{analytics.completedMilestones}/{analytics.milestones.length}</p>
             </div>
             <div className="w-12 h-12 bg-milestone/10 rounded-full flex items-center justify-center">
               <Target className="w-6 h-6 text-milestone" />
@@ -239,16 +190,121 @@ export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
         </Card>
       </div>
 
+      {/* Critical Path & Slack */}
+      {tasks.length > 0 && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center">
+              <GitBranch className="w-5 h-5 mr-2" />
+              Critical Path & Slack
+            </h3>
+            <span className="text-sm text-muted-foreground">
+              {schedule.criticalPath.length} critical of {tasks.length} tasks · Finish {format(schedule.projectFinish, 'MMM dd, yyyy')}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 pr-4 font-medium">Task</th>
+                  <th className="py-2 pr-4 font-medium">Early Start</th>
+                  <th className="py-2 pr-4 font-medium">Early Finish</th>
+                  <th className="py-2 pr-4 font-medium">Late Start</th>
+                  <th className="py-2 pr-4 font-medium">Late Finish</th>
+                  <th className="py-2 pr-4 font-medium text-right">Total Slack</th>
+                  <th className="py-2 font-medium text-right">Free Slack</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map(task => {
+                  const taskSchedule = schedule.tasks[task.id];
+                  if (!taskSchedule) return null;
+                  return (
+                    <tr key={task.id} className={`border-b last:border-0 ${taskSchedule.isCritical ? 'bg-destructive/5' : ''}`}>
+                      <td className="py-2 pr-4">
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{task.name}</span>
+                          {taskSchedule.isCritical && (
+                            <Badge variant="destructive" className="text-xs">Critical</Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-4">{format(taskSchedule.earlyStart, 'MMM dd')}</td>
+                      <td className="py-2 pr-4">{format(taskSchedule.earlyFinish, 'MMM dd')}</td>
+                      <td className="py-2 pr-4">{format(taskSchedule.lateStart, 'MMM dd')}</td>
+                      <td className="py-2 pr-4">{format(taskSchedule.lateFinish, 'MMM dd')}</td>
+                      <td className="py-2 pr-4 text-right">{taskSchedule.totalFloat}d</td>
+                      <td className="py-2 text-right">{taskSchedule.freeFloat}d</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {/* Baseline Variance */}
+      {baseline && (
+        <Card className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold flex items-center">
+              <Flag className="w-5 h-5 mr-2" />
+              Baseline Variance
+            </h3>
+            <span className="text-sm text-muted-foreground">
+              {baseline.name} · {slippedTasks} of {variances.length} tasks finishing late
+            </span>
+          </div>
+          {variances.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 pr-4 font-medium">Task</th>
+                    <th className="py-2 pr-4 font-medium">Baseline Start</th>
+                    <th className="py-2 pr-4 font-medium">Start</th>
+                    <th className="py-2 pr-4 font-medium text-right">Start Var.</th>
+                    <th className="py-2 pr-4 font-medium">Baseline Finish</th>
+                    <th className="py-2 pr-4 font-medium">Finish</th>
+                    <th className="py-2 font-medium text-right">Finish Var.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {variances.map(({ task, variance }) => (
+                    <tr key={task.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium">{task.name}</td>
+                      <td className="py-2 pr-4">{format(parseISO(variance.baseline.start_date), 'MMM dd')}</td>
+                      <td className="py-2 pr-4">{format(parseISO(task.start_date), 'MMM dd')}</td>
+                      <td className={`py-2 pr-4 text-right ${varianceClass(variance.startVariance)}`}>
+                        {formatVariance(variance.startVariance)}
+                      </td>
+                      <td className="py-2 pr-4">{format(parseISO(variance.baseline.end_date), 'MMM dd')}</td>
+                      <td className="py-2 pr-4">{format(parseISO(task.end_date), 'MMM dd')}</td>
+                      <td className={`py-2 text-right ${varianceClass(variance.finishVariance)}`}>
+                        {formatVariance(variance.finishVariance)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">None of the current tasks are in this baseline.</p>
+          )}
+        </Card>
+      )}
+
       {/* Team Performance */}
-      {Object.keys(analytics.teamPerformance).length > 0 && (
+      {analytics.teamPerformance.length > 0 && (
         <Card className="p-6">
           <h3 className="text-lg font-semibold mb-4 flex items-center">
             <Users className="w-5 h-5 mr-2" />
             Team Performance
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {Object.entries(analytics.teamPerformance).map(([assignee, stats]) => {
-              const completionRate = Math.round((stats.completed / stats.total) * 100);
+            {analytics.teamPerformance.map(stats => {
+              const { assignee, completionRate } = stats;
               return (
                 <div key={assignee} className="p-4 border rounded-lg">
                   <div className="flex items-center justify-between mb-2">
@@ -292,7 +348,7 @@ export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
                     <div>
                       <p className="font-medium">{task.name}</p>
                       <p className="text-sm text-muted-foreground">
-                        Due: {format(task.endDate, 'MMM dd, yyyy')}
+                        Due: {format(parseISO(task.end_date), 'MMM dd, yyyy')}
                       </p>
                     </div>
                     <Badge variant="destructive">{task.status}</Badge>
@@ -314,7 +370,7 @@ export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
                     <div>
                       <p className="font-medium">{task.name}</p>
                       <p className="text-sm text-muted-foreground">
-                        Starts: {format(task.startDate, 'MMM dd, yyyy')}
+                        Starts: {format(parseISO(task.start_date), 'MMM dd, yyyy')}
                       </p>
                     </div>
                     <Badge variant="secondary">{task.status}</Badge>
@@ -325,6 +381,15 @@ export function ProjectReports({ tasks, onExportReport }: ProjectReportsProps) {
           )}
         </div>
       )}
+
+      <StatusReportDialog
+        isOpen={showReportDialog}
+        projectName={projectName}
+        tasks={tasks}
+        calendar={calendar}
+        baseline={baseline}
+        onClose={() => setShowReportDialog(false)}
+      />
     </div>
   );
 }
\ No newline at end of file
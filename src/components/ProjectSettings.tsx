@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarDays, Plus, Trash2, X } from "lucide-react";
+import { ProjectCalendar, ResourceCalendar } from "@/types/project";
+import { DEFAULT_CALENDAR, WEEKDAY_LABELS } from "@/utils/workingCalendar";
+
+interface ProjectSettingsProps {
+  isOpen: boolean;
+  calendar?: ProjectCalendar;
+  assignees: string[];
+  onSave: (calendar: ProjectCalendar) => void;
+  onClose: () => void;
+}
+
+export function ProjectSettings({ isOpen, calendar, assignees, onSave, onClose }: ProjectSettingsProps) {
+  const [draft, setDraft] = useState<ProjectCalendar>(calendar || DEFAULT_CALENDAR);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [leaveAssignee, setLeaveAssignee] = useState('');
+  const [leaveStart, setLeaveStart] = useState('');
+  const [leaveEnd, setLeaveEnd] = useState('');
+
+  // Start from the saved calendar every time the dialog opens
+  useEffect(() => {
+    if (isOpen) setDraft(calendar || DEFAULT_CALENDAR);
+  }, [isOpen, calendar]);
+
+  const resources = draft.resource_calendars || [];
+  const formatDate = (value: string) => format(parseISO(value), 'MMM dd, yyyy');
+
+  const toggleWorkingDay = (day: number) => {
+    const workingDays = draft.working_days.includes(day)
+      ? draft.working_days.filter(d => d !== day)
+      : [...draft.working_days, day].sort((a, b) => a - b);
+    setDraft({ ...draft, working_days: workingDays });
+  };
+
+  const handleAddHoliday = () => {
+    if (!holidayDate || draft.holidays.some(h => h.date === holidayDate)) return;
+    const holidays = [...draft.holidays, { date: holidayDate, name: holidayName.trim() || undefined }]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    setDraft({ ...draft, holidays });
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const handleRemoveHoliday = (date: string) => {
+    setDraft({ ...draft, holidays: draft.holidays.filter(h => h.date !== date) });
+  };
+
+  const updateResources = (resourceCalendars: ResourceCalendar[]) => {
+    // Drop assignees that no longer have any leave
+    setDraft({ ...draft, resource_calendars: resourceCalendars.filter(r => r.leave.length > 0 || r.working_days?.length) });
+  };
+
+  const handleAddLeave = () => {
+    if (!leaveAssignee || !leaveStart || !leaveEnd || leaveEnd < leaveStart) return;
+    const leave = { start_date: leaveStart, end_date: leaveEnd };
+    const existing = resources.find(r => r.assignee === leaveAssignee);
+    updateResources(existing
+      ? resources.map(r => r === existing ? { ...r, leave: [...r.leave, leave] } : r)
+      : [...resources, { assignee: leaveAssignee, leave: [leave] }]);
+    setLeaveStart('');
+    setLeaveEnd('');
+  };
+
+  const handleRemoveLeave = (assignee: string, index: number) => {
+    updateResources(resources.map(r =>
+      r.assignee === assignee ? { ...r, leave: r.leave.filter((_, i) => i !== index) } : r
+    ));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarDays className="w-5 h-5 mr-2" />
+            Project Settings
+          </DialogTitle>
+          <DialogDescription>
+            The working calendar is used for durations, slack and auto-scheduling.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Workweek */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Working Days</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    size="sm"
+                    variant={draft.working_days.includes(day) ? "default" : "outline"}
+                    onClick={() => toggleWorkingDay(day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              {draft.working_days.length === 0 && (
+                <p className="text-sm text-destructive mt-2">Select at least one working day.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Holidays */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Holidays</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  type="date"
+                  value={holidayDate}
+                  onChange={(e) => setHolidayDate(e.target.value)}
+                  className="w-44"
+                />
+                <Input
+                  value={holidayName}
+                  onChange={(e) => setHolidayName(e.target.value)}
+                  placeholder="Holiday name (optional)"
+                />
+                <Button type="button" variant="outline" onClick={handleAddHoliday}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {draft.holidays.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {draft.holidays.map(holiday => (
+                    <Badge key={holiday.date} variant="secondary" className="flex items-center gap-2">
+                      {formatDate(holiday.date)}{holiday.name ? ` · ${holiday.name}` : ''}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveHoliday(holiday.date)}
+                        className="text-muted-foreground hover:text-destructive"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No holidays added.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Resource leave */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Resource Leave</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {assignees.length > 0 ? (
+                <div className="flex gap-2">
+                  <Select value={leaveAssignee} onValueChange={setLeaveAssignee}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Assignee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignees.map(assignee => (
+                        <SelectItem key={assignee} value={assignee}>{assignee}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input type="date" value={leaveStart} onChange={(e) => setLeaveStart(e.target.value)} />
+                  <Input type="date" value={leaveEnd} onChange={(e) => setLeaveEnd(e.target.value)} />
+                  <Button type="button" variant="outline" onClick={handleAddLeave}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Assign tasks to people to record their leave.</p>
+              )}
+              {resources.map(resource => (
+                <div key={resource.assignee} className="space-y-2">
+                  <Label>{resource.assignee}</Label>
+                  {resource.leave.map((leave, index) => (
+                    <div key={index} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                      <span>{formatDate(leave.start_date)} - {formatDate(leave.end_date)}</span>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemoveLeave(resource.assignee, index)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(draft)} disabled={draft.working_days.length === 0}>
+            Save Settings
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,60 @@
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowRight, CalendarClock } from "lucide-react";
+import { TaskShift } from "@/utils/scheduling";
+
+interface ReschedulePreviewDialogProps {
+  isOpen: boolean;
+  taskName: string;
+  shifts: TaskShift[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ReschedulePreviewDialog({ isOpen, taskName, shifts, onConfirm, onCancel }: ReschedulePreviewDialogProps) {
+  const formatDate = (value: string) => format(parseISO(value), 'MMM dd, yyyy');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            Reschedule Dependent Tasks
+          </DialogTitle>
+          <DialogDescription>
+            Changing "{taskName}" moves {shifts.length} dependent {shifts.length === 1 ? 'task' : 'tasks'} forward.
+            Review the new dates before saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {shifts.map(shift => (
+            <div key={shift.taskId} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{shift.taskName}</p>
+                <div className="flex items-center text-sm text-muted-foreground space-x-2">
+                  <span>{formatDate(shift.oldStart)} - {formatDate(shift.oldEnd)}</span>
+                  <ArrowRight className="w-3 h-3" />
+                  <span className="text-foreground">{formatDate(shift.newStart)} - {formatDate(shift.newEnd)}</span>
+                </div>
+              </div>
+              <Badge variant="secondary">+{shift.days}d</Badge>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4 border-t">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm}>
+            Save and Reschedule
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
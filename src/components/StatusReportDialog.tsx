@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2 } from "lucide-react";
+import { ProjectBaseline, ProjectCalendar, Task } from "@/types/project";
+import {
+  REPORT_PAGE_SIZES,
+  REPORT_SECTIONS,
+  ReportPageSize,
+  ReportSection,
+  exportStatusReport
+} from "@/utils/statusReport";
+
+interface StatusReportDialogProps {
+  isOpen: boolean;
+  projectName: string;
+  tasks: Task[];
+  calendar?: ProjectCalendar;
+  baseline?: ProjectBaseline;
+  onClose: () => void;
+}
+
+export function StatusReportDialog({ isOpen, projectName, tasks, calendar, baseline, onClose }: StatusReportDialogProps) {
+  const [sections, setSections] = useState<ReportSection[]>(() => REPORT_SECTIONS.map(section => section.value));
+  const [executiveSummary, setExecutiveSummary] = useState('');
+  const [pageSize, setPageSize] = useState<ReportPageSize>('a4');
+  const [generating, setGenerating] = useState(false);
+  const { toast } = useToast();
+
+  const toggleSection = (section: ReportSection, checked: boolean) => {
+    setSections(prev => checked ? [...prev, section] : prev.filter(value => value !== section));
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setGenerating(true);
+      await exportStatusReport(tasks, { projectName, sections, executiveSummary, pageSize, calendar, baseline });
+      toast({
+        title: "Report Generated",
+        description: "The status report has been downloaded as a PDF.",
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error generating status report:', error);
+      toast({
+        title: "Report Failed",
+        description: error instanceof Error ? error.message : "Failed to generate the status report.",
+        variant: "destructive"
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Download Status Report</DialogTitle>
+          <DialogDescription>
+            Build a PDF report from the project analytics. Choose the sections to include and add a summary for stakeholders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div>
+            <Label>Sections</Label>
+            <div className="space-y-2 mt-2">
+              {REPORT_SECTIONS.map(section => (
+                <label key={section.value} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={sections.includes(section.value)}
+                    onCheckedChange={(checked) => toggleSection(section.value, checked === true)}
+                  />
+                  <span>
+                    {section.label}
+                    <span className="block text-xs text-muted-foreground">{section.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="report-summary">Executive summary</Label>
+            <Textarea
+              id="report-summary"
+              value={executiveSummary}
+              onChange={(e) => setExecutiveSummary(e.target.value)}
+              placeholder="Where the project stands, key risks and decisions needed..."
+              rows={5}
+              className="mt-1"
+              disabled={!sections.includes('summary')}
+            />
+            <p className="text-xs text-muted-foreground mt-1">Left out of the report when empty.</p>
+          </div>
+
+          <div className="w-40">
+            <Label>Page size</Label>
+            <Select value={pageSize} onValueChange={(value) => setPageSize(value as ReportPageSize)}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_PAGE_SIZES.map(size => (
+                  <SelectItem key={size.value} value={size.value}>{size.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleGenerate} disabled={generating || sections.length === 0}>
+            {generating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            Generate PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
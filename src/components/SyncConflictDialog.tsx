@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Task } from "@/types/project";
+import { ConflictChoice, SyncConflict } from "@/utils/sheetSync";
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  name: 'Name',
+  task_type: 'Type',
+  status: 'Status',
+  start_date: 'Start',
+  end_date: 'Finish',
+  assignee: 'Assignee',
+  progress: 'Progress',
+  description: 'Description'
+};
+
+const formatValue = (field: keyof Task, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (field === 'start_date' || field === 'end_date') return String(value).slice(0, 10);
+  if (field === 'progress') return `${value}%`;
+  return String(value);
+};
+
+interface SyncConflictDialogProps {
+  isOpen: boolean;
+  conflicts: SyncConflict[];
+  onConfirm: (choices: Record<string, ConflictChoice>) => void;
+  onClose: () => void;
+}
+
+// Lets the user pick, per task, whether the app's or the sheet's edit is kept
+export function SyncConflictDialog({ isOpen, conflicts, onConfirm, onClose }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [conflicts]);
+
+  const choiceFor = (taskId: string): ConflictChoice => choices[taskId] || 'app';
+
+  const chooseAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(({ task }) => [task.id, choice])));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Resolve Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            {conflicts.length} {conflicts.length === 1 ? 'task was' : 'tasks were'} edited both here and in the sheet
+            since the last sync. Choose which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => chooseAll('app')}>Keep All App Versions</Button>
+          <Button variant="outline" size="sm" onClick={() => chooseAll('sheet')}>Keep All Sheet Versions</Button>
+        </div>
+
+        <div className="space-y-3 text-sm">
+          {conflicts.map(({ task, updates, fields }) => (
+            <div key={task.id} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <span className="font-medium">{task.name}</span>
+                <select
+                  value={choiceFor(task.id)}
+                  onChange={(e) => setChoices(prev => ({ ...prev, [task.id]: e.target.value as ConflictChoice }))}
+                  className="px-2 py-1 border border-input rounded-md"
+                  aria-label={`Version of ${task.name} to keep`}
+                >
+                  <option value="app">Keep app version</option>
+                  <option value="sheet">Keep sheet version</option>
+                </select>
+              </div>
+              <table className="w-full">
+                <thead className="text-left text-muted-foreground">
+                  <tr>
+                    <th className="font-normal w-1/5">Field</th>
+                    <th className="font-normal">App</th>
+                    <th className="font-normal">Sheet</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map(field => (
+                    <tr key={field} className="align-top">
+                      <td className="text-muted-foreground">{FIELD_LABELS[field] || field}</td>
+                      <td className={choiceFor(task.id) === 'app' ? 'font-medium' : 'text-muted-foreground line-through'}>
+                        {formatValue(field, task[field])}
+                      </td>
+                      <td className={choiceFor(task.id) === 'sheet' ? 'font-medium' : 'text-muted-foreground line-through'}>
+                        {formatValue(field, updates[field])}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end space-x-2 pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Cancel Sync
+          </Button>
+          <Button onClick={() => onConfirm(Object.fromEntries(conflicts.map(({ task }) => [task.id, choiceFor(task.id)])))}>
+            Finish Sync
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
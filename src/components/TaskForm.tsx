@@ -6,10 +6,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon, Save, X } from "lucide-react";
+import { CalendarIcon, Plus, Save, Trash2, X } from "lucide-react";
 import { format } from "date-fns";
-import { Task, TaskStatus, TaskType, CustomField } from "@/types/project";
+import { Task, TaskStatus, TaskType, CustomField, DependencyLink, DependencyType } from "@/types/project";
 import { cn } from "@/lib/utils";
+import { DEPENDENCY_TYPES, normalizeDependencies, validateDependencies } from "@/utils/dependencies";
+import { getDescendantIds } from "@/utils/wbs";
 
 interface TaskFormProps {
   onSave: (task: Omit<Task, 'id' | 'created_at' | 'updated_at'>) => void;
@@ -41,11 +43,50 @@ export const TaskForm: React.FC<TaskFormProps> = ({
   const [customFieldValues, setCustomFieldValues] = useState<Record<string, any>>(
     editTask?.custom_fields || {}
   );
+  const [dependencies, setDependencies] = useState<DependencyLink[]>(
+    normalizeDependencies(editTask?.dependencies)
+  );
+  const [parentId, setParentId] = useState(editTask?.parent_id || '');
+
+  // A task cannot be nested under itself or one of its own subtasks
+  const descendantIds = editTask ? getDescendantIds(existingTasks, editTask.id) : new Set<string>();
+  const parentOptions = existingTasks.filter(task => task.id !== editTask?.id && !descendantIds.has(task.id));
+
+  // Summary task dates and progress are rolled up from their subtasks
+  const isSummary = descendantIds.size > 0;
+
+  // A task cannot depend on itself
+  const predecessorOptions = existingTasks.filter(task => task.id !== editTask?.id);
+
+  const addDependency = () => {
+    const usedIds = new Set(dependencies.map(d => d.task_id));
+    const candidate = predecessorOptions.find(task => !usedIds.has(task.id));
+    if (!candidate) return;
+    setDependencies(prev => [...prev, { task_id: candidate.id, type: 'FS', lag: 0 }]);
+  };
+
+  const updateDependency = (index: number, updates: Partial<DependencyLink>) => {
+    setDependencies(prev => prev.map((dep, i) => i === index ? { ...dep, ...updates } : dep));
+  };
+
+  const removeDependency = (index: number) => {
+    setDependencies(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Catch cycles before saving; a new task cannot be referenced yet, so any placeholder ID works
+  const draftId = editTask?.id || 'new-task';
+  const dependencyErrors = validateDependencies(
+    [
+      ...existingTasks.filter(task => task.id !== draftId),
+      { id: draftId, name: name.trim() || 'This task', dependencies }
+    ],
+    [draftId]
+  );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!name.trim() || !startDate || !endDate) {
+    if (!name.trim() || !startDate || !endDate || dependencyErrors.length > 0) {
       return;
     }
 
@@ -59,7 +100,8 @@ export const TaskForm: React.FC<TaskFormProps> = ({
       end_date: endDate.toISOString().split('T')[0],
       assignee: assignee.trim(),
       progress,
-      dependencies: editTask?.dependencies || [],
+      dependencies,
+      parent_id: parentId || null,
       custom_fields: customFieldValues
     };
 
@@ -209,6 +251,21 @@ export const TaskForm: React.FC<TaskFormProps> = ({
             </Select>
           </div>
 
+          <div>
+            <Label htmlFor="parent">Parent Task</Label>
+            <Select value={parentId || 'none'} onValueChange={(value) => setParentId(value === 'none' ? '' : value)}>
+              <SelectTrigger id="parent">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (top level)</SelectItem>
+                {parentOptions.map(task => (
+                  <SelectItem key={task.id} value={task.id}>{task.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           <div>
             <Label htmlFor="status">Status</Label>
             <Select value={status} onValueChange={(value: TaskStatus) => setStatus(value)}>
@@ -234,6 +291,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({
               <PopoverTrigger asChild>
                 <Button
                   variant="outline"
+                  disabled={isSummary}
                   className={cn("justify-start text-left font-normal", !startDate && "text-muted-foreground")}
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
@@ -258,6 +316,7 @@ export const TaskForm: React.FC<TaskFormProps> = ({
               <PopoverTrigger asChild>
                 <Button
                   variant="outline"
+                  disabled={isSummary}
                   className={cn("justify-start text-left font-normal", !endDate && "text-muted-foreground")}
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
@@ -286,7 +345,11 @@ export const TaskForm: React.FC<TaskFormProps> = ({
               value={progress}
               onChange={(e) => setProgress(parseInt(e.target.value) || 0)}
               placeholder="0-100"
+              disabled={isSummary}
             />
+            {isSummary && (
+              <p className="text-xs text-muted-foreground mt-1">Dates and progress are rolled up from subtasks.</p>
+            )}
           </div>
         </div>
 
@@ -301,6 +364,85 @@ export const TaskForm: React.FC<TaskFormProps> = ({
           />
         </div>
 
+        {/* Dependencies */}
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="text-md font-medium">Dependencies</h4>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addDependency}
+              disabled={dependencies.length >= predecessorOptions.length}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Dependency
+            </Button>
+          </div>
+          {dependencies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This task has no predecessors.</p>
+          ) : (
+            <div className="space-y-2">
+              {dependencies.map((dependency, index) => (
+                <div key={index} className="grid grid-cols-[1fr_180px_100px_auto] gap-2 items-center">
+                  <Select
+                    value={dependency.task_id}
+                    onValueChange={(value) => updateDependency(index, { task_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select predecessor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {predecessorOptions
+                        .filter(task => task.id === dependency.task_id || !dependencies.some(d => d.task_id === task.id))
+                        .map(task => (
+                          <SelectItem key={task.id} value={task.id}>
+                            {task.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={dependency.type}
+                    onValueChange={(value: DependencyType) => updateDependency(index, { type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DEPENDENCY_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    value={dependency.lag}
+                    onChange={(e) => updateDependency(index, { lag: parseInt(e.target.value) || 0 })}
+                    placeholder="Lag (days)"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeDependency(index)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Lag is in days. Use a negative lag for a lead.
+              </p>
+              {dependencyErrors.map(error => (
+                <p key={error} className="text-sm text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
         {/* Custom Fields */}
         {customFields.length > 0 && (
           <div>
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { ImportProfile, ProjectBaseline, ProjectCalendar, SheetSyncSettings, TaskDependency } from '@/types/project'
 
 // Get Supabase credentials from environment variables
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
@@ -24,6 +25,13 @@ export type Database = {
           last_modified: string
           created_by: string
           team_members: string[]
+          auto_schedule: boolean
+          calendar: ProjectCalendar | null
+          baselines: ProjectBaseline[]
+          active_baseline_id: string | null
+          import_profiles: ImportProfile[]
+          sheet_sync: SheetSyncSettings | null
+          calendar_feed_token: string | null
         }
         Insert: {
           id?: string
@@ -34,6 +42,13 @@ export type Database = {
           last_modified?: string
           created_by?: string
           team_members?: string[]
+          auto_schedule?: boolean
+          calendar?: ProjectCalendar | null
+          baselines?: ProjectBaseline[]
+          active_baseline_id?: string | null
+          import_profiles?: ImportProfile[]
+          sheet_sync?: SheetSyncSettings | null
+          calendar_feed_token?: string | null
         }
         Update: {
           id?: string
@@ -44,6 +59,13 @@ export type Database = {
           last_modified?: string
           created_by?: string
           team_members?: string[]
+          auto_schedule?: boolean
+          calendar?: ProjectCalendar | null
+          baselines?: ProjectBaseline[]
+          active_baseline_id?: string | null
+          import_profiles?: ImportProfile[]
+          sheet_sync?: SheetSyncSettings | null
+          calendar_feed_token?: string | null
         }
       }
       custom_fields: {
@@ -90,7 +112,9 @@ export type Database = {
           end_date: string
           assignee: string | null
           progress: number
-          dependencies: string[]
+          dependencies: TaskDependency[]
+          parent_id: string | null
+          external_id: string | null
           custom_fields: any
           created_at: string
           updated_at: string
@@ -106,7 +130,9 @@ export type Database = {
           end_date: string
           assignee?: string | null
           progress?: number
-          dependencies?: string[]
+          dependencies?: TaskDependency[]
+          parent_id?: string | null
+          external_id?: string | null
           custom_fields?: any
           created_at?: string
           updated_at?: string
@@ -122,7 +148,9 @@ export type Database = {
           end_date?: string
           assignee?: string | null
           progress?: number
-          dependencies?: string[]
+          dependencies?: TaskDependency[]
+          parent_id?: string | null
+          external_id?: string | null
           custom_fields?: any
           created_at?: string
           updated_at?: string
@@ -1,21 +1,35 @@
 import { useState, useMemo, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { Task, Project } from "@/types/project";
+import { Task, Project, ProjectCalendar, CustomField, ImportProfile, SheetSyncSettings } from "@/types/project";
 import { ProjectService } from "@/services/projectService";
 import { TaskService } from "@/services/taskService";
-import { ProjectHeader } from "@/components/ProjectHeader";
+import { ExportFormat, ProjectHeader } from "@/components/ProjectHeader";
 import { TaskForm } from "@/components/TaskForm";
 import { ImportData } from "@/components/ImportData";
 import { DashboardTabs } from "@/components/DashboardTabs";
 import { CustomFieldsManager } from "@/components/CustomFieldsManager";
 import { ProjectPermissions } from "@/components/ProjectPermissions";
+import { ReschedulePreviewDialog } from "@/components/ReschedulePreviewDialog";
+import { ProjectSettings } from "@/components/ProjectSettings";
+import { CalendarExportDialog } from "@/components/CalendarExportDialog";
+import { GanttExportDialog } from "@/components/GanttExportDialog";
+import { BaselineManager } from "@/components/BaselineManager";
 import { exportToCSV, exportToExcel } from "@/utils/exportUtils";
+import { exportToMSPDI } from "@/utils/mspdiExport";
+import { exportToXER } from "@/utils/xerUtils";
+import { BundleActivity, createProjectBundle, exportProjectBundle } from "@/utils/projectBundle";
 import { generateId } from "@/utils/idGenerator";
+import { computeCascade, TaskShift } from "@/utils/scheduling";
+import { createBaseline, getActiveBaseline } from "@/utils/baselines";
+import { rollupSummaryTasks } from "@/utils/wbs";
+import { ImportDiff } from "@/utils/importDiff";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
 import { UserMenu } from "@/components/auth/UserMenu";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { Plus, ArrowLeft, Loader2 } from "lucide-react";
 
 const ProjectDetail = () => {
@@ -28,6 +42,10 @@ const ProjectDetail = () => {
   const [loading, setLoading] = useState(true);
   const [showTaskForm, setShowTaskForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>();
+  const [pendingReschedule, setPendingReschedule] = useState<{ task: Task; shifts: TaskShift[] } | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
+  const [showGanttExport, setShowGanttExport] = useState(false);
 
   useEffect(() => {
     if (projectId) {
@@ -44,7 +62,8 @@ const ProjectDetail = () => {
         const normalizedProject = {
           ...projectData,
           tasks: projectData.tasks || [],
-          customFields: projectData.customFields || [],
+          // Demo projects keep custom fields under customFields; Supabase returns the custom_fields rows
+          customFields: projectData.customFields || projectData.custom_fields || [],
           teamMembers: projectData.teamMembers || [],
           createdDate: projectData.createdDate ? new Date(projectData.createdDate) : new Date(),
           lastModified: projectData.lastModified ? new Date(projectData.lastModified) : new Date()
@@ -78,6 +97,16 @@ const ProjectDetail = () => {
     return { total, completed, inProgress,impacted, milestones };
   }, [project]);
 
+  const projectAssignees = useMemo(() => {
+    if (!project) return [];
+    return [...new Set(project.tasks.map(task => task.assignee).filter(Boolean))].sort();
+  }, [project]);
+
+  const activeBaseline = useMemo(
+    () => getActiveBaseline(project?.baselines, project?.active_baseline_id),
+    [project]
+  );
+
   // *** MODIFIED LOGIC HERE ***
   // Check if the user is the project owner or has a special role.
   const isOwnerOrAdmin = useMemo(() => {
@@ -117,17 +146,56 @@ const ProjectDetail = () => {
     setShowTaskForm(true);
   };
 
+  // Summary tasks take their dates and progress from their children. Returns the
+  // rolled-up list and the summary tasks whose values changed.
+  const rollupTasks = (tasks: Task[]) => {
+    const rolledUp = rollupSummaryTasks(tasks, project?.calendar);
+    const changed = rolledUp.filter((task, index) =>
+      task.start_date !== tasks[index].start_date ||
+      task.end_date !== tasks[index].end_date ||
+      task.progress !== tasks[index].progress
+    );
+    return { rolledUp, changed };
+  };
+
+  // Rolls up summary tasks and saves every one whose values changed
+  const syncSummaryTasks = async (tasks: Task[]) => {
+    if (!project) return tasks;
+    const { rolledUp, changed } = rollupTasks(tasks);
+    if (changed.length > 0) {
+      await TaskService.updateTasksBatch(project.id, changed, 'summary_tasks_rolled_up', {
+        task_ids: changed.map(task => task.id)
+      });
+    }
+    return rolledUp;
+  };
+
   const handleSaveTask = async (taskData: Omit<Task, 'id'>) => {
     if (!project) return;
     try {
       if (editingTask) {
+        // In auto-schedule mode, preview the cascade before anything is saved
+        if (project.auto_schedule) {
+          // editingTask may be the Gantt chart's adapted copy, so start from the stored row
+          const storedTask = project.tasks.find(task => task.id === editingTask.id) || editingTask;
+          const updatedTask = { ...storedTask, ...taskData };
+          const shifts = computeCascade(project.tasks, updatedTask, project.calendar);
+          if (shifts.length > 0) {
+            setPendingReschedule({ task: updatedTask, shifts });
+            setShowTaskForm(false);
+            setEditingTask(undefined);
+            return;
+          }
+        }
+
         // Update existing task
-        await TaskService.updateTask(editingTask.id, project.id, taskData);
-        const updatedTasks = project.tasks.map(task => 
+        // The saved row carries the updated_at the database stamped
+        const savedTask = await TaskService.updateTask(editingTask.id, project.id, taskData);
+        const updatedTasks = await syncSummaryTasks(project.tasks.map(task => 
           task.id === editingTask.id 
-            ? { ...task, ...taskData }
+            ? { ...task, ...taskData, updated_at: savedTask.updated_at }
             : task
-        );
+        ));
         const updatedProject = { ...project, tasks: updatedTasks, lastModified: new Date() };
         setProject(updatedProject);
         
@@ -144,7 +212,7 @@ const ProjectDetail = () => {
         
         const updatedProject = { 
           ...project, 
-          tasks: [...project.tasks, createdTask], 
+          tasks: await syncSummaryTasks([...project.tasks, createdTask]), 
           lastModified: new Date() 
         };
         setProject(updatedProject);
@@ -160,7 +228,7 @@ const ProjectDetail = () => {
       console.error('Error saving task:', error);
       toast({
         title: "Error",
-        description: "Failed to save task. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to save task. Please try again.",
         variant: "destructive"
       });
     }
@@ -168,7 +236,165 @@ const ProjectDetail = () => {
     setEditingTask(undefined);
   };
 
-  const handleImportTasks = async (importedTasks: Omit<Task, 'id'>[]) => {
+  const handleConfirmReschedule = async () => {
+    if (!project || !pendingReschedule) return;
+    const { task, shifts } = pendingReschedule;
+    setPendingReschedule(null);
+
+    try {
+      const shiftedTasks = shifts.map(shift => ({
+        ...project.tasks.find(t => t.id === shift.taskId)!,
+        start_date: shift.newStart,
+        end_date: shift.newEnd
+      }));
+
+      // The edited task, its whole cascade and the summary tasks above them are
+      // written together, with one activity entry
+      const changedTasks = new Map([task, ...shiftedTasks].map(t => [t.id, t]));
+      const { rolledUp, changed: summaryTasks } = rollupTasks(project.tasks.map(t => changedTasks.get(t.id) || t));
+      summaryTasks.forEach(summary => changedTasks.set(summary.id, summary));
+
+      await TaskService.updateTasksBatch(project.id, [...changedTasks.values()], 'tasks_rescheduled', {
+        trigger_task_id: task.id,
+        trigger_task_name: task.name,
+        shifted: shifts.map(shift => ({
+          task_id: shift.taskId,
+          from: { start_date: shift.oldStart, end_date: shift.oldEnd },
+          to: { start_date: shift.newStart, end_date: shift.newEnd }
+        })),
+        rolled_up: summaryTasks.map(summary => summary.id)
+      });
+
+      const updatedProject = { ...project, tasks: rolledUp, lastModified: new Date() };
+      setProject(updatedProject);
+
+      await ProjectService.updateProject(project.id, updatedProject, false);
+
+      toast({
+        title: "Tasks Rescheduled",
+        description: `"${task.name}" was updated and ${shifts.length} dependent tasks were moved.`,
+      });
+    } catch (error) {
+      console.error('Error rescheduling tasks:', error);
+      toast({
+        title: "Reschedule Failed",
+        description: error instanceof Error ? error.message : "Failed to reschedule dependent tasks. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleToggleAutoSchedule = async (enabled: boolean) => {
+    if (!project) return;
+    try {
+      setProject({ ...project, auto_schedule: enabled });
+      await ProjectService.updateProject(project.id, { auto_schedule: enabled });
+    } catch (error) {
+      console.error('Error updating auto-schedule:', error);
+      setProject({ ...project, auto_schedule: !enabled });
+      toast({
+        title: "Update Failed",
+        description: "Failed to change the scheduling mode. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSaveCalendar = async (calendar: ProjectCalendar) => {
+    if (!project) return;
+    try {
+      setProject({ ...project, calendar });
+      await ProjectService.updateProject(project.id, { calendar });
+      setShowSettings(false);
+      toast({
+        title: "Settings Saved",
+        description: "The working calendar has been updated.",
+      });
+    } catch (error) {
+      console.error('Error updating calendar:', error);
+      setProject(project);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save the working calendar. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Returns false when the change could not be saved and was rolled back
+  const saveBaselines = async (baselines: Project['baselines'], activeBaselineId: string | undefined) => {
+    if (!project) return false;
+    const previous = project;
+    try {
+      setProject({ ...project, baselines, active_baseline_id: activeBaselineId });
+      await ProjectService.updateProject(project.id, { baselines, active_baseline_id: activeBaselineId || null });
+      return true;
+    } catch (error) {
+      console.error('Error updating baselines:', error);
+      setProject(previous);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update baselines. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleCreateBaseline = async (name: string) => {
+    if (!project) return;
+    const baseline = createBaseline(name, project.tasks, project.calendar);
+    if (!await saveBaselines([...(project.baselines || []), baseline], baseline.id)) return;
+    toast({
+      title: "Baseline Saved",
+      description: `"${name}" captured ${baseline.tasks.length} tasks.`,
+    });
+  };
+
+  const handleSelectBaseline = (baselineId: string | undefined) =>
+    saveBaselines(project?.baselines || [], baselineId);
+
+  const handleDeleteBaseline = (baselineId: string) => {
+    if (!project) return;
+    const activeId = project.active_baseline_id === baselineId ? undefined : project.active_baseline_id;
+    return saveBaselines((project.baselines || []).filter(b => b.id !== baselineId), activeId);
+  };
+
+  const saveImportProfiles = async (importProfiles: ImportProfile[], message: string) => {
+    if (!project) return;
+    try {
+      setProject({ ...project, import_profiles: importProfiles });
+      await ProjectService.updateProject(project.id, { import_profiles: importProfiles });
+      toast({ title: "Mapping Profiles Updated", description: message });
+    } catch (error) {
+      console.error('Error updating import profiles:', error);
+      setProject(project);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save the mapping profile. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSaveImportProfile = (profile: ImportProfile) => {
+    const others = (project?.import_profiles || []).filter(existing => existing.id !== profile.id);
+    saveImportProfiles([...others, profile], `Saved "${profile.name}".`);
+  };
+
+  const handleDeleteImportProfile = (profileId: string) => {
+    const profile = project?.import_profiles?.find(existing => existing.id === profileId);
+    saveImportProfiles(
+      (project?.import_profiles || []).filter(existing => existing.id !== profileId),
+      `Deleted "${profile?.name}".`
+    );
+  };
+
+  const handleImportTasks = async (
+    importedTasks: Partial<Task>[],
+    newCustomFields: CustomField[] = [],
+    calendar?: ProjectCalendar
+  ) => {
     if (!project) return;
     try {
       const tasksToImport = importedTasks.map(task => ({ ...task, project_id: project.id }));
@@ -176,7 +402,12 @@ const ProjectDetail = () => {
       
       const updatedProject = { 
         ...project, 
-        tasks: [...project.tasks, ...createdTasks], 
+        tasks: await syncSummaryTasks([...project.tasks, ...createdTasks]), 
+        customFields: [
+          ...(project.customFields || []),
+          ...newCustomFields.map(field => ({ ...field, project_id: project.id }))
+        ],
+        calendar: calendar || project.calendar,
         lastModified: new Date() 
       };
       
@@ -191,7 +422,7 @@ const ProjectDetail = () => {
       console.error('Error importing tasks:', error);
       toast({
         title: "Import Failed",
-        description: "Failed to import tasks. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to import tasks. Please try again.",
         variant: "destructive"
       });
     }
@@ -201,12 +432,16 @@ const ProjectDetail = () => {
     if (!project) return;
     try {
       const taskToDelete = project.tasks.find(task => task.id === taskId);
-      const updatedTasks = project.tasks.filter(task => task.id !== taskId);
-      
+      // Subtasks of a deleted summary task move to the top level, as the database does
+      const remainingTasks = project.tasks
+        .filter(task => task.id !== taskId)
+        .map(task => task.parent_id === taskId ? { ...task, parent_id: null } : task);
+
+      await TaskService.deleteTask(taskId, project.id);
+      const updatedTasks = await syncSummaryTasks(remainingTasks);
+
       const updatedProject = { ...project, tasks: updatedTasks, lastModified: new Date() };
       setProject(updatedProject);
-      
-      await TaskService.deleteTask(taskId, project.id);
       await ProjectService.updateProject(project.id, updatedProject);
       
       if (taskToDelete) {
@@ -226,13 +461,94 @@ const ProjectDetail = () => {
     }
   };
 
-  const handleExport = () => {
+  const handleExport = async (format: ExportFormat = 'excel') => {
     if (!project) return;
-    exportToExcel(project.tasks, project.name);
-    toast({
-      title: "Export Successful",
-      description: "Your project plan has been exported to CSV format.",
-    });
+    if (format === 'ics') {
+      setShowCalendarExport(true);
+      return;
+    }
+    if (format === 'gantt') {
+      setShowGanttExport(true);
+      return;
+    }
+    if (format === 'bundle') {
+      try {
+        const activity = await ProjectService.getProjectActivity(project.id, null);
+        exportProjectBundle(createProjectBundle(project, activity as BundleActivity[]));
+        toast({
+          title: "Export Successful",
+          description: "The whole project has been saved as a bundle that can be imported as a new project.",
+        });
+      } catch (error) {
+        console.error('Error exporting project bundle:', error);
+        toast({
+          title: "Export Failed",
+          description: error instanceof Error ? error.message : "Failed to create the project bundle.",
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+    if (format === 'xer') {
+      exportToXER(project);
+      toast({
+        title: "Export Successful",
+        description: "Your project plan has been exported to Primavera P6 XER.",
+      });
+      return;
+    }
+    if (format === 'csv') {
+      exportToCSV(project.tasks, project.name, project.calendar, activeBaseline);
+      toast({
+        title: "Export Successful",
+        description: "Your tasks have been exported to a CSV file that can be imported again.",
+      });
+      return;
+    }
+    if (format === 'mspdi') {
+      exportToMSPDI(project);
+      toast({
+        title: "Export Successful",
+        description: "Your project plan has been exported to Microsoft Project XML.",
+      });
+      return;
+    }
+    try {
+      await exportToExcel(project.tasks, project.name, project.calendar, activeBaseline, project.customFields);
+      toast({
+        title: "Export Successful",
+        description: "Your project plan has been exported to an Excel workbook.",
+      });
+    } catch (error) {
+      console.error('Error exporting to Excel:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to create the Excel workbook.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleChangeCalendarFeed = async (token: string | null) => {
+    if (!project) return;
+    try {
+      setProject({ ...project, calendar_feed_token: token });
+      await ProjectService.updateProject(project.id, { calendar_feed_token: token });
+      toast({
+        title: token ? "Subscription Link Ready" : "Subscription Link Turned Off",
+        description: token
+          ? "Calendars subscribed to an earlier link no longer update."
+          : "Calendars subscribed to the link no longer update.",
+      });
+    } catch (error) {
+      console.error('Error updating calendar feed:', error);
+      setProject(project);
+      toast({
+        title: "Update Failed",
+        description: "Failed to update the subscription link. Please try again.",
+        variant: "destructive"
+      });
+    }
   };
 
   const handleUpdateCustomFields = async (customFields: Project['customFields']) => {
@@ -256,50 +572,98 @@ const ProjectDetail = () => {
     }
   };
 
-  const handleBulkUpdate = async (updatedTasks: Omit<Task, 'id'>[]) => {
-    if (!project) return;
+  // Applies an upsert or delete import: new tasks are created first so updated
+  // tasks can be moved under them, then updates and removals are saved. Each
+  // step is one batch; when a step fails the ones before it are undone.
+  // Returns false when the changes could not be saved.
+  const handleApplyImportChanges = async ({ created, changed, removed }: ImportDiff) => {
+    if (!project) return false;
+    const undo: (() => Promise<unknown>)[] = [];
+    let createdTasks: Task[];
     try {
-      const updatedTasksWithIds = project.tasks.map(existingTask => {
-        const updatedTask = updatedTasks.find(t => t.name === existingTask.name);
-        return updatedTask ? { ...existingTask, ...updatedTask } : existingTask;
+      createdTasks = await TaskService.importTasks(created.map(task => ({ ...task, project_id: project.id })));
+      undo.unshift(() => TaskService.deleteTasksBatch(
+        project.id, createdTasks.map(task => task.id), 'tasks_import_reverted'
+      ));
+
+      await TaskService.updateTasksBatch(
+        project.id,
+        changed.map(({ task, updates }) => ({ ...updates, id: task.id, project_id: project.id })),
+        'tasks_import_updated',
+        { count: changed.length }
+      );
+      undo.unshift(() => TaskService.updateTasksBatch(
+        project.id, changed.map(({ task }) => task), 'tasks_import_reverted', { count: changed.length }
+      ));
+
+      await TaskService.deleteTasksBatch(project.id, removed.map(task => task.id), 'tasks_import_removed');
+    } catch (error) {
+      console.error('Error applying import:', error);
+      let reverted = true;
+      for (const step of undo) {
+        try {
+          await step();
+        } catch (undoError) {
+          console.error('Error undoing import:', undoError);
+          reverted = false;
+        }
+      }
+      // Part of the import stayed saved, so show what the database now holds
+      if (!reverted) await loadProject(project.id);
+
+      const message = error instanceof Error ? error.message : "Failed to apply the import.";
+      toast({
+        title: "Import Failed",
+        description: reverted
+          ? `${message} No changes were saved.`
+          : `${message} Some changes were saved and could not be undone; the project has been reloaded.`,
+        variant: "destructive"
       });
-      
-      const updatedProject = { ...project, tasks: updatedTasksWithIds, lastModified: new Date() };
+      return false;
+    }
+
+    try {
+      const updates = new Map(changed.map(change => [change.task.id, change.updates]));
+      const removedIds = new Set(removed.map(task => task.id));
+      const updatedTasks = [...project.tasks, ...createdTasks]
+        .filter(task => !removedIds.has(task.id))
+        .map(task => ({
+          ...task,
+          ...updates.get(task.id),
+          parent_id: removedIds.has(task.parent_id) ? null : (updates.get(task.id)?.parent_id ?? task.parent_id)
+        }));
+
+      const updatedProject = { ...project, tasks: await syncSummaryTasks(updatedTasks), lastModified: new Date() };
       setProject(updatedProject);
       await ProjectService.updateProject(project.id, updatedProject);
-      
+
       toast({
-        title: "Bulk Update Successful",
-        description: `Updated ${updatedTasks.length} tasks successfully.`,
+        title: "Import Applied",
+        description: `${createdTasks.length} new, ${changed.length} changed, ${removed.length} removed.`,
       });
+      return true;
     } catch (error) {
-      console.error('Error in bulk update:', error);
+      console.error('Error applying import:', error);
       toast({
-        title: "Bulk Update Failed",
-        description: "Failed to update tasks. Please try again.",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to apply the import. Please try again.",
         variant: "destructive"
       });
+      return false;
     }
   };
 
-  const handleBulkDelete = async (taskNames: string[]) => {
+  // A sync may have just saved tasks, so the settings are merged into the latest project
+  const handleSaveSheetSync = async (sheetSync: SheetSyncSettings) => {
     if (!project) return;
+    setProject(prev => prev && { ...prev, sheet_sync: sheetSync });
     try {
-      const updatedTasks = project.tasks.filter(task => !taskNames.includes(task.name));
-      const updatedProject = { ...project, tasks: updatedTasks, lastModified: new Date() };
-      setProject(updatedProject);
-      await ProjectService.updateProject(project.id, updatedProject);
-      
-      toast({
-        title: "Bulk Delete Successful",
-        description: `Deleted ${taskNames.length} tasks successfully.`,
-        variant: "destructive"
-      });
+      await ProjectService.updateProject(project.id, { sheet_sync: sheetSync });
     } catch (error) {
-      console.error('Error in bulk delete:', error);
+      console.error('Error saving sheet sync settings:', error);
       toast({
-        title: "Bulk Delete Failed",
-        description: "Failed to delete tasks. Please try again.",
+        title: "Update Failed",
+        description: "Failed to save the sync log. Please try again.",
         variant: "destructive"
       });
     }
@@ -342,6 +706,7 @@ const ProjectDetail = () => {
         completedTasks={projectStats.completed}
         onAddTask={handleAddTask}
         onExport={handleExport}
+        onOpenSettings={() => setShowSettings(true)}
       />
 
       <div className="container mx-auto p-6 space-y-6">
@@ -373,19 +738,39 @@ const ProjectDetail = () => {
             <div className="flex gap-2 flex-wrap">
               <ImportData 
                 onImport={handleImportTasks}
-                onBulkUpdate={handleBulkUpdate}
-                onBulkDelete={handleBulkDelete}
+                onApplyChanges={handleApplyImportChanges}
                 existingTasks={project.tasks}
                 customFields={project.customFields}
+                importProfiles={project.import_profiles}
+                onSaveImportProfile={handleSaveImportProfile}
+                onDeleteImportProfile={handleDeleteImportProfile}
+                sheetSync={project.sheet_sync}
+                onSaveSheetSync={handleSaveSheetSync}
+                onLoadTasks={() => TaskService.getProjectTasks(project.id)}
               />
               <CustomFieldsManager 
                 customFields={project.customFields || []} 
                 onUpdate={handleUpdateCustomFields}
               />
+              <BaselineManager
+                baselines={project.baselines || []}
+                activeBaselineId={project.active_baseline_id}
+                onCreate={handleCreateBaseline}
+                onSelect={handleSelectBaseline}
+                onDelete={handleDeleteBaseline}
+              />
               <Button onClick={handleAddTask}>
                 <Plus className="w-4 h-4 mr-2" />
                 Add Task
               </Button>
+              <div className="flex items-center space-x-2 px-2">
+                <Switch
+                  id="auto-schedule"
+                  checked={!!project.auto_schedule}
+                  onCheckedChange={handleToggleAutoSchedule}
+                />
+                <Label htmlFor="auto-schedule">Auto-schedule</Label>
+              </div>
             </div>
           </div>
           
@@ -416,11 +801,48 @@ const ProjectDetail = () => {
           />
         )}
 
+        <ReschedulePreviewDialog
+          isOpen={!!pendingReschedule}
+          taskName={pendingReschedule?.task.name || ''}
+          shifts={pendingReschedule?.shifts || []}
+          onConfirm={handleConfirmReschedule}
+          onCancel={() => setPendingReschedule(null)}
+        />
+
+        <ProjectSettings
+          isOpen={showSettings}
+          calendar={project.calendar}
+          assignees={projectAssignees}
+          onSave={handleSaveCalendar}
+          onClose={() => setShowSettings(false)}
+        />
+
+        <CalendarExportDialog
+          isOpen={showCalendarExport}
+          projectName={project.name}
+          tasks={project.tasks}
+          feedToken={project.calendar_feed_token}
+          onChangeFeedToken={handleChangeCalendarFeed}
+          onClose={() => setShowCalendarExport(false)}
+        />
+
+        <GanttExportDialog
+          isOpen={showGanttExport}
+          projectName={project.name}
+          tasks={project.tasks}
+          calendar={project.calendar}
+          baseline={activeBaseline}
+          onClose={() => setShowGanttExport(false)}
+        />
+
         <DashboardTabs
           tasks={project.tasks}
+          projectName={project.name}
+          calendar={project.calendar}
+          baseline={activeBaseline}
           onEditTask={handleEditTask}
           onDeleteTask={handleDeleteTask}
-          onExportReport={handleExport}
+          onExportReport={() => handleExport('excel')}
           customFields={project.customFields}
         />
       </div>
@@ -1,16 +1,17 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Project } from "@/types/project";
 import { ProjectService } from "@/services/projectService";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Plus, FolderOpen, Calendar, Users, Archive, Loader2 } from "lucide-react";
+import { Plus, FolderOpen, Calendar, Users, Archive, Loader2, Upload } from "lucide-react";
 import { format, isValid, parseISO } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import { ProjectForm } from "@/components/ProjectForm";
 import { useToast } from "@/hooks/use-toast";
 import { UserMenu } from "@/components/auth/UserMenu";
 import { useAuth } from "@/contexts/AuthContext";
+import { parseProjectBundle } from "@/utils/projectBundle";
 
 // Helper function to safely format dates
 const formatDate = (dateString: string | null | undefined): string => {
@@ -30,6 +31,8 @@ const Projects = () => {
   const [showProjectForm, setShowProjectForm] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | undefined>();
   const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'completed' | 'archived'>('all');
+  const [importing, setImporting] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
@@ -137,6 +140,32 @@ const Projects = () => {
     }
   };
 
+  const handleImportBundle = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImporting(true);
+      const bundle = parseProjectBundle(await file.text());
+      const project = await ProjectService.importBundle(bundle);
+      toast({
+        title: "Project Imported",
+        description: `"${project.name}" was imported with ${bundle.tasks.length} tasks.`,
+      });
+      navigate(`/project/${project.id}`);
+    } catch (error) {
+      console.error('Error importing project bundle:', error);
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Failed to import the project bundle.",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleOpenProject = (projectId: string) => {
     navigate(`/project/${projectId}`);
   };
@@ -162,6 +191,17 @@ const Projects = () => {
               </p>
             </div>
             <div className="flex items-center gap-4">
+              <input
+                ref={bundleInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImportBundle}
+              />
+              <Button variant="outline" onClick={() => bundleInputRef.current?.click()} disabled={importing}>
+                {importing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                Import Project
+              </Button>
               <Button onClick={handleCreateProject}>
                 <Plus className="w-4 h-4 mr-2" />
                 New Project
@@ -1,5 +1,9 @@
 import { supabase } from '@/lib/supabase'
 import { PostgrestError } from '@supabase/supabase-js'
+import { TaskService } from '@/services/taskService'
+import type { ImportProfile, ProjectBaseline, ProjectCalendar, SheetSyncSettings } from '@/types/project'
+import { bundleTeamMembers, remapProjectBundle } from '@/utils/projectBundle'
+import type { ProjectBundle } from '@/utils/projectBundle'
 
 // --- Type Definitions ---
 
@@ -18,6 +22,13 @@ type ProjectBase = {
   last_modified: string
   created_by: string
   team_members: string[]
+  auto_schedule?: boolean
+  calendar?: ProjectCalendar
+  baselines?: ProjectBaseline[]
+  active_baseline_id?: string | null
+  import_profiles?: ImportProfile[]
+  sheet_sync?: SheetSyncSettings | null
+  calendar_feed_token?: string | null
 }
 
 // Type for project lists, where related tables are aggregated (e.g., as a count).
@@ -139,6 +150,7 @@ export class ProjectService {
       .from('projects')
       .select('*, tasks(*), custom_fields(*)')
       .eq('id', id)
+      .order('created_at', { referencedTable: 'tasks' }) // Keeps WBS sibling order stable
       .single();
 
     if (error) {
@@ -185,7 +197,8 @@ export class ProjectService {
     return data as ProjectDetail;
   }
 
-  static async updateProject(id: string, updates: ProjectUpdate): Promise<ProjectDetail> {
+  // logChange is false when the caller has already logged the change, e.g. a reschedule batch
+  static async updateProject(id: string, updates: ProjectUpdate, logChange = true): Promise<ProjectDetail> {
     const last_modified = new Date().toISOString();
     const finalUpdates = { ...updates, last_modified };
 
@@ -196,7 +209,7 @@ export class ProjectService {
       demoProjects[projectIndex] = { ...demoProjects[projectIndex], ...finalUpdates };
       saveToLocalStorage(DEMO_PROJECTS_KEY, demoProjects);
       
-      this.logActivity(id, 'demo_user', 'project_updated', finalUpdates); // Log all changes
+      if (logChange) this.logActivity(id, 'demo_user', 'project_updated', finalUpdates); // Log all changes
       return demoProjects[projectIndex];
     }
 
@@ -212,7 +225,7 @@ export class ProjectService {
 
     if (error) throw error;
     
-    await this.logActivity(id, user.id, 'project_updated', finalUpdates);
+    if (logChange) await this.logActivity(id, user.id, 'project_updated', finalUpdates);
     return data as ProjectDetail;
   }
 
@@ -263,22 +276,129 @@ export class ProjectService {
     }]);
   }
 
-  static async getProjectActivity(projectId: string): Promise<ActivityLog[]> {
+  // Newest first. Pass `limit: null` for the whole history.
+  static async getProjectActivity(projectId: string, limit: number | null = 50): Promise<ActivityLog[]> {
     if (!supabase) {
-      return demoActivityLog.filter(log => log.project_id === projectId);
+      const entries = demoActivityLog.filter(log => log.project_id === projectId);
+      return limit === null ? entries : entries.slice(0, limit);
     }
 
-    const { data, error } = await supabase
+    let query = supabase
       .from('activity_log')
       .select('*')
       .eq('project_id', projectId)
-      .order('created_at', { ascending: false })
-      .limit(50);
+      .order('created_at', { ascending: false });
+    if (limit !== null) query = query.limit(limit);
 
+    const { data, error } = await query;
     if (error) throw error;
     return data || [];
   }
 
+  /**
+   * Creates a new project from a parsed bundle (see utils/projectBundle.ts).
+   * Everything gets new IDs, so a bundle can be imported next to the project
+   * it was exported from. Activity entries keep their dates; with Supabase
+   * they are recorded under the importing user, as the database requires.
+   */
+  static async importBundle(bundle: ProjectBundle): Promise<ProjectDetail> {
+    const { project, tasks, custom_fields, baselines, activity_log } = remapProjectBundle(bundle);
+    const projectData = {
+      name: project.name,
+      description: project.description,
+      status: project.status,
+      team_members: bundleTeamMembers(bundle),
+      auto_schedule: project.auto_schedule,
+      calendar: project.calendar,
+      baselines,
+      active_baseline_id: project.active_baseline_id,
+      import_profiles: project.import_profiles
+    };
+
+    if (!supabase) {
+      const now = new Date().toISOString();
+      // Demo projects keep their custom fields under `customFields`, as ProjectDetail saves them
+      const newProject: ProjectDetail & { customFields: ProjectBundle['custom_fields'] } = {
+        ...projectData,
+        id: project.id,
+        created_at: now,
+        last_modified: now,
+        created_by: 'demo_user',
+        tasks: tasks.map(task => ({ ...task, created_at: task.created_at || now, updated_at: task.updated_at || now })),
+        custom_fields: [],
+        customFields: custom_fields
+      };
+      demoProjects.push(newProject);
+      saveToLocalStorage(DEMO_PROJECTS_KEY, demoProjects);
+
+      demoActivityLog.unshift(...activity_log.map(entry => ({ ...entry, project_id: project.id })));
+      saveToLocalStorage(DEMO_ACTIVITY_LOG_KEY, demoActivityLog);
+      this.logActivity(project.id, 'demo_user', 'project_imported', { project_name: project.name, source_project_id: bundle.project.id });
+      return newProject;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { error: projectError } = await supabase
+      .from('projects')
+      .insert([{ ...projectData, id: project.id, created_by: user.id }]);
+    if (projectError) throw projectError;
+
+    try {
+      if (custom_fields.length > 0) {
+        const { error } = await supabase.from('custom_fields').insert(custom_fields.map(field => ({
+          id: field.id,
+          project_id: project.id,
+          name: field.name,
+          field_type: field.field_type,
+          required: field.required || false,
+          options: field.options ?? null,
+          default_value: field.default_value ?? null
+        })));
+        if (error) throw error;
+      }
+
+      await TaskService.importTasks(tasks.map(task => ({
+        id: task.id,
+        project_id: project.id,
+        name: task.name,
+        description: task.description || null,
+        task_type: task.task_type,
+        status: task.status,
+        start_date: task.start_date,
+        end_date: task.end_date,
+        assignee: task.assignee,
+        progress: task.progress,
+        dependencies: task.dependencies,
+        parent_id: task.parent_id,
+        external_id: task.external_id,
+        custom_fields: task.custom_fields
+      })));
+
+      if (activity_log.length > 0) {
+        const { error } = await supabase.from('activity_log').insert(activity_log.map(entry => ({
+          project_id: project.id,
+          task_id: entry.task_id,
+          user_id: user.id,
+          action: entry.action,
+          changes: entry.changes,
+          created_at: entry.created_at
+        })));
+        if (error) throw error;
+      }
+    } catch (error) {
+      // Don't leave a half-imported project behind; its rows are removed with it
+      await supabase.from('projects').delete().eq('id', project.id);
+      throw error;
+    }
+
+    await this.logActivity(project.id, user.id, 'project_imported', { project_name: project.name, source_project_id: bundle.project.id });
+    const imported = await this.getProject(project.id);
+    if (!imported) throw new Error('The imported project could not be loaded');
+    return imported;
+  }
+
   static subscribeToProject(projectId: string, callback: (payload: any) => void) {
     if (!supabase) {
       console.warn("Demo Mode: Real-time updates are not supported. This is a mock subscription.");
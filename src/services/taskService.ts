@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase'
 import { generateId } from '@/utils/idGenerator'
+import { assertValidDependencies, getDependencyIds, normalizeDependencies, sortByDependencies } from '@/utils/dependencies'
+import type { DependencyLink, TaskDependency } from '@/types/project'
 
 // Define types manually until the auto-generated types are updated
 type Task = {
@@ -13,7 +15,9 @@ type Task = {
   end_date: string
   assignee?: string
   progress: number
-  dependencies: string[]
+  dependencies: TaskDependency[]
+  parent_id?: string | null
+  external_id?: string | null
   custom_fields: Record<string, any>
   created_at: string
   updated_at: string
@@ -66,8 +70,13 @@ export class TaskService {
     return data
   }
 
-  // Create a new task
-  static async createTask(task: Partial<TaskInsert>): Promise<Task> {
+  // Create a new task. An explicit ID lets imports link tasks to each other before they exist.
+  static async createTask(task: Partial<TaskInsert> & { id?: string }): Promise<Task> {
+    const taskId = task.id || generateId();
+    await this.validateDependencyChanges(task.project_id!, [
+      { id: taskId, name: task.name || 'Untitled Task', dependencies: task.dependencies || [] }
+    ]);
+
     if (!supabase) {
       // Handle demo mode
       const demoProjects = loadDemoProjects();
@@ -76,7 +85,7 @@ export class TaskService {
       if (projectIndex !== -1) {
         const now = new Date().toISOString();
         const newTask: Task = {
-          id: generateId(true),
+          id: taskId,
           project_id: task.project_id!,
           name: task.name || 'Untitled Task',
           description: task.description || null, // FIXED: Use null for consistency
@@ -85,6 +94,8 @@ export class TaskService {
           start_date: task.start_date ? new Date(task.start_date).toISOString() : now,
           end_date: task.end_date ? new Date(task.end_date).toISOString() : now,
           dependencies: task.dependencies || [],
+          parent_id: task.parent_id || null,
+          external_id: task.external_id || null,
           assignee: task.assignee || undefined,
           progress: task.progress || 0,
           custom_fields: task.custom_fields || {},
@@ -105,7 +116,8 @@ export class TaskService {
     }
 
     // For Supabase mode
-    const taskData: TaskInsert = {
+    const taskData: TaskInsert & { id: string } = {
+      id: taskId,
       project_id: task.project_id!,
       name: task.name!,
       description: task.description || null,
@@ -116,6 +128,8 @@ export class TaskService {
       assignee: task.assignee || undefined,
       progress: task.progress || 0,
       dependencies: task.dependencies || [],
+      parent_id: task.parent_id || null,
+      external_id: task.external_id || null,
       custom_fields: task.custom_fields || {}
     };
 
@@ -137,6 +151,10 @@ export class TaskService {
   // Update a task
   // FIXED: Added projectId for efficient searching in demo mode
   static async updateTask(id: string, projectId: string, updates: TaskUpdate): Promise<Task> {
+    if (updates.dependencies) {
+      await this.validateDependencyChanges(projectId, [{ id, name: updates.name, dependencies: updates.dependencies }]);
+    }
+
     if (!supabase) {
       // Handle demo mode
       const demoProjects = loadDemoProjects();
@@ -171,6 +189,87 @@ export class TaskService {
     return data;
   }
 
+  // Save several tasks in one batch with a single activity_log entry.
+  // Used by auto-scheduling, where one edit cascades to every successor.
+  static async updateTasksBatch(
+    projectId: string,
+    tasks: (TaskUpdate & { id: string; project_id: string })[],
+    action: string,
+    changes?: Record<string, unknown>
+  ): Promise<Task[]> {
+    if (tasks.length === 0) return [];
+    const now = new Date().toISOString();
+
+    const relinked = tasks.filter(task => task.dependencies);
+    if (relinked.length > 0) {
+      await this.validateDependencyChanges(
+        projectId,
+        relinked.map(task => ({ id: task.id, name: task.name, dependencies: task.dependencies! }))
+      );
+    }
+
+    if (!supabase) {
+      const demoProjects = loadDemoProjects();
+      const projectIndex = demoProjects.findIndex(p => p.id === projectId);
+      if (projectIndex === -1 || !demoProjects[projectIndex].tasks) throw new Error('Project not found');
+
+      const updatedTasks: Task[] = [];
+      demoProjects[projectIndex].tasks = demoProjects[projectIndex].tasks.map((t: Task) => {
+        const update = tasks.find(u => u.id === t.id);
+        if (!update) return t;
+        const updatedTask = { ...t, ...update, updated_at: now };
+        updatedTasks.push(updatedTask);
+        return updatedTask;
+      });
+      saveDemoProjects(demoProjects);
+      return updatedTasks;
+    }
+
+    // Postgres checks NOT NULL columns before it resolves the upsert conflict,
+    // so partial updates are merged onto the stored rows first
+    const { data: stored, error: loadError } = await supabase
+      .from('tasks')
+      .select('*')
+      .in('id', tasks.map(task => task.id))
+
+    if (loadError) throw loadError;
+    const rows = tasks.map(task => {
+      const current = stored.find(row => row.id === task.id);
+      if (!current) throw new Error(`Task "${task.name || task.id}" no longer exists`);
+      return { ...current, ...task };
+    });
+
+    const { data, error } = await supabase
+      .from('tasks')
+      .upsert(rows)
+      .select()
+
+    if (error) throw error;
+    await this.logActivity(projectId, action, changes);
+    return data;
+  }
+
+  // Delete several tasks in one statement with a single activity_log entry
+  static async deleteTasksBatch(projectId: string, ids: string[], action: string): Promise<void> {
+    if (ids.length === 0) return;
+
+    if (!supabase) {
+      const demoProjects = loadDemoProjects();
+      const projectIndex = demoProjects.findIndex(p => p.id === projectId);
+      if (projectIndex === -1 || !demoProjects[projectIndex].tasks) throw new Error('Project not found');
+
+      demoProjects[projectIndex].tasks = demoProjects[projectIndex].tasks
+        .filter((t: Task) => !ids.includes(t.id))
+        .map((t: Task) => t.parent_id && ids.includes(t.parent_id) ? { ...t, parent_id: null } : t);
+      saveDemoProjects(demoProjects);
+      return;
+    }
+
+    const { error } = await supabase.from('tasks').delete().in('id', ids);
+    if (error) throw error;
+    await this.logActivity(projectId, action, { task_ids: ids });
+  }
+
   // Delete a task
   static async deleteTask(id: string, projectId: string): Promise<void> {
     if (!supabase) {
@@ -231,13 +330,23 @@ export class TaskService {
     return this.updateTask(id, projectId, updates);
   }
 
-  // Bulk import tasks
-  static async importTasks(tasks: Partial<TaskInsert>[]): Promise<Task[]> {
+  // Bulk import tasks. Imported tasks may reference each other by ID.
+  // The whole batch is validated up front, so a bad dependency rejects the import.
+  static async importTasks(tasks: (Partial<TaskInsert> & { id?: string })[]): Promise<Task[]> {
+    const tasksWithIds = tasks.map(task => ({ ...task, id: task.id || generateId() }));
+    if (tasksWithIds.length > 0) {
+      await this.validateDependencyChanges(
+        tasksWithIds[0].project_id!,
+        tasksWithIds.map(task => ({ id: task.id, name: task.name || 'Untitled Task', dependencies: task.dependencies || [] }))
+      );
+    }
+
     if (!supabase) {
       // NOTE: This demo mode implementation is resilient, not atomic.
       // If one task fails, others will still be imported.
+      // Predecessors are created first so each task's links resolve when it is saved.
       const results: Task[] = [];
-      for (const task of tasks) {
+      for (const task of sortByDependencies(tasksWithIds)) {
         try {
           // This requires project_id to be present on each task object
           if (task.project_id) {
@@ -254,7 +363,8 @@ export class TaskService {
     }
 
     // Supabase mode is atomic: all tasks are inserted or none are.
-    const preparedTasks: TaskInsert[] = tasks.map(task => ({
+    const preparedTasks: (TaskInsert & { id: string })[] = tasksWithIds.map(task => ({
+      id: task.id,
       project_id: task.project_id!,
       name: task.name || 'Untitled Task',
       description: task.description || null,
@@ -265,6 +375,8 @@ export class TaskService {
       assignee: task.assignee || undefined,
       progress: task.progress || 0,
       dependencies: task.dependencies || [],
+      parent_id: task.parent_id || null,
+      external_id: task.external_id || null,
       custom_fields: task.custom_fields || {}
     }));
 
@@ -297,11 +409,12 @@ export class TaskService {
         }
       }
       
-      if (!task || !project || !task.dependencies || task.dependencies.length === 0) {
+      const dependencyIds = getDependencyIds(task?.dependencies);
+      if (!task || !project || dependencyIds.length === 0) {
         return [];
       }
       
-      return project.tasks.filter((t: any) => task!.dependencies.includes(t.id)) || [];
+      return project.tasks.filter((t: any) => dependencyIds.includes(t.id)) || [];
     }
 
     const { data: task, error } = await supabase
@@ -311,24 +424,59 @@ export class TaskService {
       .single()
 
     if (error) throw error
-    if (!task.dependencies || !Array.isArray(task.dependencies) || task.dependencies.length === 0) {
+    const dependencyIds = getDependencyIds(task.dependencies)
+    if (dependencyIds.length === 0) {
       return []
     }
 
     const { data: dependencies, error: depsError } = await supabase
       .from('tasks')
       .select('*')
-      .in('id', task.dependencies as string[])
+      .in('id', dependencyIds)
 
     if (depsError) throw depsError
     return dependencies
   }
 
-  // Check if task can be started (all dependencies completed)
+  // Check if task can be started. Only FS and SS links gate the start of a task:
+  // FS needs the predecessor finished, SS needs it started, each plus the link's lag.
+  // FF and SF links constrain the finish and never block a start.
   static async canStartTask(taskId: string): Promise<boolean> {
-    const dependencies = await this.getTaskDependencies(taskId)
-    if (dependencies.length === 0) return true;
-    return dependencies.every(dep => dep.status === 'completed' || dep.status === 'done');
+    const predecessors = await this.getTaskDependencies(taskId)
+    if (predecessors.length === 0) return true;
+
+    let links: DependencyLink[] = [];
+    if (!supabase) {
+      const project = loadDemoProjects().find(p => p.tasks?.some((t: Task) => t.id === taskId));
+      links = normalizeDependencies(project?.tasks.find((t: Task) => t.id === taskId)?.dependencies);
+    } else {
+      const { data, error } = await supabase.from('tasks').select('dependencies').eq('id', taskId).single();
+      if (error) throw error;
+      links = normalizeDependencies(data.dependencies);
+    }
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    return links.every(link => {
+      const predecessor = predecessors.find(t => t.id === link.task_id);
+      if (!predecessor) return true; // Dangling links do not block
+
+      const isFinished = predecessor.status === 'completed' || predecessor.status === 'done';
+      const isStarted = isFinished || predecessor.status !== 'not-started' || predecessor.progress > 0;
+      const lagSatisfied = (anchor: string) => {
+        const earliest = new Date(anchor);
+        earliest.setHours(0, 0, 0, 0);
+        earliest.setDate(earliest.getDate() + link.lag);
+        return earliest <= today;
+      };
+
+      switch (link.type) {
+        case 'FS': return isFinished && (link.lag <= 0 || lagSatisfied(predecessor.end_date));
+        case 'SS': return isStarted && (link.lag <= 0 || lagSatisfied(predecessor.start_date));
+        default: return true;
+      }
+    });
   }
 
   // Subscribe to task changes for a project
@@ -345,6 +493,37 @@ export class TaskService {
       .subscribe()
   }
 
+  // Checks changed tasks' links against the rest of the project's dependency graph.
+  // Throws an error naming the offending tasks, e.g. a cycle "A" → "B" → "A".
+  private static async validateDependencyChanges(
+    projectId: string,
+    changed: { id: string; name?: string; dependencies: TaskDependency[] }[]
+  ): Promise<void> {
+    let existing: Pick<Task, 'id' | 'name' | 'dependencies'>[] = [];
+    if (!supabase) {
+      const project = loadDemoProjects().find(p => p.id === projectId);
+      existing = project?.tasks || [];
+    } else {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, name, dependencies')
+        .eq('project_id', projectId)
+
+      if (error) throw error
+      existing = data || []
+    }
+
+    const changedIds = changed.map(task => task.id);
+    const graph = [
+      ...existing.filter(task => !changedIds.includes(task.id)),
+      ...changed.map(task => ({
+        ...task,
+        name: task.name || existing.find(t => t.id === task.id)?.name || 'Untitled Task'
+      }))
+    ];
+    assertValidDependencies(graph, changedIds);
+  }
+
   // Log activity for audit trail
   private static async logActivity(projectId: string, action: string, changes?: any, taskId?: string) {
     if (!supabase) return; // Skip logging when Supabase is not configured
@@ -1,12 +1,23 @@
 export type TaskType = 'task' | 'milestone' | 'deliverable';
 export type TaskStatus = 'not-started' | 'in-progress' | 'completed' | 'on-hold'|'impacted'|'on-going'|'dev-in-progress'|'done';
 export type FieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF'; // finish-to-start, start-to-start, finish-to-finish, start-to-finish
+
+export interface DependencyLink {
+  task_id: string; // Predecessor task
+  type: DependencyType;
+  lag: number; // Signed, in days. Negative values are leads.
+}
+
+// Plain task IDs are legacy links and are treated as finish-to-start with zero lag
+export type TaskDependency = string | DependencyLink;
 
 export interface CustomField {
   id: string;
   project_id: string;
   name: string;
   field_type: FieldType;
+  type?: FieldType; // Where fields created before field_type existed store their type
   required: boolean;
   options?: any; // For select type (stored as JSONB)
   default_value?: any;
@@ -22,7 +33,9 @@ export interface Task {
   status: TaskStatus;
   start_date: string;
   end_date: string;
-  dependencies: string[];
+  dependencies: TaskDependency[];
+  parent_id?: string | null; // Summary task this task belongs to in the WBS
+  external_id?: string | null; // Stable key from the system the task was imported from, e.g. a WBS code or issue key
   assignee?: string;
   progress: number; // 0-100
   custom_fields?: Record<string, any>; // Custom field values
@@ -30,6 +43,88 @@ export interface Task {
   updated_at: string;
 }
 
+export interface CalendarHoliday {
+  date: string; // YYYY-MM-DD
+  name?: string;
+}
+
+export interface CalendarLeave {
+  start_date: string; // YYYY-MM-DD, inclusive
+  end_date: string;   // YYYY-MM-DD, inclusive
+  name?: string;
+}
+
+// Overrides the project calendar for one assignee
+export interface ResourceCalendar {
+  assignee: string;
+  working_days?: number[]; // Falls back to the project's workweek when omitted
+  leave: CalendarLeave[];
+}
+
+export interface ProjectCalendar {
+  working_days: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: CalendarHoliday[];
+  resource_calendars?: ResourceCalendar[];
+}
+
+// A task's planned values at the time a baseline was saved
+export interface BaselineTask {
+  task_id: string;
+  start_date: string;
+  end_date: string;
+  duration: number; // Working days
+  progress: number;
+}
+
+export interface ProjectBaseline {
+  id: string;
+  name: string;
+  created_at: string;
+  tasks: BaselineTask[];
+}
+
+// Source values of an imported column, lower-cased, and the app value each one becomes.
+// `fallback` is used for values not in the table; without it they are reported as unknown.
+export interface ImportValueTranslation {
+  values: Record<string, string>;
+  fallback?: string;
+}
+
+// How imported dates are written: 2025-04-03, 03/04/2025, 04/03/2025, or a spreadsheet serial number
+export type ImportDateFormat = 'iso' | 'dmy' | 'mdy' | 'excel';
+
+export interface ImportTranslations {
+  status?: ImportValueTranslation;
+  type?: ImportValueTranslation;
+}
+
+// A saved CSV column mapping, picked again when a file with the same headers is imported
+export interface ImportProfile {
+  id: string;
+  name: string;
+  headers: string[]; // CSV headers of the file the profile was saved from
+  mappings: { csvColumn: string; appField: string }[];
+  translations?: ImportTranslations;
+  date_format?: ImportDateFormat;
+  created_at: string;
+}
+
+export interface SheetSyncLogEntry {
+  at: string;
+  pulled: number;    // Tasks created or changed from the sheet
+  pushed: number;    // Rows written to the sheet
+  conflicts: number; // Tasks edited on both sides, settled by the user
+  messages: string[]; // Rows that could not be read
+  error?: string;    // Set when the sync stopped part way
+}
+
+// Two-way sync with a spreadsheet (see utils/sheetSync.ts)
+export interface SheetSyncSettings {
+  url: string;
+  last_synced_at?: string; // When the last successful sync read the sheet
+  log: SheetSyncLogEntry[]; // Newest first
+}
+
 export interface Project {
   id: string;
   name: string;
@@ -41,4 +136,11 @@ export interface Project {
   customFields?: CustomField[];
   team_members: string[]; // Updated to match database
   created_by: string;     // Updated to match database
+  auto_schedule?: boolean; // Move successors forward when a task's dates change
+  calendar?: ProjectCalendar;
+  baselines?: ProjectBaseline[];
+  active_baseline_id?: string; // Baseline shown in the Gantt chart, reports and exports
+  import_profiles?: ImportProfile[];
+  sheet_sync?: SheetSyncSettings;
+  calendar_feed_token?: string | null; // Secret in the calendar feed URL; unset while the feed is off
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { BaselineTask, ProjectBaseline, ProjectCalendar, Task } from "@/types/project";
+import { generateId } from "@/utils/idGenerator";
+import { countWorkingDays, getWorkingDuration, resolveCalendar, toDate } from "@/utils/workingCalendar";
+
+export interface TaskVariance {
+  taskId: string;
+  baseline: BaselineTask;
+  startVariance: number;  // Working days, positive when the task starts later than planned
+  finishVariance: number; // Working days, positive when the task finishes later than planned
+  durationVariance: number;
+}
+
+// Snapshots the current plan. Durations use each assignee's calendar, like the Gantt chart.
+export function createBaseline(name: string, tasks: Task[], calendar?: ProjectCalendar): ProjectBaseline {
+  return {
+    id: generateId(),
+    name,
+    created_at: new Date().toISOString(),
+    tasks: tasks.map(task => ({
+      task_id: task.id,
+      start_date: task.start_date,
+      end_date: task.end_date,
+      duration: getWorkingDuration(toDate(task.start_date), toDate(task.end_date), resolveCalendar(calendar, task.assignee)),
+      progress: task.progress
+    }))
+  };
+}
+
+export function getActiveBaseline(baselines: ProjectBaseline[] | undefined, activeId?: string): ProjectBaseline | undefined {
+  return activeId ? baselines?.find(baseline => baseline.id === activeId) : undefined;
+}
+
+/**
+ * Compares a task with its baseline entry. Variances are counted in working days
+ * on the project calendar. Tasks added after the baseline was saved have none.
+ */
+export function getTaskVariance(task: Task, baseline: ProjectBaseline, calendar?: ProjectCalendar): TaskVariance | undefined {
+  const planned = baseline.tasks.find(entry => entry.task_id === task.id);
+  if (!planned) return undefined;
+
+  const projectCalendar = resolveCalendar(calendar);
+  const duration = getWorkingDuration(toDate(task.start_date), toDate(task.end_date), resolveCalendar(calendar, task.assignee));
+
+  return {
+    taskId: task.id,
+    baseline: planned,
+    startVariance: countWorkingDays(toDate(planned.start_date), toDate(task.start_date), projectCalendar),
+    finishVariance: countWorkingDays(toDate(planned.end_date), toDate(task.end_date), projectCalendar),
+    durationVariance: duration - planned.duration
+  };
+}
+
+// Formats a variance as "+3d", "-1d" or "0d"
+export function formatVariance(days: number): string {
+  return `${days > 0 ? '+' : ''}${days}d`;
+}
@@ -0,0 +1,36 @@
+import { detectEncoding, parseCSV, ParsedCsv } from "@/utils/csvParser";
+import type { CsvWorkerMessage } from "@/workers/csvWorker";
+
+async function parseOnMainThread(file: File): Promise<ParsedCsv> {
+  const buffer = await file.arrayBuffer();
+  const text = new TextDecoder(detectEncoding(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 65536)))).decode(buffer);
+  return parseCSV(text);
+}
+
+/**
+ * Parses a CSV file in a Web Worker so large files don't freeze the page.
+ * `onProgress` receives the share of the file read so far, from 0 to 1.
+ * Falls back to the main thread where workers are unavailable.
+ */
+export function parseCsvFile(file: File, onProgress?: (fraction: number) => void): Promise<ParsedCsv> {
+  if (typeof Worker === 'undefined') return parseOnMainThread(file);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/csvWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CsvWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.total > 0 ? message.loaded / message.total : 1);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      parseOnMainThread(file).then(resolve, reject);
+    };
+    worker.postMessage({ file });
+  });
+}
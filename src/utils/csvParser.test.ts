@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { createCsvReader, detectDelimiter, detectEncoding, formatCsvError, parseCSV } from "@/utils/csvParser";
+
+describe('parseCSV', () => {
+  it('drops a byte order mark and reads CRLF, LF and CR line endings', () => {
+    const csv = parseCSV('﻿Name,Start\r\nDesign,2025-03-03\nBuild,2025-03-04\rTest,2025-03-05\r\n');
+
+    expect(csv.headers).toEqual(['Name', 'Start']);
+    expect(csv.rows).toEqual([['Design', '2025-03-03'], ['Build', '2025-03-04'], ['Test', '2025-03-05']]);
+    expect(csv.rowNumbers).toEqual([2, 3, 4]);
+    expect(csv.errors).toEqual([]);
+  });
+
+  it('keeps delimiters, escaped quotes and line breaks inside quoted cells', () => {
+    const csv = parseCSV('Name,Notes\r\n"Design, phase 1","Say ""hi""\r\nthen leave"\r\nBuild,\r\n');
+
+    expect(csv.rows).toEqual([['Design, phase 1', 'Say "hi"\r\nthen leave'], ['Build', '']]);
+    expect(csv.rowNumbers).toEqual([2, 3]);
+  });
+
+  it('skips blank lines but keeps counting them as rows', () => {
+    const csv = parseCSV('Name\n\nDesign\n');
+
+    expect(csv.rows).toEqual([['Design']]);
+    expect(csv.rowNumbers).toEqual([3]);
+  });
+
+  it('detects the delimiter when none is given', () => {
+    expect(parseCSV('Name;Start\nDesign;2025-03-03').delimiter).toBe(';');
+    expect(parseCSV('Name\tStart\nDesign\t2025-03-03').delimiter).toBe('\t');
+    expect(parseCSV('Name|Start\nDesign|2025-03-03', ',').rows).toEqual([['Design|2025-03-03']]);
+  });
+
+  it('reports rows with the wrong number of columns with their position', () => {
+    const csv = parseCSV('Name,Start,End\nDesign,2025-03-03\nBuild,2025-03-04,2025-03-05,extra\n');
+
+    expect(csv.errors).toEqual([
+      { row: 2, column: 3, message: 'Row has 2 columns but the header has 3' },
+      { row: 3, column: 4, message: 'Row has 4 columns but the header has 3' }
+    ]);
+    expect(csv.rows).toHaveLength(2);
+  });
+
+  it('reports stray and unclosed quotes', () => {
+    expect(parseCSV('Name,Notes\nDe"sign,x\n').errors).toEqual([
+      { row: 2, column: 1, message: 'Quote inside an unquoted cell; the cell should be wrapped in quotes' }
+    ]);
+    expect(parseCSV('Name,Notes\n"Design"x,y\n').errors).toEqual([
+      { row: 2, column: 1, message: 'Text after a closing quote' }
+    ]);
+    expect(parseCSV('Name,Notes\nDesign,"never closed\n').errors).toContainEqual(
+      { row: 2, column: 2, message: 'Quoted cell is never closed' }
+    );
+  });
+});
+
+describe('createCsvReader', () => {
+  it('gives the same result however the text after the first chunk is split', () => {
+    // The delimiter is detected from the first chunk
+    const header = '﻿Name;Notes\r';
+    const body = '\n"Design; ""one""\r\nmore";x\r\nBuild;y';
+    const reader = createCsvReader();
+    reader.push(header);
+    for (const char of body) reader.push(char);
+
+    expect(reader.finish()).toEqual(parseCSV(header + body));
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers the candidate that appears the same number of times on every line', () => {
+    expect(detectDelimiter('Name;Notes\nDesign;a, b, c\nBuild;d\n')).toBe(';');
+  });
+
+  it('ignores delimiters inside quotes and falls back to a comma', () => {
+    expect(detectDelimiter('"a;b;c"\n"d;e;f"\n')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads byte order marks, then valid UTF-8, then falls back to Windows-1252', () => {
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new TextEncoder().encode('Café'))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x20]))).toBe('windows-1252');
+  });
+});
+
+describe('formatCsvError', () => {
+  it('names the row and column', () => {
+    expect(formatCsvError({ row: 4, column: 2, message: 'Text after a closing quote' }))
+      .toBe('Row 4, column 2: Text after a closing quote');
+  });
+});
@@ -0,0 +1,233 @@
+// RFC 4180 CSV parsing shared by every CSV importer. Text can be pushed in chunks,
+// so large files can be parsed as they are read (see workers/csvWorker.ts).
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CsvError {
+  row: number;    // 1-based record number as a spreadsheet shows it; the header is row 1
+  column: number; // 1-based
+  message: string;
+}
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][]; // Data rows, without the header
+  rowNumbers: number[]; // Row number of each data row, counted like CsvError.row
+  delimiter: CsvDelimiter;
+  errors: CsvError[];
+}
+
+export interface CsvReader {
+  push: (text: string) => void;
+  finish: () => ParsedCsv;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 10;
+
+export const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe'
+};
+
+/**
+ * Picks the delimiter from the first lines of a file: the candidate that
+ * appears the same number of times on the most lines wins, so a comma inside
+ * a semicolon-separated description does not throw it off.
+ */
+export function detectDelimiter(sample: string): CsvDelimiter {
+  const counts: Record<string, number>[] = [{}];
+  let inQuotes = false;
+  for (let i = 0; i < sample.length && counts.length <= SAMPLE_LINES; i++) {
+    const char = sample[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && sample[i + 1] === '\n') i++;
+      counts.push({});
+    } else if (!inQuotes && DELIMITERS.includes(char as CsvDelimiter)) {
+      const line = counts[counts.length - 1];
+      line[char] = (line[char] || 0) + 1;
+    }
+  }
+
+  // The last line may have been cut off mid-row, so it only counts when it is the only one
+  const lines = counts.length > 1 ? counts.slice(0, -1) : counts;
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const perLine = lines[0][delimiter] || 0;
+    if (perLine === 0) continue;
+    const consistentLines = lines.filter(line => (line[delimiter] || 0) === perLine).length;
+    const score = consistentLines * 1000 + perLine;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Works out the text encoding from the first bytes of a file: a byte order
+ * mark wins, then UTF-8 if the bytes are valid UTF-8, otherwise Windows-1252,
+ * which is what Excel uses for "CSV" on most Western systems.
+ */
+export function detectEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  try {
+    // Streaming mode tolerates a character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+/**
+ * Creates a reader that parses CSV text pushed in any number of chunks.
+ * Quoted cells may contain delimiters, quotes ("") and line breaks; LF, CRLF
+ * and CR line endings are accepted. The first record is the header. Problems
+ * are collected as errors with their row and column instead of stopping the
+ * parse, so the caller can show all of them at once.
+ */
+export function createCsvReader(delimiter?: CsvDelimiter): CsvReader {
+  let activeDelimiter = delimiter;
+  let headers: string[] | null = null;
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  const errors: CsvError[] = [];
+
+  let state: 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' = 'fieldStart';
+  let field = '';
+  let fields: string[] = [];
+  let row = 1;
+  let quoteStart = { row: 1, column: 1 };
+  let skipLineFeed = false;
+  let isFirstChunk = true;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    const isBlankLine = fields.length === 1 && fields[0] === '';
+    if (!isBlankLine) {
+      if (!headers) {
+        headers = fields.map(header => header.trim());
+      } else {
+        if (fields.length !== headers.length) {
+          errors.push({
+            row,
+            column: Math.min(fields.length, headers.length) + 1,
+            message: `Row has ${fields.length} columns but the header has ${headers.length}`
+          });
+        }
+        rows.push(fields);
+        rowNumbers.push(row);
+      }
+    }
+    fields = [];
+    row++;
+  };
+
+  const push = (text: string) => {
+    if (isFirstChunk && text.length > 0) {
+      isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1); // Byte order mark left by a decoder
+      activeDelimiter = activeDelimiter || detectDelimiter(text);
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      switch (state) {
+        case 'fieldStart':
+          if (char === '"') {
+            state = 'quoted';
+            quoteStart = { row, column: fields.length + 1 };
+          } else if (char === activeDelimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            skipLineFeed = char === '\r';
+            endRecord();
+          } else {
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (char === activeDelimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            skipLineFeed = char === '\r';
+            endRecord();
+          } else {
+            if (char === '"') {
+              errors.push({ row, column: fields.length + 1, message: 'Quote inside an unquoted cell; the cell should be wrapped in quotes' });
+            }
+            field += char;
+          }
+          break;
+
+        case 'quoted':
+          if (char === '"') {
+            state = 'quoteInQuoted';
+          } else {
+            field += char;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (char === '"') {
+            field += '"'; // An escaped quote
+            state = 'quoted';
+          } else if (char === activeDelimiter) {
+            endField();
+          } else if (char === '\r' || char === '\n') {
+            skipLineFeed = char === '\r';
+            endRecord();
+          } else {
+            errors.push({ row, column: fields.length + 1, message: 'Text after a closing quote' });
+            field += char;
+            state = 'unquoted';
+          }
+          break;
+      }
+    }
+  };
+
+  const finish = (): ParsedCsv => {
+    if (state === 'quoted') {
+      errors.push({ ...quoteStart, message: 'Quoted cell is never closed' });
+    }
+    if (state !== 'fieldStart' || field !== '' || fields.length > 0) {
+      endRecord();
+    }
+    return { headers: headers || [], rows, rowNumbers, delimiter: activeDelimiter || ',', errors };
+  };
+
+  return { push, finish };
+}
+
+export function parseCSV(content: string, delimiter?: CsvDelimiter): ParsedCsv {
+  const reader = createCsvReader(delimiter);
+  reader.push(content);
+  return reader.finish();
+}
+
+export function formatCsvError(error: CsvError): string {
+  return `Row ${error.row}, column ${error.column}: ${error.message}`;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { format } from "date-fns";
+import {
+  dateToExcelSerial,
+  detectDateFormat,
+  excelSerialToDate,
+  getLocaleDateFormat,
+  parseDateAs,
+  parseImportDate,
+  pickDateFormat
+} from "@/utils/dateFormats";
+
+const day = (date: Date | null) => date && format(date, 'yyyy-MM-dd');
+
+describe('parseDateAs', () => {
+  it('reads the same digits as different dates in day-first and month-first order', () => {
+    expect(day(parseDateAs('03/04/2025', 'dmy'))).toBe('2025-04-03');
+    expect(day(parseDateAs('03/04/2025', 'mdy'))).toBe('2025-03-04');
+    expect(day(parseDateAs('3.4.25', 'dmy'))).toBe('2025-04-03');
+  });
+
+  it('rejects days and months that do not exist instead of rolling them over', () => {
+    expect(parseDateAs('31/02/2025', 'dmy')).toBeNull();
+    expect(parseDateAs('13/04/2025', 'mdy')).toBeNull();
+    expect(parseDateAs('2025-02-30', 'iso')).toBeNull();
+  });
+
+  it('ignores a time after the date', () => {
+    expect(day(parseDateAs('2025-03-04T10:00:00Z', 'iso'))).toBe('2025-03-04');
+    expect(day(parseDateAs('04/03/2025 10:00', 'dmy'))).toBe('2025-03-04');
+  });
+});
+
+describe('Excel serial numbers', () => {
+  it('skips the 29 February 1900 that Excel counts', () => {
+    expect(day(excelSerialToDate(59))).toBe('1900-02-28');
+    expect(excelSerialToDate(60)).toBeNull();
+    expect(day(excelSerialToDate(61))).toBe('1900-03-01');
+    expect(day(excelSerialToDate(45658.75))).toBe('2025-01-01');
+  });
+
+  it('round-trips days from March 1900 on', () => {
+    expect(dateToExcelSerial(new Date(2025, 0, 1))).toBe(45658);
+    expect(day(excelSerialToDate(dateToExcelSerial(new Date(2024, 1, 29))))).toBe('2024-02-29');
+  });
+});
+
+describe('parseImportDate', () => {
+  it('always accepts ISO dates and month names, whatever the format', () => {
+    expect(day(parseImportDate('2025-03-04', 'dmy'))).toBe('2025-03-04');
+    expect(day(parseImportDate('12/Mar/24 10:15 AM', 'mdy'))).toBe('2024-03-12');
+    expect(day(parseImportDate('March 5, 2025', 'dmy'))).toBe('2025-03-05');
+    expect(day(parseImportDate('5-Mar-2025', 'excel'))).toBe('2025-03-05');
+  });
+
+  it('returns null for blank or unreadable text', () => {
+    expect(parseImportDate('', 'iso')).toBeNull();
+    expect(parseImportDate('next week', 'iso')).toBeNull();
+  });
+});
+
+describe('detectDateFormat', () => {
+  it('lists the values that read differently while both day-month orders fit', () => {
+    expect(detectDateFormat(['01/02/2025', '05/05/2025', '', '03/04/2025'])).toEqual({
+      formats: ['dmy', 'mdy'],
+      ambiguous: [0, 3]
+    });
+  });
+
+  it('lets one unambiguous value settle the order for the whole column', () => {
+    expect(detectDateFormat(['01/02/2025', '13/04/2025'])).toEqual({ formats: ['dmy'], ambiguous: [] });
+    expect(detectDateFormat(['01/02/2025', '04/13/2025'])).toEqual({ formats: ['mdy'], ambiguous: [] });
+  });
+
+  it('does not let ISO dates or month names rule a format out', () => {
+    expect(detectDateFormat(['2025-03-04', '13/04/2025', '5 Mar 2025']).formats).toEqual(['dmy']);
+    expect(detectDateFormat(['45658', '2025-03-04']).formats).toEqual(['excel']);
+  });
+
+  it('finds no format when the values fit none', () => {
+    expect(detectDateFormat(['13/13/2025'])).toEqual({ formats: [], ambiguous: [] });
+  });
+});
+
+describe('pickDateFormat', () => {
+  it('prefers ISO, then the locale order, then the only format that fits', () => {
+    expect(pickDateFormat({ formats: ['iso', 'dmy', 'mdy', 'excel'], ambiguous: [] })).toBe('iso');
+    expect(pickDateFormat({ formats: ['dmy', 'mdy'], ambiguous: [0] })).toBe(getLocaleDateFormat());
+    expect(pickDateFormat({ formats: [], ambiguous: [] })).toBe(getLocaleDateFormat());
+    expect(pickDateFormat({ formats: ['excel'], ambiguous: [] })).toBe('excel');
+  });
+});
@@ -0,0 +1,133 @@
+import { isValid, parse } from "date-fns";
+import { ImportDateFormat } from "@/types/project";
+
+export const DATE_FORMAT_LABELS: Record<ImportDateFormat, string> = {
+  iso: 'YYYY-MM-DD (ISO)',
+  dmy: 'DD/MM/YYYY',
+  mdy: 'MM/DD/YYYY',
+  excel: 'Excel serial number'
+};
+
+export const DATE_FORMATS: ImportDateFormat[] = ['iso', 'dmy', 'mdy', 'excel'];
+
+export interface DateFormatDetection {
+  formats: ImportDateFormat[]; // Every format that reads all of the values
+  ambiguous: number[];         // Indexes of values that are different dates as DD/MM/YYYY and MM/DD/YYYY
+}
+
+// A time after the date, as spreadsheets often add, is ignored
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/;
+const NUMERIC_DATE = /^(\d{1,2})[./-](\d{1,2})[./-](\d{4}|\d{2})(?:[T ].*)?$/;
+const EXCEL_SERIAL = /^\d{1,7}(?:\.\d+)?$/;
+// Dates with a month name, e.g. "15 Jan 2025", read the same in every format
+const TEXT_DATE = /[a-z]{3}/i;
+// The month-name layouts read, in English. Jira writes 12/Mar/24 10:15 AM by default.
+const TEXT_DATE_FORMATS = [
+  'd/MMM/yy h:mm a', 'd/MMM/yy H:mm', 'd/MMM/yy',
+  'd/MMM/yyyy h:mm a', 'd/MMM/yyyy H:mm', 'd/MMM/yyyy',
+  'd MMM yyyy', 'd MMMM yyyy', 'MMM d, yyyy', 'MMMM d, yyyy', 'd-MMM-yyyy', 'd-MMM-yy'
+];
+
+// Checks the parts, so 31/02/2025 isn't rolled over into March
+function toDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year < 100 ? 2000 + year : year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+// Excel counts a 29 February 1900 that never was, so serials after it are a day further from the epoch
+export function excelSerialToDate(serial: number): Date | null {
+  const days = Math.floor(serial);
+  if (days < 1 || days === 60) return null;
+  return new Date(1899, 11, days < 60 ? 31 + days : 30 + days);
+}
+
+// The serial number of a day from March 1900 on, for writing date cells
+export function dateToExcelSerial(date: Date): number {
+  return Math.round((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(1899, 11, 30)) / 86400000);
+}
+
+/**
+ * Reads a date written in one particular format, at local midnight.
+ * Returns null when the text isn't a date in that format.
+ */
+export function parseDateAs(text: string, format: ImportDateFormat): Date | null {
+  const value = text.trim();
+  if (format === 'iso') {
+    const match = value.match(ISO_DATE);
+    return match ? toDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+  if (format === 'excel') {
+    return EXCEL_SERIAL.test(value) ? excelSerialToDate(Number(value)) : null;
+  }
+
+  const match = value.match(NUMERIC_DATE);
+  if (!match) return null;
+  const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  return format === 'dmy' ? toDate(year, second, first) : toDate(year, first, second);
+}
+
+// Whether the browser's locale writes the day or the month first
+export function getLocaleDateFormat(): 'dmy' | 'mdy' {
+  const parts = new Intl.DateTimeFormat().formatToParts(new Date(2000, 10, 22));
+  const order = parts.filter(part => part.type === 'day' || part.type === 'month').map(part => part.type);
+  return order[0] === 'month' ? 'mdy' : 'dmy';
+}
+
+/**
+ * Parses an imported date. ISO dates and dates with a month name are always
+ * accepted; other dates are read in `format`, or without one, in the order
+ * the browser's locale uses.
+ */
+export function parseImportDate(text: string, format?: ImportDateFormat): Date | null {
+  const value = text?.trim();
+  if (!value) return null;
+
+  const date = parseDateAs(value, format || getLocaleDateFormat()) || parseDateAs(value, 'iso');
+  if (date) return date;
+  if (TEXT_DATE.test(value)) {
+    // Each layout is tried explicitly; browsers differ in what new Date() makes of these
+    const reference = new Date();
+    for (const layout of TEXT_DATE_FORMATS) {
+      const parsed = parse(value, layout, reference);
+      if (isValid(parsed)) return new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate());
+    }
+  }
+  return null;
+}
+
+/**
+ * Works out which formats a column of dates can be in, from every value in
+ * it: one 13/04/2025 settles DD/MM/YYYY for the whole column. While both
+ * day-month orders still fit, the values they read differently are listed
+ * as ambiguous.
+ */
+export function detectDateFormat(values: string[]): DateFormatDetection {
+  const dated = values
+    .map((value, index) => ({ value: value?.trim() || '', index }))
+    .filter(({ value }) => value && !TEXT_DATE.test(value));
+
+  // ISO dates are accepted whatever the format, so they don't rule any out
+  const formats = DATE_FORMATS.filter(format =>
+    dated.every(({ value }) => parseDateAs(value, format) || parseDateAs(value, 'iso'))
+  );
+  if (!formats.includes('dmy') || !formats.includes('mdy')) {
+    return { formats, ambiguous: [] };
+  }
+
+  const ambiguous = dated
+    .filter(({ value }) => {
+      const dayFirst = parseDateAs(value, 'dmy');
+      const monthFirst = parseDateAs(value, 'mdy');
+      return dayFirst && monthFirst && dayFirst.getTime() !== monthFirst.getTime();
+    })
+    .map(({ index }) => index);
+  return { formats, ambiguous };
+}
+
+// The format to use when the user hasn't picked one
+export function pickDateFormat(detection: DateFormatDetection): ImportDateFormat {
+  const locale = getLocaleDateFormat();
+  if (detection.formats.includes('iso')) return 'iso';
+  if (detection.formats.length === 0 || detection.formats.includes(locale)) return locale;
+  return detection.formats[0];
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDependencyCycles,
+  formatDependency,
+  normalizeDependencies,
+  parseDependency,
+  sortByDependencies,
+  validateDependencies
+} from "@/utils/dependencies";
+
+describe('normalizeDependencies', () => {
+  it('reads plain IDs as finish-to-start links and drops malformed entries', () => {
+    expect(normalizeDependencies([' a ', '', { task_id: 'b', type: 'SS', lag: 1.6 }, { task_id: 'c', type: 'XX' }, 42, null]))
+      .toEqual([
+        { task_id: 'a', type: 'FS', lag: 0 },
+        { task_id: 'b', type: 'SS', lag: 2 },
+        { task_id: 'c', type: 'FS', lag: 0 }
+      ]);
+  });
+
+  it('returns no links for anything but an array', () => {
+    expect(normalizeDependencies(undefined)).toEqual([]);
+    expect(normalizeDependencies('a')).toEqual([]);
+  });
+});
+
+describe('parseDependency', () => {
+  it('splits the reference, type and lag', () => {
+    expect(parseDependency('3FS+2d')).toEqual({ reference: '3', type: 'FS', lag: 2 });
+    expect(parseDependency('Design SS')).toEqual({ reference: 'Design', type: 'SS', lag: 0 });
+    expect(parseDependency('Build ff + 3 days')).toEqual({ reference: 'Build', type: 'FF', lag: 3 });
+  });
+
+  it('reads leads and converts weeks and hours to days', () => {
+    expect(parseDependency('1.2-1w')).toEqual({ reference: '1.2', type: 'FS', lag: -5 });
+    expect(parseDependency('4SF+16h')).toEqual({ reference: '4', type: 'SF', lag: 2 });
+  });
+
+  it('returns null without a type or lag', () => {
+    expect(parseDependency('Design')).toBeNull();
+  });
+});
+
+describe('formatDependency', () => {
+  it('shows plain finish-to-start links as the name only', () => {
+    expect(formatDependency({ task_id: 'a', type: 'FS', lag: 0 }, 'Design')).toBe('Design');
+    expect(formatDependency({ task_id: 'a', type: 'SS', lag: 2 }, 'Design')).toBe('Design SS+2d');
+    expect(formatDependency({ task_id: 'a', type: 'FS', lag: -1 }, 'Design')).toBe('Design FS-1d');
+  });
+});
+
+describe('findDependencyCycles', () => {
+  it('lists each cycle predecessor first with the first task repeated', () => {
+    const cycles = findDependencyCycles([
+      { id: 'A', name: 'A', dependencies: ['C'] },
+      { id: 'B', name: 'B', dependencies: ['A'] },
+      { id: 'C', name: 'C', dependencies: [{ task_id: 'B', type: 'SS', lag: 0 }] }
+    ]);
+
+    expect(cycles).toEqual([['A', 'B', 'C', 'A']]);
+  });
+
+  it('finds nothing in an acyclic graph', () => {
+    expect(findDependencyCycles([
+      { id: 'A', name: 'A', dependencies: [] },
+      { id: 'B', name: 'B', dependencies: ['A'] }
+    ])).toEqual([]);
+  });
+});
+
+describe('validateDependencies', () => {
+  const tasks = [
+    { id: 'A', name: 'Design', dependencies: ['A'] },
+    { id: 'B', name: 'Build', dependencies: ['missing'] },
+    { id: 'C', name: 'Test', dependencies: ['D'] },
+    { id: 'D', name: 'Ship', dependencies: ['C'] }
+  ];
+
+  it('reports self-references, unknown tasks and cycles by name', () => {
+    expect(validateDependencies(tasks)).toEqual([
+      '"Design" cannot depend on itself',
+      '"Build" depends on unknown task "missing"',
+      'Dependency cycle: "Test" → "Ship" → "Test"'
+    ]);
+  });
+
+  it('only reports problems involving the given tasks', () => {
+    expect(validateDependencies(tasks, ['B'])).toEqual(['"Build" depends on unknown task "missing"']);
+  });
+});
+
+describe('sortByDependencies', () => {
+  it('puts predecessors before their successors', () => {
+    const sorted = sortByDependencies([
+      { id: 'C', dependencies: ['B'] },
+      { id: 'B', dependencies: [{ task_id: 'A', type: 'FF' as const, lag: 0 }] },
+      { id: 'A', dependencies: [] }
+    ]);
+
+    expect(sorted.map(task => task.id)).toEqual(['A', 'B', 'C']);
+  });
+});
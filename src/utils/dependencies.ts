@@ -0,0 +1,166 @@
+import { DependencyLink, DependencyType, Task, TaskDependency } from "@/types/project";
+
+export const DEPENDENCY_TYPES: { value: DependencyType; label: string }[] = [
+  { value: 'FS', label: 'Finish-to-Start' },
+  { value: 'SS', label: 'Start-to-Start' },
+  { value: 'FF', label: 'Finish-to-Finish' },
+  { value: 'SF', label: 'Start-to-Finish' },
+];
+
+const isDependencyType = (value: unknown): value is DependencyType =>
+  value === 'FS' || value === 'SS' || value === 'FF' || value === 'SF';
+
+/**
+ * Converts whatever is stored in `tasks.dependencies` into typed links.
+ * Plain ID strings become finish-to-start links with zero lag.
+ * Malformed entries are dropped.
+ */
+export function normalizeDependencies(dependencies: unknown): DependencyLink[] {
+  if (!Array.isArray(dependencies)) return [];
+
+  const links: DependencyLink[] = [];
+  for (const dependency of dependencies) {
+    if (typeof dependency === 'string') {
+      if (dependency.trim()) links.push({ task_id: dependency.trim(), type: 'FS', lag: 0 });
+      continue;
+    }
+    if (dependency && typeof dependency === 'object' && typeof dependency.task_id === 'string') {
+      const lag = Number(dependency.lag);
+      links.push({
+        task_id: dependency.task_id,
+        type: isDependencyType(dependency.type) ? dependency.type : 'FS',
+        lag: Number.isFinite(lag) ? Math.round(lag) : 0
+      });
+    }
+  }
+  return links;
+}
+
+// Returns the predecessor task IDs, regardless of link type
+export function getDependencyIds(dependencies: TaskDependency[] | undefined): string[] {
+  return normalizeDependencies(dependencies).map(link => link.task_id);
+}
+
+// Formats a link in MS Project style, e.g. "Design FS+2d". Plain FS links show only the name.
+export function formatDependency(link: DependencyLink, predecessorName: string = link.task_id): string {
+  if (link.type === 'FS' && link.lag === 0) return predecessorName;
+  const lag = link.lag === 0 ? '' : `${link.lag > 0 ? '+' : ''}${link.lag}d`;
+  return `${predecessorName} ${link.type}${lag}`;
+}
+
+// Lag units accepted in link text, in working days
+const LAG_UNITS: Record<string, number> = { d: 1, day: 1, days: 1, w: 5, wk: 5, wks: 5, week: 5, weeks: 5, h: 1 / 8, hr: 1 / 8, hrs: 1 / 8, hour: 1 / 8, hours: 1 / 8 };
+const LINK_SUFFIX = /^(.+?)\s*(FS|SS|FF|SF)?\s*(?:([+-])\s*(\d+(?:\.\d+)?)\s*(days?|d|weeks?|wks?|w|hours?|hrs?|h)?)?$/i;
+
+/**
+ * Splits MS Project style link text such as "3FS+2d", "Design SS" or
+ * "1.2-1w" into the predecessor reference, link type and lag in days.
+ * Returns null when the text has no type or lag.
+ */
+export function parseDependency(text: string): { reference: string; type: DependencyType; lag: number } | null {
+  const match = LINK_SUFFIX.exec(text.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const [, reference, type, sign, amount, unit] = match;
+  const daysPerUnit = unit ? LAG_UNITS[unit.toLowerCase()] : 1;
+  const lag = amount ? Math.round(parseFloat(amount) * daysPerUnit) * (sign === '-' ? -1 : 1) : 0;
+  return { reference: reference.trim(), type: (type?.toUpperCase() as DependencyType) || 'FS', lag };
+}
+
+type DependencyNode = Pick<Task, 'id' | 'name' | 'dependencies'>;
+
+/**
+ * Finds dependency loops with a depth-first search over predecessor links.
+ * Each cycle is returned as task IDs in scheduling order (predecessor first),
+ * with the first task repeated at the end, e.g. [A, B, A].
+ */
+export function findDependencyCycles(tasks: DependencyNode[]): string[][] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    path.push(id);
+
+    for (const predecessorId of getDependencyIds(byId.get(id)!.dependencies)) {
+      if (predecessorId === id || !byId.has(predecessorId)) continue; // Reported separately
+      if (state.get(predecessorId) === 'visiting') {
+        const loop = path.slice(path.indexOf(predecessorId));
+        cycles.push([...loop, predecessorId].reverse());
+      } else if (!state.has(predecessorId)) {
+        visit(predecessorId);
+      }
+    }
+
+    path.pop();
+    state.set(id, 'done');
+  };
+
+  tasks.forEach(task => {
+    if (!state.has(task.id)) visit(task.id);
+  });
+
+  return cycles;
+}
+
+/**
+ * Checks a project's dependency graph for self-references, links to tasks
+ * that do not exist and cycles. Returns one readable message per problem.
+ * When `taskIds` is given, only problems involving those tasks are reported,
+ * so an edit is not blocked by unrelated legacy data.
+ */
+export function validateDependencies(tasks: DependencyNode[], taskIds?: string[]): string[] {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const nameOf = (id: string) => byId.get(id)?.name || id;
+  const isChecked = (id: string) => !taskIds || taskIds.includes(id);
+  const errors: string[] = [];
+
+  for (const task of tasks) {
+    if (!isChecked(task.id)) continue;
+    for (const predecessorId of getDependencyIds(task.dependencies)) {
+      if (predecessorId === task.id) {
+        errors.push(`"${task.name}" cannot depend on itself`);
+      } else if (!byId.has(predecessorId)) {
+        errors.push(`"${task.name}" depends on unknown task "${predecessorId}"`);
+      }
+    }
+  }
+
+  for (const cycle of findDependencyCycles(tasks)) {
+    if (!cycle.some(isChecked)) continue;
+    errors.push(`Dependency cycle: ${cycle.map(nameOf).map(name => `"${name}"`).join(' → ')}`);
+  }
+
+  return errors;
+}
+
+// Throws with every problem listed so the caller can surface it as-is
+export function assertValidDependencies(tasks: DependencyNode[], taskIds?: string[]): void {
+  const errors = validateDependencies(tasks, taskIds);
+  if (errors.length > 0) {
+    throw new Error(`Invalid task dependencies: ${errors.join('; ')}`);
+  }
+}
+
+// Orders tasks so that every predecessor comes before its successors.
+// Assumes the graph has already been validated as acyclic.
+export function sortByDependencies<T extends { id?: string; dependencies?: TaskDependency[] }>(tasks: T[]): T[] {
+  const byId = new Map(tasks.filter(task => task.id).map(task => [task.id!, task]));
+  const visited = new Set<T>();
+  const sorted: T[] = [];
+
+  const visit = (task: T) => {
+    if (visited.has(task)) return;
+    visited.add(task);
+    for (const predecessorId of getDependencyIds(task.dependencies)) {
+      const predecessor = byId.get(predecessorId);
+      if (predecessor) visit(predecessor);
+    }
+    sorted.push(task);
+  };
+
+  tasks.forEach(visit);
+  return sorted;
+}
@@ -0,0 +1,174 @@
+// Simple vector drawings that render the same way to SVG, a PNG canvas and PDF
+// (see pdfWriter.ts). Coordinates start at the top left; text `y` is the baseline.
+
+export type Shape =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; lineWidth?: number; dashed?: boolean }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; lineWidth?: number; dashed?: boolean }
+  | { type: 'polygon'; points: [number, number][]; fill?: string; stroke?: string; lineWidth?: number }
+  | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; color?: string; align?: 'left' | 'center' | 'right' };
+
+export interface Drawing {
+  width: number;
+  height: number;
+  shapes: Shape[];
+}
+
+export const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+export const DASH_PATTERN = [3, 2];
+
+// Advance widths of the standard PDF fonts for characters 32-126, in 1/1000 of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_WIDTH = 556;
+const MAX_CANVAS_SIZE = 16384; // Larger canvases fail to draw in some browsers
+const ELLIPSIS = '…';
+const ELLIPSIS_WIDTH = 1000;
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    total += char === ELLIPSIS ? ELLIPSIS_WIDTH : widths[code - 32] ?? DEFAULT_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+// Shortens text with an ellipsis so it fits in `maxWidth`
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  const chars = Array.from(text);
+  while (chars.length > 0 && textWidth(chars.join('') + ELLIPSIS, size, bold) > maxWidth) chars.pop();
+  return chars.length > 0 ? chars.join('').trimEnd() + ELLIPSIS : '';
+}
+
+// Breaks text into lines that fit in `maxWidth`, keeping its line breaks. Words
+// longer than a whole line are shortened.
+export function wrapText(text: string, maxWidth: number, size: number, bold = false): string[] {
+  return text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size, bold) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+    return lines.map(value => fitText(value, maxWidth, size, bold));
+  });
+}
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function shapeToSvg(shape: Shape): string {
+  const dash = 'dashed' in shape && shape.dashed ? ` stroke-dasharray="${DASH_PATTERN.join(' ')}"` : '';
+  const stroke = (color?: string, width = 1) => color ? ` stroke="${color}" stroke-width="${width}"${dash}` : '';
+  switch (shape.type) {
+    case 'rect':
+      return `<rect x="${round(shape.x)}" y="${round(shape.y)}" width="${round(shape.width)}" height="${round(shape.height)}" fill="${shape.fill || 'none'}"${stroke(shape.stroke, shape.lineWidth)}/>`;
+    case 'line':
+      return `<line x1="${round(shape.x1)}" y1="${round(shape.y1)}" x2="${round(shape.x2)}" y2="${round(shape.y2)}"${stroke(shape.stroke, shape.lineWidth)}/>`;
+    case 'polygon':
+      return `<polygon points="${shape.points.map(point => point.map(round).join(',')).join(' ')}" fill="${shape.fill || 'none'}"${stroke(shape.stroke, shape.lineWidth)}/>`;
+    case 'text':
+      return `<text x="${round(shape.x)}" y="${round(shape.y)}" font-size="${shape.size}"${shape.bold ? ' font-weight="bold"' : ''} fill="${shape.color || '#000000'}" text-anchor="${TEXT_ANCHORS[shape.align || 'left']}">${escapeXml(shape.text)}</text>`;
+  }
+}
+
+export function drawingToSvg(drawing: Drawing): string {
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${drawing.width}" height="${drawing.height}" viewBox="0 0 ${drawing.width} ${drawing.height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    ...drawing.shapes.map(shapeToSvg),
+    '</svg>'
+  ].join('\n');
+}
+
+function paint(context: CanvasRenderingContext2D, shape: Extract<Shape, { type: 'rect' | 'polygon' }>) {
+  if (shape.fill) {
+    context.fillStyle = shape.fill;
+    context.fill();
+  }
+  if (shape.stroke) {
+    context.strokeStyle = shape.stroke;
+    context.lineWidth = shape.lineWidth || 1;
+    context.stroke();
+  }
+}
+
+/**
+ * Renders a drawing to a PNG image. `scale` sets the pixels per drawing unit,
+ * so the default of 2 keeps text sharp on high-density screens and in slides.
+ */
+export function drawingToPng(drawing: Drawing, scale = 2): Promise<Blob> {
+  scale = Math.min(scale, MAX_CANVAS_SIZE / drawing.width, MAX_CANVAS_SIZE / drawing.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(drawing.width * scale);
+  canvas.height = Math.ceil(drawing.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) return Promise.reject(new Error('This browser cannot draw images.'));
+
+  context.scale(scale, scale);
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, drawing.width, drawing.height);
+
+  for (const shape of drawing.shapes) {
+    context.setLineDash('dashed' in shape && shape.dashed ? DASH_PATTERN : []);
+    context.beginPath();
+    switch (shape.type) {
+      case 'rect':
+        context.rect(shape.x, shape.y, shape.width, shape.height);
+        paint(context, shape);
+        break;
+      case 'line':
+        context.moveTo(shape.x1, shape.y1);
+        context.lineTo(shape.x2, shape.y2);
+        context.strokeStyle = shape.stroke;
+        context.lineWidth = shape.lineWidth || 1;
+        context.stroke();
+        break;
+      case 'polygon':
+        shape.points.forEach(([x, y], index) => index === 0 ? context.moveTo(x, y) : context.lineTo(x, y));
+        context.closePath();
+        paint(context, shape);
+        break;
+      case 'text':
+        context.font = `${shape.bold ? 'bold ' : ''}${shape.size}px ${FONT_FAMILY}`;
+        context.fillStyle = shape.color || '#000000';
+        context.textAlign = shape.align || 'left';
+        context.fillText(shape.text, shape.x, shape.y);
+        break;
+    }
+  }
+
+  return new Promise((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new Error('The image could not be created.')),
+    'image/png'
+  ));
+}
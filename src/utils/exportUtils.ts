@@ -1,35 +1,70 @@
-// @ts-nocheck
-import { Task, Project } from "@/types/project";
-import { format } from "date-fns";
+import { Task, ProjectBaseline, ProjectCalendar, CustomField, FieldType } from "@/types/project";
+import { format, parseISO } from "date-fns";
+import { formatDependency, normalizeDependencies } from "@/utils/dependencies";
+import { getWorkingDuration, resolveCalendar, toDate } from "@/utils/workingCalendar";
+import { getTaskVariance } from "@/utils/baselines";
+import { buildWbs } from "@/utils/wbs";
+import { downloadBlob } from "@/utils/download";
+import { writeXlsx, XlsxCellValue } from "@/utils/xlsx";
 
-export function exportToCSV(tasks: Task[], projectName: string = 'Project') {
+// Renders a task's links using predecessor names, e.g. "Design; Build SS+2d"
+function formatDependencies(task: Task, tasks: Task[], separator: string): string {
+  return normalizeDependencies(task.dependencies)
+    .map(link => formatDependency(link, tasks.find(t => t.id === link.task_id)?.name))
+    .join(separator);
+}
+
+const BASELINE_HEADERS = ['Baseline Start', 'Baseline Finish', 'Start Variance (days)', 'Finish Variance (days)'];
+
+// Baseline dates and variances for one task, blank when the task is not in the baseline
+function baselineColumns(task: Task, baseline: ProjectBaseline, calendar: ProjectCalendar | undefined, dateFormat: string) {
+  const variance = getTaskVariance(task, baseline, calendar);
+  if (!variance) return ['', '', '', ''];
+  return [
+    format(parseISO(variance.baseline.start_date), dateFormat),
+    format(parseISO(variance.baseline.end_date), dateFormat),
+    variance.startVariance.toString(),
+    variance.finishVariance.toString()
+  ];
+}
+
+export function exportToCSV(tasks: Task[], projectName: string = 'Project', calendar?: ProjectCalendar, baseline?: ProjectBaseline) {
   const headers = [
+    'External ID',
+    'WBS',
+    'Outline Level',
     'Task Name',
     'Type',
     'Status',
     'Start Date',
     'End Date',
-    'Duration (days)',
+    'Duration (working days)',
     'Assignee',
     'Progress (%)',
     'Dependencies',
-    'Description'
+    'Description',
+    ...(baseline ? BASELINE_HEADERS : [])
   ];
 
-  const csvData = tasks.map(task => {
-    const duration = Math.ceil((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24));
+  // Rows follow the outline so the hierarchy can be rebuilt on import
+  const csvData = buildWbs(tasks).map(({ task, wbs, level }) => {
+    const duration = getWorkingDuration(toDate(task.start_date), toDate(task.end_date), resolveCalendar(calendar, task.assignee));
     
     return [
+      task.external_id || task.id,
+      wbs,
+      level.toString(),
       task.name,
-      task.type,
+      task.task_type,
       task.status,
-      format(task.startDate, 'yyyy-MM-dd'),
-      format(task.endDate, 'yyyy-MM-dd'),
+      format(toDate(task.start_date), 'yyyy-MM-dd'),
+      format(toDate(task.end_date), 'yyyy-MM-dd'),
       duration.toString(),
       task.assignee || '',
       task.progress.toString(),
-      task.dependencies.join('; '),
-      task.description
+      formatDependencies(task, tasks, '; '),
+      task.description || '',
+      ...(baseline ? baselineColumns(task, baseline, calendar, 'yyyy-MM-dd') : [])
     ];
   });
 
@@ -39,91 +74,138 @@ export function exportToCSV(tasks: Task[], projectName: string = 'Project') {
 
   // Create and download file
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${projectName}_tasks_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
+  downloadBlob(blob, `${projectName}_tasks_${format(new Date(), 'yyyy-MM-dd')}.csv`);
 }
 
-export function exportToExcel(tasks: Task[], projectName: string = 'Project') {
-  // For Excel export, we'll generate a more structured CSV that Excel can interpret
-  const headers = [
-    'ID',
-    'Task Name',
-    'Type',
-    'Status', 
-    'Start Date',
-    'End Date',
-    'Duration (days)',
-    'Assignee',
-    'Progress (%)',
-    'Dependencies',
-    'Description'
+// Baseline dates as date cells and variances as numbers, blank when the task is not in the baseline
+function baselineCells(task: Task, baseline: ProjectBaseline, calendar: ProjectCalendar | undefined): XlsxCellValue[] {
+  const variance = getTaskVariance(task, baseline, calendar);
+  if (!variance) return [null, null, null, null];
+  return [
+    parseISO(variance.baseline.start_date),
+    parseISO(variance.baseline.end_date),
+    variance.startVariance,
+    variance.finishVariance
   ];
+}
+
+// Custom field values keep their type, so dates are date cells and flags TRUE/FALSE
+function customFieldCell(value: unknown, fieldType: FieldType): XlsxCellValue {
+  if (value === null || value === undefined || value === '') return null;
+  if (fieldType === 'date') {
+    const date = value instanceof Date ? value : parseISO(String(value));
+    return isNaN(date.getTime()) ? String(value) : date;
+  }
+  if (fieldType === 'number') return typeof value === 'number' ? value : Number(value);
+  if (fieldType === 'boolean') return value === true || value === 'true';
+  return String(value);
+}
+
+/**
+ * Exports the plan as an .xlsx workbook with a Tasks sheet in outline order,
+ * a Summary sheet and a sheet of custom field values per task.
+ */
+export async function exportToExcel(
+  tasks: Task[],
+  projectName: string = 'Project',
+  calendar?: ProjectCalendar,
+  baseline?: ProjectBaseline,
+  customFields: CustomField[] = []
+) {
+  const nodes = buildWbs(tasks);
+
+  const taskRows = nodes.map(({ task, wbs, level }) => {
+    const start = toDate(task.start_date);
+    const end = toDate(task.end_date);
+    const duration = getWorkingDuration(start, end, resolveCalendar(calendar, task.assignee));
 
-  const excelData = tasks.map(task => {
-    const duration = Math.ceil((task.endDate.getTime() - task.startDate.getTime()) / (1000 * 60 * 60 * 24));
-    
     return [
-      task.id,
+      task.external_id || task.id,
+      wbs,
+      level,
       task.name,
-      task.type.charAt(0).toUpperCase() + task.type.slice(1),
-      task.status.charAt(0).toUpperCase() + task.status.slice(1).replace('-', ' '),
-      format(task.startDate, 'MM/dd/yyyy'),
-      format(task.endDate, 'MM/dd/yyyy'),
+      task.task_type.charAt(0).toUpperCase() + task.task_type.slice(1),
+      task.status.charAt(0).toUpperCase() + task.status.slice(1).replace(/-/g, ' '),
+      start,
+      end,
       duration,
-      task.assignee || 'Unassigned',
+      task.assignee || null,
       task.progress,
-      task.dependencies.length > 0 ? task.dependencies.join(', ') : 'None',
-      task.description || 'No description'
+      formatDependencies(task, tasks, ', ') || null,
+      task.description || null,
+      ...(baseline ? baselineCells(task, baseline, calendar) : [])
     ];
   });
 
-  // Add summary section
-  const summaryHeaders = ['Project Summary', '', '', '', '', '', '', '', '', '', ''];
   const totalTasks = tasks.length;
   const completedTasks = tasks.filter(task => task.status === 'completed').length;
-  const inProgressTasks = tasks.filter(task => task.status === 'in-progress').length;
-  
-  const summaryData = [
-    ['Total Tasks', totalTasks, '', '', '', '', '', '', '', '', ''],
-    ['Completed Tasks', completedTasks, '', '', '', '', '', '', '', '', ''],
-    ['In Progress Tasks', inProgressTasks, '', '', '', '', '', '', '', '', ''],
-    ['Completion Rate', `${totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0}%`, '', '', '', '', '', '', '', '', ''],
-    ['', '', '', '', '', '', '', '', '', '', ''] // Empty row
+  const startDates = tasks.map(task => parseISO(task.start_date).getTime());
+  const endDates = tasks.map(task => parseISO(task.end_date).getTime());
+  const summaryRows: XlsxCellValue[][] = [
+    ['Project Summary', ''],
+    ['Project', projectName],
+    ['Exported', new Date()],
+    ['Start', tasks.length > 0 ? new Date(Math.min(...startDates)) : null],
+    ['Finish', tasks.length > 0 ? new Date(Math.max(...endDates)) : null],
+    ['Total Tasks', totalTasks],
+    ['Completed Tasks', completedTasks],
+    ['In Progress Tasks', tasks.filter(task => task.status === 'in-progress').length],
+    ['Milestones', tasks.filter(task => task.task_type === 'milestone').length],
+    ['Deliverables', tasks.filter(task => task.task_type === 'deliverable').length],
+    ['Completion Rate (%)', totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0],
+    ...(baseline ? [['Baseline', baseline.name]] : [])
   ];
 
-  const csvContent = [summaryHeaders, ...summaryData, headers, ...excelData]
-    .map(row => row.map(cell => `"${cell.toString().replace(/"/g, '""')}"`).join(','))
-    .join('\n');
+  const customFieldRows = nodes.map(({ task, wbs }) => [
+    task.external_id || task.id,
+    wbs,
+    task.name,
+    ...customFields.map(field => customFieldCell(task.custom_fields?.[field.id], field.field_type || field.type || 'text'))
+  ]);
 
-  const blob = new Blob(['\ufeff' + csvContent], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${projectName}_project_plan_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
+  const workbook = await writeXlsx([
+    {
+      name: 'Tasks',
+      hasHeader: true,
+      columnWidths: [14, 8, 8, 40, 12, 16, 12, 12, 10, 20, 10, 30, 40, ...(baseline ? [14, 14, 12, 12] : [])],
+      rows: [
+        [
+          'ID',
+          'WBS',
+          'Outline Level',
+          'Task Name',
+          'Type',
+          'Status',
+          'Start Date',
+          'End Date',
+          'Duration (working days)',
+          'Assignee',
+          'Progress (%)',
+          'Dependencies',
+          'Description',
+          ...(baseline ? BASELINE_HEADERS : [])
+        ],
+        ...taskRows
+      ]
+    },
+    { name: 'Summary', hasHeader: true, columnWidths: [22, 30], rows: summaryRows },
+    {
+      name: 'Custom Fields',
+      hasHeader: true,
+      columnWidths: [14, 8, 40, ...customFields.map(() => 18)],
+      rows: [['ID', 'WBS', 'Task Name', ...customFields.map(field => field.name)], ...customFieldRows]
+    }
+  ]);
+
+  downloadBlob(workbook, `${projectName}_project_plan_${format(new Date(), 'yyyy-MM-dd')}.xlsx`);
 }
 
 export function generateProjectSummary(tasks: Task[]): string {
   const totalTasks = tasks.length;
   const completedTasks = tasks.filter(task => task.status === 'completed').length;
   const inProgressTasks = tasks.filter(task => task.status === 'in-progress').length;
-  const milestones = tasks.filter(task => task.type === 'milestone').length;
-  const deliverables = tasks.filter(task => task.type === 'deliverable').length;
+  const milestones = tasks.filter(task => task.task_type === 'milestone').length;
+  const deliverables = tasks.filter(task => task.task_type === 'deliverable').length;
 
   return `Project Summary:
 - Total Tasks: ${totalTasks}
@@ -0,0 +1,436 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  startOfDay,
+  startOfWeek
+} from "date-fns";
+import { ProjectBaseline, ProjectCalendar, Task } from "@/types/project";
+import { computeSchedule } from "@/utils/scheduling";
+import { getTaskVariance } from "@/utils/baselines";
+import { buildWbs, rollupSummaryTasks } from "@/utils/wbs";
+import { getWorkingDuration, isWorkingDay, resolveCalendar, toDate } from "@/utils/workingCalendar";
+import { Drawing, Shape, drawingToPng, drawingToSvg, fitText, textWidth } from "@/utils/drawing";
+import { downloadBlob } from "@/utils/download";
+import { writePdf } from "@/utils/pdfWriter";
+
+export type GanttExportFormat = 'pdf' | 'png' | 'svg';
+export type GanttColumn = 'wbs' | 'name' | 'assignee' | 'status' | 'start' | 'finish' | 'duration' | 'progress';
+export type GanttPageSize = 'a4' | 'a3' | 'letter' | 'legal' | 'tabloid';
+
+export const GANTT_COLUMNS: { value: GanttColumn; label: string; width: number }[] = [
+  { value: 'wbs', label: 'WBS', width: 34 },
+  { value: 'name', label: 'Task', width: 170 },
+  { value: 'assignee', label: 'Assignee', width: 80 },
+  { value: 'status', label: 'Status', width: 64 },
+  { value: 'start', label: 'Start', width: 58 },
+  { value: 'finish', label: 'Finish', width: 58 },
+  { value: 'duration', label: 'Duration', width: 42 },
+  { value: 'progress', label: '% Done', width: 38 }
+];
+
+// Landscape, in points
+export const GANTT_PAGE_SIZES: { value: GanttPageSize; label: string; width: number; height: number }[] = [
+  { value: 'a4', label: 'A4', width: 842, height: 595 },
+  { value: 'a3', label: 'A3', width: 1191, height: 842 },
+  { value: 'letter', label: 'Letter', width: 792, height: 612 },
+  { value: 'legal', label: 'Legal', width: 1008, height: 612 },
+  { value: 'tabloid', label: 'Tabloid', width: 1224, height: 792 }
+];
+
+export interface GanttExportOptions {
+  projectName: string;
+  statusDate: string;           // yyyy-MM-dd, drawn as a line and printed in the header
+  from?: string;                // yyyy-MM-dd; the range defaults to the whole plan
+  to?: string;
+  columns: GanttColumn[];
+  legend: boolean;
+  pageSize: GanttPageSize;      // PDF only
+  showCriticalPath: boolean;
+  baseline?: ProjectBaseline;   // Planned dates are drawn under the bars when set
+  calendar?: ProjectCalendar;
+}
+
+interface GanttRow {
+  task: Task;
+  wbs: string;
+  level: number;
+  isSummary: boolean;
+  isCritical: boolean;
+  start: Date;
+  end: Date;
+  duration: number; // Working days
+  planned?: { start: Date; end: Date };
+}
+
+const MARGIN = 24;
+const HEADER_HEIGHT = 44;
+const SCALE_HEIGHT = 30; // Month and day tiers above the rows
+const ROW_HEIGHT = 18;
+const LEGEND_HEIGHT = 22;
+const LEGEND_SWATCH_WIDTH = 18;
+const LEGEND_GAP = 14;
+const TEXT_SIZE = 8;
+const INDENT = 8;
+const MIN_TIMELINE_WIDTH = 160;
+
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  grid: '#e2e8f0',
+  headerFill: '#f8fafc',
+  nonWorking: '#f1f5f9',
+  summary: '#334155',
+  critical: '#dc2626',
+  baseline: '#cbd5e1',
+  statusDate: '#dc2626'
+};
+
+// Bar and progress colors, grouped the way the Gantt chart colors statuses
+const STATUS_COLORS = {
+  notStarted: { label: 'Not started', bar: '#cbd5e1', done: '#64748b' },
+  inProgress: { label: 'In progress', bar: '#93c5fd', done: '#2563eb' },
+  completed: { label: 'Completed', bar: '#86efac', done: '#16a34a' },
+  onHold: { label: 'On hold', bar: '#fcd34d', done: '#d97706' }
+};
+
+function statusColors(status: string) {
+  switch (status) {
+    case 'completed':
+    case 'done':
+      return STATUS_COLORS.completed;
+    case 'in-progress':
+    case 'dev-in-progress':
+    case 'on-going':
+      return STATUS_COLORS.inProgress;
+    case 'on-hold':
+      return STATUS_COLORS.onHold;
+    default:
+      return STATUS_COLORS.notStarted;
+  }
+}
+
+const statusLabel = (status: string) => status.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+function parseRangeDate(value: string | undefined, label: string): Date | undefined {
+  if (!value) return undefined;
+  const date = toDate(value);
+  if (!isValid(date)) throw new Error(`The ${label} date is not a valid date.`);
+  return date;
+}
+
+// Rows in WBS order with rolled-up summary dates, limited to the tasks that overlap the range
+function buildRows(tasks: Task[], options: GanttExportOptions): { rows: GanttRow[]; from: Date; to: Date } {
+  const rolled = rollupSummaryTasks(tasks, options.calendar);
+  const schedule = computeSchedule(rolled, options.calendar);
+
+  const allRows: GanttRow[] = buildWbs(rolled).map(node => {
+    const { task } = node;
+    const start = toDate(task.start_date);
+    const end = toDate(task.end_date);
+    const variance = options.baseline ? getTaskVariance(task, options.baseline, options.calendar) : undefined;
+    return {
+      task,
+      wbs: node.wbs,
+      level: node.level,
+      isSummary: node.isSummary,
+      isCritical: options.showCriticalPath && !!schedule.tasks[task.id]?.isCritical,
+      start,
+      end: end < start ? start : end,
+      duration: task.task_type === 'milestone' ? 0 : getWorkingDuration(start, end, resolveCalendar(options.calendar, task.assignee)),
+      planned: variance && { start: toDate(variance.baseline.start_date), end: toDate(variance.baseline.end_date) }
+    };
+  }).filter(row => isValid(row.start) && isValid(row.end));
+
+  const dates = allRows.flatMap(row => [row.start, row.end, ...(row.planned ? [row.planned.start, row.planned.end] : [])]);
+  const today = startOfDay(new Date());
+  const from = parseRangeDate(options.from, 'start')
+    || startOfWeek(dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : today);
+  const to = parseRangeDate(options.to, 'end')
+    || endOfWeek(dates.length > 0 ? new Date(Math.max(...dates.map(date => date.getTime()))) : addDays(today, 30));
+  if (from > to) throw new Error('The date range ends before it starts.');
+
+  return {
+    rows: allRows.filter(row => row.end >= from && row.start <= startOfDay(to)),
+    from,
+    to: startOfDay(to)
+  };
+}
+
+function cellText(row: GanttRow, column: GanttColumn): string {
+  switch (column) {
+    case 'wbs': return row.wbs;
+    case 'name': return row.task.name;
+    case 'assignee': return row.task.assignee || '';
+    case 'status': return statusLabel(row.task.status);
+    case 'start': return format(row.start, 'MMM d, yyyy');
+    case 'finish': return format(row.end, 'MMM d, yyyy');
+    case 'duration': return `${row.duration}d`;
+    case 'progress': return `${Math.round(row.task.progress || 0)}%`;
+  }
+}
+
+interface SheetLayout {
+  width: number;
+  height: number;
+  from: Date;
+  to: Date;
+  pageLabel?: string; // e.g. "Page 2 of 5"
+}
+
+const columnsOf = (options: GanttExportOptions) => GANTT_COLUMNS.filter(column => options.columns.includes(column.value));
+
+const tableWidth = (options: GanttExportOptions) => columnsOf(options).reduce((sum, column) => sum + column.width, 0);
+
+const chromeHeight = (options: GanttExportOptions) =>
+  MARGIN * 2 + HEADER_HEIGHT + SCALE_HEIGHT + (options.legend ? LEGEND_HEIGHT : 0);
+
+function legendItems(options: GanttExportOptions): { label: string; swatch: (left: number, middle: number) => Shape[] }[] {
+  return [
+    ...Object.values(STATUS_COLORS).map(({ label, done }) => ({
+      label,
+      swatch: (left: number, middle: number): Shape[] => [{ type: 'rect', x: left, y: middle - 4, width: 14, height: 8, fill: done }]
+    })),
+    {
+      label: 'Milestone',
+      swatch: (left, middle) => [{ type: 'polygon', points: [[left + 7, middle - 5], [left + 12, middle], [left + 7, middle + 5], [left + 2, middle]], fill: COLORS.summary }]
+    },
+    { label: 'Summary', swatch: (left, middle) => [{ type: 'rect', x: left, y: middle - 2, width: 14, height: 4, fill: COLORS.summary }] },
+    ...(options.showCriticalPath ? [{
+      label: 'Critical path',
+      swatch: (left: number, middle: number): Shape[] => [{ type: 'rect', x: left, y: middle - 4, width: 14, height: 8, fill: '#ffffff', stroke: COLORS.critical, lineWidth: 1.2 }]
+    }] : []),
+    ...(options.baseline ? [{
+      label: `Baseline: ${options.baseline.name}`,
+      swatch: (left: number, middle: number): Shape[] => [{ type: 'rect', x: left, y: middle - 1.5, width: 14, height: 3, fill: COLORS.baseline, stroke: COLORS.muted, lineWidth: 0.5, dashed: true }]
+    }] : []),
+    {
+      label: 'Status date',
+      swatch: (left, middle) => [{ type: 'line', x1: left + 7, y1: middle - 5, x2: left + 7, y2: middle + 5, stroke: COLORS.statusDate, dashed: true }]
+    }
+  ];
+}
+
+const legendWidth = (options: GanttExportOptions) => legendItems(options)
+  .reduce((sum, item) => sum + LEGEND_SWATCH_WIDTH + textWidth(item.label, TEXT_SIZE) + LEGEND_GAP, 0);
+
+function drawLegend(shapes: Shape[], x: number, y: number, options: GanttExportOptions) {
+  let left = x;
+  for (const item of legendItems(options)) {
+    shapes.push(...item.swatch(left, y));
+    shapes.push({ type: 'text', x: left + LEGEND_SWATCH_WIDTH, y: y + 3, text: item.label, size: TEXT_SIZE, color: COLORS.text });
+    left += LEGEND_SWATCH_WIDTH + textWidth(item.label, TEXT_SIZE) + LEGEND_GAP;
+  }
+}
+
+// Month names on the top tier; days, or week starts when days are narrow, below them
+function drawScale(shapes: Shape[], x: number, y: number, dayWidth: number, from: Date, to: Date) {
+  const dayX = (date: Date) => x + differenceInCalendarDays(date, from) * dayWidth;
+  const endX = dayX(addDays(to, 1));
+
+  for (const month of eachMonthOfInterval({ start: from, end: to })) {
+    const left = Math.max(x, dayX(month));
+    const right = Math.min(endX, dayX(addDays(endOfMonth(month), 1)));
+    shapes.push({ type: 'line', x1: left, y1: y, x2: left, y2: y + SCALE_HEIGHT, stroke: COLORS.grid });
+    const label = fitText(format(month, right - left > 60 ? 'MMMM yyyy' : 'MMM yy'), right - left - 6, TEXT_SIZE, true);
+    if (label) shapes.push({ type: 'text', x: left + 3, y: y + 11, text: label, size: TEXT_SIZE, bold: true, color: COLORS.text });
+  }
+  shapes.push({ type: 'line', x1: x, y1: y + SCALE_HEIGHT / 2, x2: endX, y2: y + SCALE_HEIGHT / 2, stroke: COLORS.grid });
+
+  const days = eachDayOfInterval({ start: from, end: to });
+  if (dayWidth >= 12) {
+    for (const day of days) {
+      shapes.push({ type: 'text', x: dayX(day) + dayWidth / 2, y: y + 26, text: format(day, 'd'), size: 7, color: COLORS.muted, align: 'center' });
+    }
+  } else if (dayWidth * 7 >= 16) {
+    for (const day of days.filter(day => day.getDay() === 1)) {
+      shapes.push({ type: 'line', x1: dayX(day), y1: y + SCALE_HEIGHT / 2, x2: dayX(day), y2: y + SCALE_HEIGHT, stroke: COLORS.grid });
+      shapes.push({ type: 'text', x: dayX(day) + 2, y: y + 26, text: format(day, 'd'), size: 7, color: COLORS.muted });
+    }
+  }
+}
+
+function drawBar(shapes: Shape[], row: GanttRow, top: number, dayX: (date: Date) => number, dayWidth: number, range: { left: number; right: number }) {
+  const middle = top + ROW_HEIGHT / 2;
+  const clip = (value: number) => Math.min(range.right, Math.max(range.left, value));
+
+  if (row.planned) {
+    const left = clip(dayX(row.planned.start));
+    const right = clip(dayX(addDays(row.planned.end, 1)));
+    if (right > left) {
+      shapes.push({ type: 'rect', x: left, y: top + ROW_HEIGHT - 4, width: right - left, height: 3, fill: COLORS.baseline, stroke: COLORS.muted, lineWidth: 0.5, dashed: true });
+    }
+  }
+
+  if (row.task.task_type === 'milestone' && !row.isSummary) {
+    const center = dayX(row.start) + dayWidth / 2;
+    if (center < range.left || center > range.right) return;
+    shapes.push({
+      type: 'polygon',
+      points: [[center, middle - 5], [center + 5, middle], [center, middle + 5], [center - 5, middle]],
+      fill: COLORS.summary,
+      ...(row.isCritical ? { stroke: COLORS.critical, lineWidth: 1.2 } : {})
+    });
+    return;
+  }
+
+  const left = clip(dayX(row.start));
+  const right = clip(dayX(addDays(row.end, 1)));
+  if (right <= left) return;
+
+  if (row.isSummary) {
+    shapes.push({ type: 'rect', x: left, y: middle - 2.5, width: right - left, height: 5, fill: COLORS.summary });
+    return;
+  }
+
+  const colors = statusColors(row.task.status);
+  const fullWidth = dayX(addDays(row.end, 1)) - dayX(row.start);
+  const doneRight = clip(dayX(row.start) + fullWidth * Math.min(100, Math.max(0, row.task.progress || 0)) / 100);
+  shapes.push({ type: 'rect', x: left, y: middle - 5, width: right - left, height: 10, fill: colors.bar });
+  if (doneRight > left) shapes.push({ type: 'rect', x: left, y: middle - 5, width: doneRight - left, height: 10, fill: colors.done });
+  if (row.isCritical) shapes.push({ type: 'rect', x: left, y: middle - 5, width: right - left, height: 10, stroke: COLORS.critical, lineWidth: 1.2 });
+}
+
+/**
+ * Draws one sheet of the chart: the header, the task table on the left and
+ * the timeline on the right, with as many rows as it is given.
+ */
+function drawSheet(rows: GanttRow[], options: GanttExportOptions, layout: SheetLayout): Drawing {
+  const shapes: Shape[] = [];
+  const { width, height, from, to } = layout;
+  const columns = columnsOf(options);
+  const timelineLeft = MARGIN + tableWidth(options);
+  const timelineRight = width - MARGIN;
+  const totalDays = differenceInCalendarDays(to, from) + 1;
+  const dayWidth = (timelineRight - timelineLeft) / totalDays;
+  const dayX = (date: Date) => timelineLeft + differenceInCalendarDays(date, from) * dayWidth;
+
+  // Header
+  const statusDate = parseRangeDate(options.statusDate, 'status') || startOfDay(new Date());
+  shapes.push({ type: 'text', x: MARGIN, y: MARGIN + 14, text: fitText(options.projectName, width - MARGIN * 2 - 90, 16, true), size: 16, bold: true, color: COLORS.text });
+  shapes.push({
+    type: 'text', x: MARGIN, y: MARGIN + 30, size: 9, color: COLORS.muted,
+    text: `Status date: ${format(statusDate, 'MMM d, yyyy')}  ·  ${format(from, 'MMM d, yyyy')} – ${format(to, 'MMM d, yyyy')}`
+  });
+  if (layout.pageLabel) {
+    shapes.push({ type: 'text', x: width - MARGIN, y: MARGIN + 14, text: layout.pageLabel, size: 9, color: COLORS.muted, align: 'right' });
+  }
+
+  const scaleTop = MARGIN + HEADER_HEIGHT;
+  const rowsTop = scaleTop + SCALE_HEIGHT;
+  const rowsBottom = rowsTop + Math.max(rows.length, 1) * ROW_HEIGHT;
+
+  // Weekends and holidays, merged into runs of days
+  if (dayWidth >= 3) {
+    const projectCalendar = resolveCalendar(options.calendar);
+    let runStart: Date | null = null;
+    for (const day of [...eachDayOfInterval({ start: from, end: to }), addDays(to, 1)]) {
+      const off = day <= to && !isWorkingDay(day, projectCalendar);
+      if (off && !runStart) runStart = day;
+      if (!off && runStart) {
+        shapes.push({ type: 'rect', x: dayX(runStart), y: rowsTop, width: dayX(day) - dayX(runStart), height: rowsBottom - rowsTop, fill: COLORS.nonWorking });
+        runStart = null;
+      }
+    }
+  }
+
+  // Table and timeline headings
+  shapes.push({ type: 'rect', x: MARGIN, y: scaleTop, width: timelineLeft - MARGIN, height: SCALE_HEIGHT, fill: COLORS.headerFill });
+  let columnLeft = MARGIN;
+  for (const column of columns) {
+    shapes.push({ type: 'text', x: columnLeft + 3, y: scaleTop + 19, text: fitText(column.label, column.width - 6, TEXT_SIZE, true), size: TEXT_SIZE, bold: true, color: COLORS.text });
+    columnLeft += column.width;
+  }
+  drawScale(shapes, timelineLeft, scaleTop, dayWidth, from, to);
+
+  // Rows
+  rows.forEach((row, index) => {
+    const top = rowsTop + index * ROW_HEIGHT;
+    let left = MARGIN;
+    for (const column of columns) {
+      const indent = column.value === 'name' ? (row.level - 1) * INDENT : 0;
+      const bold = column.value === 'name' && row.isSummary;
+      const text = fitText(cellText(row, column.value), column.width - 6 - indent, TEXT_SIZE, bold);
+      shapes.push({ type: 'text', x: left + 3 + indent, y: top + 12, text, size: TEXT_SIZE, bold, color: COLORS.text });
+      left += column.width;
+    }
+    drawBar(shapes, row, top, dayX, dayWidth, { left: timelineLeft, right: timelineRight });
+    shapes.push({ type: 'line', x1: MARGIN, y1: top + ROW_HEIGHT, x2: timelineRight, y2: top + ROW_HEIGHT, stroke: COLORS.grid, lineWidth: 0.5 });
+  });
+  if (rows.length === 0) {
+    shapes.push({ type: 'text', x: MARGIN + 3, y: rowsTop + 12, text: 'No tasks in this date range.', size: TEXT_SIZE, color: COLORS.muted });
+  }
+
+  // Frame, column separators and the status date line
+  shapes.push({ type: 'rect', x: MARGIN, y: scaleTop, width: timelineRight - MARGIN, height: rowsBottom - scaleTop, stroke: COLORS.muted, lineWidth: 0.75 });
+  columnLeft = MARGIN;
+  for (const column of columns.slice(0, -1)) {
+    columnLeft += column.width;
+    shapes.push({ type: 'line', x1: columnLeft, y1: scaleTop, x2: columnLeft, y2: rowsBottom, stroke: COLORS.grid, lineWidth: 0.5 });
+  }
+  shapes.push({ type: 'line', x1: timelineLeft, y1: scaleTop, x2: timelineLeft, y2: rowsBottom, stroke: COLORS.muted, lineWidth: 0.75 });
+  shapes.push({ type: 'line', x1: MARGIN, y1: rowsTop, x2: timelineRight, y2: rowsTop, stroke: COLORS.muted, lineWidth: 0.75 });
+
+  if (statusDate >= from && statusDate <= to) {
+    // Work on the status date counts as done, so the line sits at the end of that day
+    const x = dayX(addDays(statusDate, 1));
+    shapes.push({ type: 'line', x1: x, y1: scaleTop + SCALE_HEIGHT / 2, x2: x, y2: rowsBottom, stroke: COLORS.statusDate, lineWidth: 1, dashed: true });
+  }
+
+  if (options.legend) drawLegend(shapes, MARGIN, height - MARGIN - 6, options);
+
+  return { width, height, shapes };
+}
+
+// Days get narrower as the range grows, so long plans still make a readable image
+const imageDayWidth = (days: number) => days <= 62 ? 18 : days <= 183 ? 7 : 3;
+
+/**
+ * Lays the chart out for export. Images are one drawing sized to fit every
+ * row; PDFs are split into pages of the chosen size, each repeating the
+ * header, scale and legend, with the date range fitted to the page width.
+ */
+export function buildGanttDrawings(tasks: Task[], exportFormat: GanttExportFormat, options: GanttExportOptions): Drawing[] {
+  const { rows, from, to } = buildRows(tasks, options);
+  const totalDays = differenceInCalendarDays(to, from) + 1;
+
+  if (exportFormat !== 'pdf') {
+    const width = Math.max(
+      MARGIN * 2 + tableWidth(options) + Math.max(MIN_TIMELINE_WIDTH, totalDays * imageDayWidth(totalDays)),
+      options.legend ? MARGIN * 2 + legendWidth(options) : 0
+    );
+    const height = chromeHeight(options) + Math.max(rows.length, 1) * ROW_HEIGHT;
+    return [drawSheet(rows, options, { width, height, from, to })];
+  }
+
+  const page = GANTT_PAGE_SIZES.find(size => size.value === options.pageSize) || GANTT_PAGE_SIZES[0];
+  if (page.width - MARGIN * 2 - tableWidth(options) < MIN_TIMELINE_WIDTH) {
+    throw new Error(`The columns don't leave room for the timeline on ${page.label} paper. Remove some columns or pick a larger page.`);
+  }
+  const rowsPerPage = Math.max(1, Math.floor((page.height - chromeHeight(options)) / ROW_HEIGHT));
+  const pageCount = Math.max(1, Math.ceil(rows.length / rowsPerPage));
+
+  return Array.from({ length: pageCount }, (_, index) => drawSheet(
+    rows.slice(index * rowsPerPage, (index + 1) * rowsPerPage),
+    options,
+    { width: page.width, height: page.height, from, to, pageLabel: `Page ${index + 1} of ${pageCount}` }
+  ));
+}
+
+export async function exportGantt(tasks: Task[], exportFormat: GanttExportFormat, options: GanttExportOptions) {
+  const drawings = buildGanttDrawings(tasks, exportFormat, options);
+  const fileName = `${options.projectName}_Gantt_${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  if (exportFormat === 'pdf') {
+    downloadBlob(await writePdf(drawings, `${options.projectName} - Gantt chart`), fileName);
+  } else if (exportFormat === 'png') {
+    downloadBlob(await drawingToPng(drawings[0]), fileName);
+  } else {
+    downloadBlob(new Blob([drawingToSvg(drawings[0])], { type: 'image/svg+xml;charset=utf-8;' }), fileName);
+  }
+}
@@ -0,0 +1,11 @@
+import { calendarName, generateICS, IcsOptions, IcsTask } from "../../supabase/functions/_shared/ics";
+import { downloadBlob } from "@/utils/download";
+
+export { calendarName, filterCalendarTasks, generateICS } from "../../supabase/functions/_shared/ics";
+export type { IcsOptions, IcsTask } from "../../supabase/functions/_shared/ics";
+
+export function exportToICS(projectName: string, tasks: IcsTask[], options: IcsOptions = {}) {
+  const name = calendarName(projectName, options);
+  const blob = new Blob([generateICS(name, tasks, options)], { type: 'text/calendar;charset=utf-8;' });
+  downloadBlob(blob, `${name}_${new Date().toISOString().slice(0, 10)}.ics`);
+}
@@ -0,0 +1,108 @@
+import { Task, TaskDependency } from "@/types/project";
+import { normalizeDependencies } from "@/utils/dependencies";
+import { ImportedTask } from "@/utils/mspdiImport";
+
+export interface TaskChange {
+  task: Task;                // The task as it is now
+  updates: Partial<Task>;    // Only the properties that differ
+  fields: (keyof Task)[];
+}
+
+export interface ImportDiff {
+  created: ImportedTask[];
+  changed: TaskChange[];
+  unchanged: Task[];
+  removed: Task[];
+}
+
+/**
+ * Indexes tasks by the keys an import row can match them by: their
+ * external_id, or their own ID, so a re-imported export finds its tasks too.
+ */
+function indexByKey(tasks: Task[]): Map<string, Task> {
+  const index = new Map<string, Task>();
+  tasks.forEach(task => index.set(task.id, task));
+  tasks.forEach(task => task.external_id && index.set(task.external_id, task));
+  return index;
+}
+
+const remapDependency = (dependency: TaskDependency, ids: Map<string, string>): TaskDependency =>
+  typeof dependency === 'string'
+    ? ids.get(dependency) || dependency
+    : { ...dependency, task_id: ids.get(dependency.task_id) || dependency.task_id };
+
+// Dates may be stored with a time part and links as plain IDs; neither counts as a change
+function isSameValue(field: keyof Task, current: unknown, incoming: unknown): boolean {
+  if (field === 'start_date' || field === 'end_date') {
+    return String(current || '').slice(0, 10) === String(incoming || '').slice(0, 10);
+  }
+  if (field === 'dependencies') {
+    return JSON.stringify(normalizeDependencies(current)) === JSON.stringify(normalizeDependencies(incoming));
+  }
+  if (typeof incoming === 'object' || typeof current === 'object') {
+    return JSON.stringify(current ?? null) === JSON.stringify(incoming ?? null);
+  }
+  return (current ?? '') === (incoming ?? '');
+}
+
+/**
+ * Works out what an upsert import would do. Incoming tasks are matched to
+ * existing ones by external_id; only `fields` (the properties the import
+ * file has columns for) are compared and updated. `removed` lists imported
+ * tasks whose key is no longer in the file, for the caller to offer deleting.
+ */
+export function diffUpsert(existing: Task[], incoming: ImportedTask[], fields: (keyof Task)[]): ImportDiff {
+  const byKey = indexByKey(existing);
+  const matches = new Map<string, Task>();
+  incoming.forEach(task => {
+    const match = task.external_id && byKey.get(task.external_id);
+    if (match) matches.set(task.id, match);
+  });
+
+  // Links between rows of the file point at their matched tasks from here on
+  const ids = new Map([...matches].map(([incomingId, task]) => [incomingId, task.id]));
+  const remapped = incoming.map(task => ({
+    ...task,
+    parent_id: task.parent_id ? ids.get(task.parent_id) || task.parent_id : null,
+    dependencies: task.dependencies.map(dependency => remapDependency(dependency, ids))
+  }));
+
+  const diff: ImportDiff = { created: [], changed: [], unchanged: [], removed: [] };
+  remapped.forEach(task => {
+    const current = matches.get(task.id);
+    if (!current) {
+      diff.created.push(task);
+      return;
+    }
+
+    const updates: Partial<Task> = {};
+    fields.forEach(field => {
+      // Custom fields the file has no value for keep their current value
+      const value = field === 'custom_fields'
+        ? { ...current.custom_fields, ...task.custom_fields }
+        : task[field];
+      if (!isSameValue(field, current[field], value)) {
+        (updates as Record<string, unknown>)[field] = value;
+      }
+    });
+
+    const changedFields = Object.keys(updates) as (keyof Task)[];
+    if (changedFields.length > 0) diff.changed.push({ task: current, updates, fields: changedFields });
+    else diff.unchanged.push(current);
+  });
+
+  const matchedIds = new Set([...matches.values()].map(task => task.id));
+  diff.removed = existing.filter(task => task.external_id && !matchedIds.has(task.id));
+  return diff;
+}
+
+// Finds the tasks a delete import names by key
+export function diffDelete(existing: Task[], keys: string[]): ImportDiff {
+  const byKey = indexByKey(existing);
+  const removed = new Map<string, Task>();
+  keys.forEach(key => {
+    const task = byKey.get(key);
+    if (task) removed.set(task.id, task);
+  });
+  return { created: [], changed: [], unchanged: [], removed: [...removed.values()] };
+}
@@ -0,0 +1,49 @@
+import { ImportDateFormat, ImportProfile, ImportTranslations } from "@/types/project";
+import { generateId } from "@/utils/idGenerator";
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+// Saves the mapped columns only; unmapped fields are left for the dialog's own guesses
+export function createImportProfile(
+  name: string,
+  headers: string[],
+  mappings: ImportProfile['mappings'],
+  translations?: ImportTranslations,
+  dateFormat?: ImportDateFormat
+): ImportProfile {
+  return {
+    id: generateId(),
+    name,
+    headers,
+    mappings: mappings.filter(mapping => mapping.csvColumn),
+    translations,
+    date_format: dateFormat,
+    created_at: new Date().toISOString()
+  };
+}
+
+/**
+ * Finds the saved profile for a file's headers. A profile saved from a file
+ * with exactly the same headers wins; otherwise the profile that maps the
+ * most columns, all of which the file has, is used.
+ */
+export function findMatchingProfile(profiles: ImportProfile[], headers: string[]): ImportProfile | undefined {
+  const incoming = new Set(headers.map(normalizeHeader));
+  const sameHeaders = (profile: ImportProfile) =>
+    profile.headers.length === incoming.size && profile.headers.every(header => incoming.has(normalizeHeader(header)));
+
+  const exact = profiles.find(sameHeaders);
+  if (exact) return exact;
+
+  return profiles
+    .filter(profile => profile.mappings.length > 0 && profile.mappings.every(mapping => incoming.has(normalizeHeader(mapping.csvColumn))))
+    .sort((a, b) => b.mappings.length - a.mappings.length)[0];
+}
+
+// Maps a profile's columns onto the file's own header spelling
+export function applyImportProfile(profile: ImportProfile, headers: string[]): ImportProfile['mappings'] {
+  const byName = new Map(headers.map(header => [normalizeHeader(header), header]));
+  return profile.mappings
+    .filter(mapping => byName.has(normalizeHeader(mapping.csvColumn)))
+    .map(mapping => ({ ...mapping, csvColumn: byName.get(normalizeHeader(mapping.csvColumn))! }));
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types/project";
+import { buildTasksFromRows, MappedRow, validateMappedRows } from "@/utils/importWithMapping";
+
+const row = (rowNumber: number, values: Record<string, string>): MappedRow => ({ rowNumber, values });
+
+const existingTask = (id: string, name: string, extra: Partial<Task> = {}): Task => ({
+  id,
+  project_id: 'project',
+  name,
+  task_type: 'task',
+  status: 'not-started',
+  start_date: '2025-03-03',
+  end_date: '2025-03-04',
+  dependencies: [],
+  progress: 0,
+  created_at: '',
+  updated_at: '',
+  ...extra
+});
+
+// Links of the last row, by the name of the task each one points at
+const linksOfLastRow = (rows: MappedRow[], existingTasks: Task[] = []) => {
+  const { tasks, issues } = buildTasksFromRows(rows, [], existingTasks, { dateFormat: 'iso' });
+  const names = new Map([...existingTasks, ...tasks].map(task => [task.id, task.name]));
+  return {
+    links: tasks[tasks.length - 1].dependencies.map(link => typeof link === 'string' ? link : { ...link, task_id: names.get(link.task_id) }),
+    issues: issues[issues.length - 1]
+  };
+};
+
+const dated = (values: Record<string, string>) => ({ startDate: '2025-03-03', endDate: '2025-03-04', ...values });
+
+describe('buildTasksFromRows', () => {
+  it('reports rows it leaves out instead of dropping them silently', () => {
+    const { tasks, issues } = buildTasksFromRows([
+      row(2, { name: 'Design', startDate: '2025-03-03', endDate: '2025-03-05' }),
+      row(3, { name: '', startDate: '2025-03-03', endDate: '2025-03-05' }),
+      row(4, { name: 'Build', startDate: 'soon', endDate: '2025-03-05' })
+    ], [], [], { dateFormat: 'iso' });
+
+    expect(tasks.map(task => task.name)).toEqual(['Design']);
+    expect(issues).toEqual([
+      [],
+      [{ field: 'name', message: 'Task name is missing' }],
+      [{ field: 'startDate', message: '"soon" is not a date' }]
+    ]);
+  });
+
+  it('keeps a row whose dependency cannot be resolved but reports the dropped link', () => {
+    const { tasks, issues } = buildTasksFromRows([
+      row(2, { name: 'Design', startDate: '2025-03-03', endDate: '2025-03-05', dependencies: 'Nothing' })
+    ], [], [], { dateFormat: 'iso' });
+
+    expect(tasks[0].dependencies).toEqual([]);
+    expect(issues).toEqual([[{ field: 'dependencies', message: '"Nothing" matches no task' }]]);
+  });
+});
+
+describe('dependency references', () => {
+  it('reads the type and lag, including leads, after a row number or name', () => {
+    const { links, issues } = linksOfLastRow([
+      row(2, dated({ name: 'Design' })),
+      row(3, dated({ name: 'Build' })),
+      row(4, dated({ name: 'Test', dependencies: '2FS+2d; Build SS-1d; Design FF+1w' }))
+    ]);
+
+    expect(issues).toEqual([]);
+    expect(links).toEqual([
+      { task_id: 'Design', type: 'FS', lag: 2 },
+      { task_id: 'Build', type: 'SS', lag: -1 },
+      { task_id: 'Design', type: 'FF', lag: 5 }
+    ]);
+  });
+
+  it('prefers External IDs and WBS codes over row numbers, and row numbers over names', () => {
+    const { links } = linksOfLastRow([
+      row(2, dated({ name: '3', externalId: 'X-1', wbs: '1' })),
+      row(3, dated({ name: 'Build', externalId: '2', wbs: '1.1' })),
+      row(4, dated({ name: 'Test', dependencies: '2, 3, X-1' }))
+    ]);
+
+    expect(links.map(link => typeof link === 'string' ? link : link.task_id)).toEqual(['Build', 'Build', '3']);
+  });
+
+  it('matches a whole task name before reading it as a link type', () => {
+    const { links } = linksOfLastRow([
+      row(2, dated({ name: 'Proce' })),
+      row(3, dated({ name: 'Process' })),
+      row(4, dated({ name: 'Report', dependencies: 'Process' }))
+    ]);
+
+    expect(links).toEqual([{ task_id: 'Process', type: 'FS', lag: 0 }]);
+  });
+
+  it('falls back to tasks already in the project by External ID, WBS code and name', () => {
+    const existing = [
+      existingTask('a', 'Kickoff', { external_id: 'K-1' }),
+      existingTask('b', 'Plan'),
+      existingTask('c', 'Budget', { parent_id: 'b' })
+    ];
+
+    const { links } = linksOfLastRow([row(2, dated({ name: 'Build', dependencies: 'K-1, 2.1SF, plan' }))], existing);
+
+    expect(links).toEqual([
+      { task_id: 'Kickoff', type: 'FS', lag: 0 },
+      { task_id: 'Budget', type: 'SF', lag: 0 },
+      { task_id: 'Plan', type: 'FS', lag: 0 }
+    ]);
+  });
+
+  it('prefers rows in the file over tasks already in the project', () => {
+    const { tasks } = buildTasksFromRows(
+      [row(2, dated({ name: 'Design' })), row(3, dated({ name: 'Build', dependencies: 'Design' }))],
+      [],
+      [existingTask('old', 'Design')],
+      { dateFormat: 'iso' }
+    );
+
+    expect(tasks[1].dependencies).toEqual([{ task_id: tasks[0].id, type: 'FS', lag: 0 }]);
+  });
+
+  it('flags names shared by several rows, unknown references and links to the row itself', () => {
+    const issues = validateMappedRows([
+      row(2, dated({ name: 'Review' })),
+      row(3, dated({ name: 'Review' })),
+      row(4, dated({ name: 'Ship', dependencies: 'review; Launch' })),
+      row(5, dated({ name: 'Loop', dependencies: '5' }))
+    ], []);
+
+    expect(issues[2]).toEqual([{
+      field: 'dependencies',
+      message: '"review" matches 2 tasks; use a row number or WBS code; "Launch" matches no task'
+    }]);
+    expect(issues[3]).toEqual([{ field: 'dependencies', message: '"5" is this task itself' }]);
+  });
+});
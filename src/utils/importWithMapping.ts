@@ -1,81 +1,367 @@
-// @ts-nocheck
-import { Task, TaskStatus, TaskType, CustomField, FieldType } from "@/types/project";
+import { format, isBefore } from "date-fns";
+import {
+  Task,
+  TaskStatus,
+  TaskType,
+  CustomField,
+  FieldType,
+  DependencyLink,
+  DependencyType,
+  ImportDateFormat,
+  ImportTranslations
+} from "@/types/project";
+import { generateId } from "@/utils/idGenerator";
+import { ParsedCsv } from "@/utils/csvParser";
+import { ImportedTask } from "@/utils/mspdiImport";
+import { parseDependency } from "@/utils/dependencies";
+import { DATE_FORMAT_LABELS, parseImportDate } from "@/utils/dateFormats";
+import { buildWbs, levelFromWbs, parentsFromOutlineLevels } from "@/utils/wbs";
 
-interface FieldMapping {
+export interface FieldMapping {
   csvColumn: string;
   appField: string;
 }
 
-export function importFromCSVWithMapping(
-  csvContent: string, 
-  mappings: FieldMapping[],
-  customFields: CustomField[] = []
-): Omit<Task, 'id'>[] {
-  const lines = csvContent.trim().split('\n');
-  
-  if (lines.length < 2) {
+// A CSV row's trimmed values keyed by the app field their column is mapped to,
+// e.g. 'startDate' or 'custom_<field id>'
+export interface MappedRow {
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+export interface RowIssue {
+  field: string; // App field of the cell the problem is in, or '' when it is about the whole row
+  message: string;
+}
+
+export interface BuiltTasks {
+  tasks: ImportedTask[];
+  issues: RowIssue[][]; // Why each row was left out or imported without some of its values, by row
+}
+
+export interface ImportOptions {
+  translations?: ImportTranslations;
+  dateFormat?: ImportDateFormat; // Without one, dates are read in the browser locale's day-month order
+}
+
+export interface ColumnValue {
+  value: string; // As first spelled in the file
+  count: number;
+}
+
+export const TASK_TYPES: TaskType[] = ['task', 'milestone', 'deliverable'];
+export const TASK_STATUSES: TaskStatus[] = [
+  'not-started', 'in-progress', 'completed', 'on-hold', 'impacted', 'on-going', 'dev-in-progress', 'done'
+];
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no', '1', '0'];
+
+// Fields created before field_type existed store their type as `type`
+const getFieldType = (field: CustomField): FieldType => field.field_type || field.type || 'text';
+
+export const normalizeStatus = (value: string) => value.toLowerCase().replace(/\s+/g, '-');
+
+const splitDependencies = (value: string): string[] =>
+  value.split(/[,;]/).map(dep => dep.trim()).filter(dep => dep.length > 0);
+
+// The key that matches a row to a task on later imports: the External ID column. WBS codes
+// shift as the outline changes, so they only match tasks that stored one as their external_id.
+export const getRowKey = (row: MappedRow): string => row.values.externalId || '';
+
+// Task properties each app field fills in
+const TASK_FIELDS: Record<string, keyof Task> = {
+  name: 'name',
+  type: 'task_type',
+  status: 'status',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  assignee: 'assignee',
+  progress: 'progress',
+  dependencies: 'dependencies',
+  description: 'description',
+  wbs: 'parent_id',
+  outlineLevel: 'parent_id'
+};
+
+/**
+ * Lists the task properties the mapped columns fill in, so an update can
+ * leave everything else as it is.
+ */
+export function getMappedTaskFields(mappings: FieldMapping[]): (keyof Task)[] {
+  const fields = new Set<keyof Task>();
+  mappings.forEach(({ csvColumn, appField }) => {
+    if (!csvColumn) return;
+    if (appField.startsWith('custom_')) fields.add('custom_fields');
+    else if (TASK_FIELDS[appField]) fields.add(TASK_FIELDS[appField]);
+  });
+  return [...fields];
+}
+
+// A row of the file, by index, or the ID of a task already in the project
+type DependencyTarget = number | string;
+
+type ResolvedDependency =
+  | { target: DependencyTarget; type: DependencyType; lag: number }
+  | { error: string };
+
+/**
+ * Builds a function that finds the task a dependency reference such as
+ * "Design", "1.2", "7" or "3FS+2d" points at. Keys and WBS codes win over row
+ * numbers, and row numbers over names; rows in the file win over tasks
+ * already in the project.
+ */
+function createDependencyResolver(rows: MappedRow[], existingTasks: Task[]) {
+  const tiers = Array.from({ length: 5 }, () => new Map<string, Set<DependencyTarget>>());
+  const add = (tier: number, key: string | null | undefined, target: DependencyTarget) => {
+    if (!key) return;
+    const matches = tiers[tier].get(key.toLowerCase()) || new Set<DependencyTarget>();
+    tiers[tier].set(key.toLowerCase(), matches.add(target));
+  };
+
+  rows.forEach((row, index) => {
+    add(0, row.values.externalId, index);
+    add(0, row.values.wbs, index);
+    add(1, String(row.rowNumber), index);
+    add(2, row.values.name, index);
+  });
+  buildWbs(existingTasks).forEach(({ task, wbs }) => {
+    add(3, task.external_id, task.id);
+    add(3, task.id, task.id);
+    add(3, wbs, task.id);
+    add(4, task.name, task.id);
+  });
+
+  const find = (reference: string): DependencyTarget[] => {
+    const tier = tiers.find(matches => matches.has(reference.toLowerCase()));
+    return tier ? [...tier.get(reference.toLowerCase())!] : [];
+  };
+
+  return (text: string): ResolvedDependency => {
+    // The whole text is tried first, so a task called "Process" isn't read as "Proce" SS
+    let matches = find(text);
+    let link: { type: DependencyType; lag: number } = { type: 'FS', lag: 0 };
+    const parsed = matches.length === 0 ? parseDependency(text) : null;
+    if (parsed) {
+      matches = find(parsed.reference);
+      link = parsed;
+    }
+
+    if (matches.length === 0) return { error: `"${text}" matches no task` };
+    if (matches.length > 1) return { error: `"${text}" matches ${matches.length} tasks; use a row number or WBS code` };
+    return { target: matches[0], ...link };
+  };
+}
+
+/**
+ * Lists the distinct non-empty values of a column, ignoring case, with how
+ * many rows have each, most common first.
+ */
+export function listColumnValues(csv: ParsedCsv, column: string): ColumnValue[] {
+  const index = csv.headers.indexOf(column);
+  if (index === -1) return [];
+
+  const values = new Map<string, ColumnValue>();
+  csv.rows.forEach(row => {
+    const value = row[index]?.trim();
+    if (!value) return;
+    const entry = values.get(value.toLowerCase()) || { value, count: 0 };
+    entry.count++;
+    values.set(value.toLowerCase(), entry);
+  });
+  return [...values.values()].sort((a, b) => b.count - a.count);
+}
+
+const translateValue = (value: string, translation: ImportTranslations['status']): string => {
+  if (!value || !translation) return value;
+  return translation.values[value.toLowerCase()] || translation.fallback || value;
+};
+
+/**
+ * Picks the mapped columns out of every CSV row. Mappings to columns the
+ * file doesn't have are ignored. Status and type values are translated to
+ * the app's own as set up in `options.translations`.
+ */
+export function mapCsvRows(csv: ParsedCsv, mappings: FieldMapping[], options: ImportOptions = {}): MappedRow[] {
+  if (csv.rows.length === 0) {
     throw new Error('CSV file must contain at least a header row and one data row');
   }
 
-  // Parse header row
-  const headers = parseCSVRow(lines[0]);
-  
-  // Create mapping lookup
-  const fieldMapping = new Map<string, string>();
-  mappings.forEach(mapping => {
-    if (mapping.csvColumn && mapping.appField) {
-      const columnIndex = headers.findIndex(h => h.trim() === mapping.csvColumn.trim());
-      if (columnIndex !== -1) {
-        fieldMapping.set(mapping.appField, mapping.csvColumn);
-      }
+  const columns = mappings
+    .filter(mapping => mapping.csvColumn && mapping.appField)
+    .map(mapping => ({ field: mapping.appField, index: csv.headers.indexOf(mapping.csvColumn.trim()) }))
+    .filter(column => column.index !== -1);
+
+  return csv.rows.map((row, i) => {
+    const values: Record<string, string> = {};
+    columns.forEach(({ field, index }) => {
+      values[field] = row[index]?.trim() || '';
+    });
+    if (values.status) values.status = translateValue(values.status, options.translations?.status);
+    if (values.type) values.type = translateValue(values.type, options.translations?.type);
+    return { rowNumber: csv.rowNumbers[i], values };
+  });
+}
+
+// Lists everything that would stop a row from importing as entered
+function validateMappedRow(
+  row: MappedRow,
+  index: number,
+  customFields: CustomField[],
+  resolveDependency: ReturnType<typeof createDependencyResolver>,
+  dateFormat: ImportDateFormat | undefined
+): RowIssue[] {
+  const issues: RowIssue[] = [];
+  const value = (field: string) => row.values[field] || '';
+  const parseDate = (text: string) => parseImportDate(text, dateFormat);
+  const notADate = (text: string) =>
+    dateFormat ? `"${text}" is not a date in the ${DATE_FORMAT_LABELS[dateFormat]} format` : `"${text}" is not a date`;
+
+  if (!value('name')) {
+    issues.push({ field: 'name', message: 'Task name is missing' });
+  }
+
+  const startDate = parseDate(value('startDate'));
+  const endDate = parseDate(value('endDate'));
+  if (!startDate) {
+    issues.push({ field: 'startDate', message: value('startDate') ? notADate(value('startDate')) : 'Start date is missing' });
+  }
+  if (!endDate) {
+    issues.push({ field: 'endDate', message: value('endDate') ? notADate(value('endDate')) : 'End date is missing' });
+  }
+  if (startDate && endDate && isBefore(endDate, startDate)) {
+    issues.push({ field: 'endDate', message: 'End date is before the start date' });
+  }
+
+  if (value('type') && !TASK_TYPES.includes(value('type').toLowerCase() as TaskType)) {
+    issues.push({ field: 'type', message: `Unknown type "${value('type')}"; expected one of ${TASK_TYPES.join(', ')}` });
+  }
+  if (value('status') && !TASK_STATUSES.includes(normalizeStatus(value('status')) as TaskStatus)) {
+    issues.push({ field: 'status', message: `Unknown status "${value('status')}"` });
+  }
+  if (value('progress') && isNaN(parseFloat(value('progress').replace('%', '')))) {
+    issues.push({ field: 'progress', message: `"${value('progress')}" is not a number` });
+  }
+
+  const dependencyErrors = splitDependencies(value('dependencies')).flatMap(reference => {
+    const resolved = resolveDependency(reference);
+    if ('error' in resolved) return [resolved.error];
+    return resolved.target === index ? [`"${reference}" is this task itself`] : [];
+  });
+  if (dependencyErrors.length > 0) {
+    issues.push({ field: 'dependencies', message: dependencyErrors.join('; ') });
+  }
+
+  customFields.forEach(field => {
+    const key = `custom_${field.id}`;
+    const fieldValue = value(key);
+    if (!fieldValue) {
+      if (field.required) issues.push({ field: key, message: `${field.name} is required` });
+      return;
+    }
+
+    const type = getFieldType(field);
+    if (type === 'number' && isNaN(parseFloat(fieldValue))) {
+      issues.push({ field: key, message: `"${fieldValue}" is not a number` });
+    } else if (type === 'date' && !parseDate(fieldValue)) {
+      issues.push({ field: key, message: notADate(fieldValue) });
+    } else if (type === 'boolean' && !BOOLEAN_VALUES.includes(fieldValue.toLowerCase())) {
+      issues.push({ field: key, message: `"${fieldValue}" is not yes/no or true/false` });
+    } else if (type === 'select' && Array.isArray(field.options) && !field.options.includes(fieldValue)) {
+      issues.push({ field: key, message: `"${fieldValue}" is not one of the ${field.name} options` });
     }
   });
 
-  const tasks: Omit<Task, 'id'>[] = [];
+  return issues;
+}
 
-  // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    try {
-      const row = parseCSVRow(lines[i]);
-      
-      if (row.length === 0) {
-        continue; // Skip empty rows
-      }
+/**
+ * Validates every row. Dependencies may refer to rows in the same file or to
+ * tasks already in the project. Keys (see getRowKey) must be unique within
+ * the file. With `requireKey`, each row needs a key to be matched to a task
+ * by; without it the rows create tasks, so their keys must not be taken yet.
+ */
+export function validateMappedRows(
+  rows: MappedRow[],
+  customFields: CustomField[],
+  existingTasks: Task[] = [],
+  { requireKey = false, dateFormat }: { requireKey?: boolean; dateFormat?: ImportDateFormat } = {}
+): RowIssue[][] {
+  const resolveDependency = createDependencyResolver(rows, existingTasks);
 
-      const getValue = (field: string): string => {
-        const columnName = fieldMapping.get(field);
-        if (!columnName) return '';
-        
-        const columnIndex = headers.findIndex(h => h.trim() === columnName.trim());
-        return columnIndex !== -1 ? (row[columnIndex]?.trim() || '') : '';
-      };
+  const rowsByKey = new Map<string, number[]>();
+  rows.forEach(row => {
+    const key = getRowKey(row);
+    if (key) rowsByKey.set(key, [...(rowsByKey.get(key) || []), row.rowNumber]);
+  });
+
+  return rows.map((row, index) => {
+    const issues = validateMappedRow(row, index, customFields, resolveDependency, dateFormat);
+    const key = getRowKey(row);
+    const sharedWith = (rowsByKey.get(key) || []).filter(rowNumber => rowNumber !== row.rowNumber);
+    const owner = !requireKey && key ? existingTasks.find(task => task.external_id === key) : undefined;
+    if (requireKey && !key) {
+      issues.push({ field: 'externalId', message: 'External ID is missing' });
+    } else if (key && sharedWith.length > 0) {
+      issues.push({ field: 'externalId', message: `"${key}" is also used on row ${sharedWith.join(', ')}` });
+    } else if (owner) {
+      issues.push({
+        field: 'externalId',
+        message: `"${key}" already belongs to "${owner.name}"; import in update mode to change that task`
+      });
+    }
+    return issues;
+  });
+}
+
+/**
+ * Turns mapped rows into tasks. Rows without a name or valid dates are left
+ * out and dependencies that can't be resolved are dropped; each is reported
+ * in `issues` under its row, so the caller can show why.
+ */
+export function buildTasksFromRows(
+  rows: MappedRow[],
+  customFields: CustomField[] = [],
+  existingTasks: Task[] = [],
+  { dateFormat }: ImportOptions = {}
+): BuiltTasks {
+  const tasks: (Omit<ImportedTask, 'dependencies'> & { dependencies: DependencyLink[] })[] = [];
+  const issues: RowIssue[][] = rows.map(() => []);
+  const outlineLevels: number[] = [];
+  const wbsCodes: string[] = [];
+  const hasHierarchy = rows.some(row => 'wbs' in row.values || 'outlineLevel' in row.values);
+
+  // IDs are assigned up front so rows can point at each other
+  const rowIds = rows.map(() => generateId());
+  const importedRows = new Set<number>();
+  const resolveDependency = createDependencyResolver(rows, existingTasks);
+
+  rows.forEach((row, index) => {
+    const rowIssues = issues[index];
+    try {
+      const getValue = (field: string): string => row.values[field] || '';
 
       const name = getValue('name');
-      if (!name) continue; // Skip rows without task name
+      if (!name) {
+        rowIssues.push({ field: 'name', message: 'Task name is missing' });
+        return;
+      }
 
       // Parse dates
-      const startDateStr = getValue('startDate');
-      const endDateStr = getValue('endDate');
-      
-      const startDate = parseDate(startDateStr);
-      const endDate = parseDate(endDateStr);
+      const startDate = parseImportDate(getValue('startDate'), dateFormat);
+      const endDate = parseImportDate(getValue('endDate'), dateFormat);
       
       if (!startDate || !endDate) {
-        console.warn(`Skipping row ${i + 1}: Invalid date format`);
-        continue;
+        if (!startDate) rowIssues.push({ field: 'startDate', message: `"${getValue('startDate')}" is not a date` });
+        if (!endDate) rowIssues.push({ field: 'endDate', message: `"${getValue('endDate')}" is not a date` });
+        return;
       }
 
       // Parse type with fallback
-      const typeValue = getValue('type').toLowerCase().trim() || 'task';
-      const type: TaskType = ['task', 'milestone', 'deliverable'].includes(typeValue) 
-        ? typeValue as TaskType 
-        : 'task';
+      const typeValue = (getValue('type').toLowerCase() || 'task') as TaskType;
+      const type: TaskType = TASK_TYPES.includes(typeValue) ? typeValue : 'task';
 
       // Parse status with fallback
-      const statusValue = getValue('status').toLowerCase().replace(/\s+/g, '-').trim() || 'not-started';
-      const status: TaskStatus = ['not-started', 'in-progress', 'completed', 'on-hold'].includes(statusValue)
-        ? statusValue as TaskStatus
-        : 'not-started';
+      const statusValue = (normalizeStatus(getValue('status')) || 'not-started') as TaskStatus;
+      const status: TaskStatus = TASK_STATUSES.includes(statusValue) ? statusValue : 'not-started';
 
       // Parse progress
       let progress = 0;
@@ -87,152 +373,98 @@ export function importFromCSVWithMapping(
         }
       }
 
-      // Parse dependencies
-      const dependencies: string[] = [];
-      const dependenciesStr = getValue('dependencies');
-      if (dependenciesStr) {
-        dependencies.push(...dependenciesStr
-          .split(/[,;]/)
-          .map(dep => dep.trim())
-          .filter(dep => dep.length > 0)
-        );
-      }
+      const dependencies: DependencyLink[] = [];
+      splitDependencies(getValue('dependencies')).forEach(reference => {
+        const resolved = resolveDependency(reference);
+        if ('error' in resolved) {
+          rowIssues.push({ field: 'dependencies', message: resolved.error });
+        } else if (resolved.target !== index) {
+          const taskId = typeof resolved.target === 'number' ? rowIds[resolved.target] : resolved.target;
+          dependencies.push({ task_id: taskId, type: resolved.type, lag: resolved.lag });
+        }
+      });
 
       // Parse custom fields
-      const customFieldValues: Record<string, any> = {};
+      const customFieldValues: Record<string, unknown> = {};
       customFields.forEach(field => {
         const value = getValue(`custom_${field.id}`);
         if (value) {
-          customFieldValues[field.id] = parseCustomFieldValue(value, field.type);
+          customFieldValues[field.id] = parseCustomFieldValue(value, getFieldType(field), dateFormat);
         }
       });
 
-      const task: Omit<Task, 'id'> = {
+      // Outline level comes from its own column, or from the depth of the WBS code
+      const wbs = getValue('wbs');
+      const level = parseInt(getValue('outlineLevel'), 10) || (wbs ? levelFromWbs(wbs) : 1);
+
+      const task = {
+        id: rowIds[index],
         name,
-        type,
+        task_type: type,
         status,
-        startDate,
-        endDate,
+        start_date: format(startDate, 'yyyy-MM-dd'),
+        end_date: format(endDate, 'yyyy-MM-dd'),
         assignee: getValue('assignee'),
         progress,
         dependencies,
         description: getValue('description'),
-        customFields: Object.keys(customFieldValues).length > 0 ? customFieldValues : undefined
+        external_id: getRowKey(row) || undefined,
+        custom_fields: Object.keys(customFieldValues).length > 0 ? customFieldValues : undefined
       };
 
       tasks.push(task);
+      importedRows.add(index);
+      outlineLevels.push(Math.max(1, level));
+      wbsCodes.push(wbs);
     } catch (error) {
-      console.warn(`Error parsing row ${i + 1}:`, error);
-      continue;
+      rowIssues.push({ field: '', message: error instanceof Error ? error.message : 'The row could not be read' });
     }
-  }
-
-  return tasks;
-}
+  });
 
-function parseCSVRow(row: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  let i = 0;
-
-  while (i < row.length) {
-    const char = row[i];
-    const nextChar = row[i + 1];
-
-    if (char === '"') {
-      if (inQuotes && nextChar === '"') {
-        // Escaped quote
-        current += '"';
-        i += 2;
-      } else {
-        // Toggle quote state
-        inQuotes = !inQuotes;
-        i++;
-      }
-    } else if (char === ',' && !inQuotes) {
-      // End of field
-      result.push(current);
-      current = '';
-      i++;
-    } else {
-      current += char;
-      i++;
-    }
+  if (hasHierarchy) {
+    // A row's parent is the row with its WBS code minus the last segment, or else
+    // the closest earlier row one outline level up
+    const rowByWbs = new Map(wbsCodes.map((code, index) => [code, index]));
+    const parentIndexes = parentsFromOutlineLevels(outlineLevels);
+    tasks.forEach((task, index) => {
+      const parentCode = wbsCodes[index].split('.').slice(0, -1).join('.');
+      const parentIndex = parentCode && rowByWbs.has(parentCode) ? rowByWbs.get(parentCode) : parentIndexes[index];
+      task.parent_id = parentIndex >= 0 ? tasks[parentIndex].id : null;
+    });
   }
 
-  // Add the last field
-  result.push(current);
+  // Links to rows that were skipped have nothing to point at
+  const skippedIds = new Set(rowIds.filter((_, index) => !importedRows.has(index)));
+  tasks.forEach(task => {
+    task.dependencies = task.dependencies.filter(link => !skippedIds.has(link.task_id));
+  });
 
-  return result;
+  return { tasks, issues };
 }
 
-function parseDate(dateString: string): Date | null {
-  if (!dateString?.trim()) return null;
-
-  const cleaned = dateString.trim();
-  
-  // Try different date formats
-  const formats = [
-    // ISO format: 2024-01-15
-    /^\d{4}-\d{1,2}-\d{1,2}$/,
-    // US format: 01/15/2024 or 1/15/2024
-    /^\d{1,2}\/\d{1,2}\/\d{4}$/,
-    // European format: 15/01/2024 or 15.01.2024
-    /^\d{1,2}[\.\/]\d{1,2}[\.\/]\d{4}$/,
-  ];
-
-  let date: Date | null = null;
-
-  // Try ISO format first
-  if (formats[0].test(cleaned)) {
-    date = new Date(cleaned);
-  }
-  // Try US format
-  else if (formats[1].test(cleaned)) {
-    date = new Date(cleaned);
-  }
-  // Try European format - need to rearrange
-  else if (formats[2].test(cleaned)) {
-    const parts = cleaned.split(/[\.\/]/);
-    if (parts.length === 3) {
-      // Assume DD/MM/YYYY or DD.MM.YYYY
-      const [day, month, year] = parts;
-      date = new Date(`${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`);
-    }
-  }
-  // Fallback to Date constructor
-  else {
-    date = new Date(cleaned);
-  }
-
-  // Validate the date
-  if (date && !isNaN(date.getTime())) {
-    return date;
-  }
-
-  return null;
+export function importFromCSVWithMapping(
+  csv: ParsedCsv,
+  mappings: FieldMapping[],
+  customFields: CustomField[] = [],
+  existingTasks: Task[] = [],
+  options: ImportOptions = {}
+): BuiltTasks {
+  return buildTasksFromRows(mapCsvRows(csv, mappings, options), customFields, existingTasks, options);
 }
 
-function parseCustomFieldValue(value: string, fieldType: FieldType): any {
+function parseCustomFieldValue(value: string, fieldType: FieldType, dateFormat: ImportDateFormat | undefined): unknown {
   switch (fieldType) {
-    case 'number':
+    case 'number': {
       const num = parseFloat(value);
       return isNaN(num) ? null : num;
+    }
     case 'boolean':
-      return value.toLowerCase() === 'true' || value === '1';
+      return ['true', 'yes', '1'].includes(value.toLowerCase());
     case 'date':
-      return parseDate(value);
+      return parseImportDate(value, dateFormat);
     case 'select':
     case 'text':
     default:
       return value;
   }
 }
-
-export function parseCSVHeaders(csvContent: string): string[] {
-  const lines = csvContent.trim().split('\n');
-  if (lines.length === 0) return [];
-  
-  return parseCSVRow(lines[0]);
-}
\ No newline at end of file
@@ -0,0 +1,290 @@
+import { format, startOfDay } from "date-fns";
+import { CalendarHoliday, CalendarLeave, CustomField, DependencyType, FieldType, Project } from "@/types/project";
+import { normalizeDependencies } from "@/utils/dependencies";
+import { downloadBlob } from "@/utils/download";
+import { buildWbs } from "@/utils/wbs";
+import { DEFAULT_CALENDAR, getWorkingDuration, resolveCalendar, splitAssignees, toDate } from "@/utils/workingCalendar";
+
+type MspdiProject = Pick<Project, 'name' | 'tasks' | 'customFields' | 'calendar'>;
+
+const MINUTES_PER_DAY = 480;
+const DAY_START = '08:00:00';
+const DAY_FINISH = '17:00:00';
+
+// PredecessorLink <Type> codes
+const LINK_TYPE_CODES: Record<DependencyType, number> = { FF: 0, FS: 1, SF: 2, SS: 3 };
+
+// Task custom field columns MS Project offers per type, as [FieldName, FieldID].
+// Select fields are written as text columns with a value list.
+const TEXT_COLUMNS = [
+  ...[188743731, 188743734, 188743737, 188743740, 188743743, 188743746, 188743747, 188743748, 188743749, 188743750]
+    .map((id, index): [string, number] => [`Text${index + 1}`, id]),
+  ...Array.from({ length: 20 }, (_, index): [string, number] => [`Text${index + 11}`, 188743997 + index])
+];
+const NUMBER_COLUMNS = [
+  ...Array.from({ length: 5 }, (_, index): [string, number] => [`Number${index + 1}`, 188743767 + index]),
+  ...Array.from({ length: 15 }, (_, index): [string, number] => [`Number${index + 6}`, 188743982 + index])
+];
+const FLAG_COLUMNS = [
+  ...Array.from({ length: 10 }, (_, index): [string, number] => [`Flag${index + 1}`, 188743752 + index]),
+  ...Array.from({ length: 10 }, (_, index): [string, number] => [`Flag${index + 11}`, 188743972 + index])
+];
+const DATE_COLUMNS = Array.from({ length: 10 }, (_, index): [string, number] => [`Date${index + 1}`, 188743945 + index]);
+
+const COLUMNS_BY_TYPE: Record<FieldType, [string, number][]> = {
+  text: TEXT_COLUMNS,
+  select: TEXT_COLUMNS,
+  number: NUMBER_COLUMNS,
+  boolean: FLAG_COLUMNS,
+  date: DATE_COLUMNS
+};
+
+interface ExtendedAttributeColumn {
+  field: CustomField;
+  fieldType: FieldType;
+  fieldName: string;
+  fieldId: number;
+}
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const element = (name: string, value: string | number): string => `<${name}>${escapeXml(String(value))}</${name}>`;
+
+const group = (name: string, children: string[]): string => `<${name}>\n${children.join('\n')}\n</${name}>`;
+
+const dateTime = (date: Date, time: string) => `${format(date, 'yyyy-MM-dd')}T${time}`;
+
+// Durations are written in hours, e.g. three working days is PT24H0M0S
+const duration = (days: number) => `PT${days * MINUTES_PER_DAY / 60}H0M0S`;
+
+// Fields created before field_type existed store their type as `type`
+const getFieldType = (field: CustomField): FieldType => field.field_type || field.type || 'text';
+
+// Gives each custom field its own MS Project column. Fields beyond the columns available for their type are left out.
+function assignColumns(fields: CustomField[]): ExtendedAttributeColumn[] {
+  const used = new Map<FieldType, number>();
+  const columns: ExtendedAttributeColumn[] = [];
+  for (const field of fields) {
+    const fieldType = getFieldType(field);
+    const pool = COLUMNS_BY_TYPE[fieldType] || TEXT_COLUMNS;
+    const key = pool === TEXT_COLUMNS ? 'text' : fieldType;
+    const index = used.get(key) || 0;
+    if (index >= pool.length) continue;
+    used.set(key, index + 1);
+    columns.push({ field, fieldType, fieldName: pool[index][0], fieldId: pool[index][1] });
+  }
+  return columns;
+}
+
+function attributeValue(value: unknown, fieldType: FieldType): string {
+  if (value === undefined || value === null) return '';
+  switch (fieldType) {
+    case 'boolean':
+      return value === true || value === 'true' || value === '1' ? '1' : '0';
+    case 'date':
+      return typeof value === 'string' && value ? dateTime(toDate(value), DAY_START) : '';
+    default:
+      return String(value);
+  }
+}
+
+const workingTimes = group('WorkingTimes', [
+  group('WorkingTime', [element('FromTime', '08:00:00'), element('ToTime', '12:00:00')]),
+  group('WorkingTime', [element('FromTime', '13:00:00'), element('ToTime', '17:00:00')])
+]);
+
+function calendarException(period: { start: string; end: string; name?: string }): string {
+  return group('Exception', [
+    element('EnteredByOccurrences', 0),
+    group('TimePeriod', [
+      element('FromDate', dateTime(toDate(period.start), '00:00:00')),
+      element('ToDate', dateTime(toDate(period.end), '23:59:00'))
+    ]),
+    element('Occurrences', 1),
+    element('Name', period.name || 'Non-working'),
+    element('Type', 1),
+    element('DayWorking', 0)
+  ]);
+}
+
+function calendarXml(
+  uid: number,
+  name: string,
+  workingDays: number[],
+  holidays: CalendarHoliday[],
+  leave: CalendarLeave[],
+  baseCalendarUid?: number
+): string {
+  const exceptions = [
+    ...holidays.map(holiday => calendarException({ start: holiday.date, end: holiday.date, name: holiday.name })),
+    ...leave.map(period => calendarException({ start: period.start_date, end: period.end_date, name: period.name }))
+  ];
+
+  // DayType 1 is Sunday, matching working_days 0
+  const weekDays = Array.from({ length: 7 }, (_, day) => group('WeekDay', [
+    element('DayType', day + 1),
+    element('DayWorking', workingDays.includes(day) ? 1 : 0),
+    ...(workingDays.includes(day) ? [workingTimes] : [])
+  ]));
+
+  return group('Calendar', [
+    element('UID', uid),
+    element('Name', name),
+    element('IsBaseCalendar', baseCalendarUid ? 0 : 1),
+    element('BaseCalendarUID', baseCalendarUid ?? -1),
+    group('WeekDays', weekDays),
+    ...(exceptions.length > 0 ? [group('Exceptions', exceptions)] : [])
+  ]);
+}
+
+/**
+ * Writes a project as Microsoft Project XML (MSPDI). The outline, link types
+ * and lags, milestones, assignees (as resources), the working calendar and
+ * custom fields (as extended attributes) are kept. Tasks get a
+ * Start No Earlier Than constraint so MS Project keeps their dates when it
+ * recalculates the schedule.
+ */
+export function generateMSPDI(project: MspdiProject): string {
+  const calendar = project.calendar || DEFAULT_CALENDAR;
+  const projectTasks = project.tasks || [];
+  const nodes = buildWbs(projectTasks);
+  const uidByTaskId = new Map(nodes.map((node, index) => [node.task.id, index + 1]));
+  const columns = assignColumns(project.customFields || []);
+
+  // One resource per distinct name, ignoring case
+  const resourceNames: string[] = [];
+  for (const name of nodes.flatMap(node => splitAssignees(node.task.assignee))) {
+    if (!resourceNames.some(existing => existing.toLowerCase() === name.toLowerCase())) resourceNames.push(name);
+  }
+  const resourceUids = new Map(resourceNames.map((name, index) => [name.toLowerCase(), index + 1]));
+
+  const starts = projectTasks.map(task => toDate(task.start_date).getTime());
+  const finishes = projectTasks.map(task => toDate(task.end_date).getTime());
+  const projectStart = starts.length > 0 ? new Date(Math.min(...starts)) : startOfDay(new Date());
+  const projectFinish = finishes.length > 0 ? new Date(Math.max(...finishes)) : projectStart;
+
+  const extendedAttributes = columns.map(({ field, fieldType, fieldName, fieldId }) => group('ExtendedAttribute', [
+    element('FieldID', fieldId),
+    element('FieldName', fieldName),
+    element('Alias', field.name),
+    ...(fieldType === 'select' && Array.isArray(field.options) && field.options.length > 0
+      ? [group('ValueList', field.options.map((option: string, index: number) =>
+          group('Value', [element('ID', index + 1), element('Value', option)])
+        ))]
+      : [])
+  ]));
+
+  // Calendar 1 is the project calendar; each resource gets one based on it with their own workweek and leave
+  const calendars = [
+    calendarXml(1, 'Standard', calendar.working_days, calendar.holidays || [], []),
+    ...resourceNames.map((name, index) => {
+      const resource = calendar.resource_calendars?.find(r => r.assignee.toLowerCase() === name.toLowerCase());
+      const workingDays = resource?.working_days?.length ? resource.working_days : calendar.working_days;
+      return calendarXml(index + 2, name, workingDays, [], resource?.leave || [], 1);
+    })
+  ];
+
+  const tasks = nodes.map(({ task, wbs, level, isSummary }, index) => {
+    const start = toDate(task.start_date);
+    const end = toDate(task.end_date);
+    const isMilestone = task.task_type === 'milestone';
+    const days = isMilestone ? 0 : getWorkingDuration(start, end, resolveCalendar(project.calendar, task.assignee));
+
+    const links = normalizeDependencies(task.dependencies)
+      .filter(link => uidByTaskId.has(link.task_id))
+      .map(link => group('PredecessorLink', [
+        element('PredecessorUID', uidByTaskId.get(link.task_id)!),
+        element('Type', LINK_TYPE_CODES[link.type]),
+        element('CrossProject', 0),
+        element('LinkLag', link.lag * MINUTES_PER_DAY * 10), // Tenths of a minute
+        element('LagFormat', 7) // Days
+      ]));
+
+    const attributes = columns
+      .map(({ field, fieldType, fieldId }) => [fieldId, attributeValue(task.custom_fields?.[field.id], fieldType)] as const)
+      .filter(([, value]) => value !== '')
+      .map(([fieldId, value]) => group('ExtendedAttribute', [element('FieldID', fieldId), element('Value', value)]));
+
+    return group('Task', [
+      element('UID', index + 1),
+      element('ID', index + 1),
+      element('Name', task.name),
+      element('Type', 1), // Fixed duration
+      element('IsNull', 0),
+      element('WBS', wbs),
+      element('OutlineNumber', wbs),
+      element('OutlineLevel', level),
+      element('Priority', 500),
+      element('Start', dateTime(start, DAY_START)),
+      element('Finish', dateTime(isMilestone ? start : end, isMilestone ? DAY_START : DAY_FINISH)),
+      element('Duration', duration(days)),
+      element('DurationFormat', 7),
+      element('Milestone', isMilestone ? 1 : 0),
+      element('Summary', isSummary ? 1 : 0),
+      element('PercentComplete', Math.round(task.progress || 0)),
+      // Summary dates follow their subtasks, so only leaf tasks are pinned
+      element('ConstraintType', isSummary ? 0 : 4),
+      ...(isSummary ? [] : [element('ConstraintDate', dateTime(start, DAY_START))]),
+      ...(task.description ? [element('Notes', task.description)] : []),
+      ...links,
+      ...attributes
+    ]);
+  });
+
+  const resources = resourceNames.map((name, index) => group('Resource', [
+    element('UID', index + 1),
+    element('ID', index + 1),
+    element('Name', name),
+    element('Type', 1), // Work resource
+    element('IsNull', 0),
+    element('CalendarUID', index + 2)
+  ]));
+
+  let assignmentUid = 0;
+  const assignments = nodes.flatMap(({ task }) => splitAssignees(task.assignee).map(name => group('Assignment', [
+    element('UID', ++assignmentUid),
+    element('TaskUID', uidByTaskId.get(task.id)!),
+    element('ResourceUID', resourceUids.get(name.toLowerCase())!),
+    element('Units', 1)
+  ])));
+
+  // Elements follow the order of the MSPDI schema, which MS Project expects
+  const projectElements = [
+    element('SaveVersion', 14),
+    element('Name', `${project.name}.xml`),
+    element('Title', project.name),
+    element('CreationDate', dateTime(new Date(), format(new Date(), 'HH:mm:ss'))),
+    element('ScheduleFromStart', 1),
+    element('StartDate', dateTime(projectStart, DAY_START)),
+    element('FinishDate', dateTime(projectFinish, DAY_FINISH)),
+    element('CalendarUID', 1),
+    element('DefaultStartTime', DAY_START),
+    element('DefaultFinishTime', DAY_FINISH),
+    element('MinutesPerDay', MINUTES_PER_DAY),
+    element('MinutesPerWeek', MINUTES_PER_DAY * calendar.working_days.length),
+    element('DaysPerMonth', 20),
+    ...(extendedAttributes.length > 0 ? [group('ExtendedAttributes', extendedAttributes)] : []),
+    group('Calendars', calendars),
+    group('Tasks', tasks),
+    group('Resources', resources),
+    group('Assignments', assignments)
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Project xmlns="http://schemas.microsoft.com/project">',
+    ...projectElements,
+    '</Project>',
+    ''
+  ].join('\n');
+}
+
+export function exportToMSPDI(project: MspdiProject) {
+  const blob = new Blob([generateMSPDI(project)], { type: 'application/xml;charset=utf-8;' });
+  downloadBlob(blob, `${project.name}_${format(new Date(), 'yyyy-MM-dd')}.xml`);
+}
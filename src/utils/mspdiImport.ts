@@ -0,0 +1,222 @@
+import { format, parseISO } from "date-fns";
+import { CustomField, DependencyLink, DependencyType, FieldType, Task, TaskStatus } from "@/types/project";
+import { generateId } from "@/utils/idGenerator";
+import { parentsFromOutlineLevels } from "@/utils/wbs";
+import { addWorkingDays, resolveCalendar } from "@/utils/workingCalendar";
+
+// A task ready for TaskService.importTasks once the project ID is filled in
+export type ImportedTask = Omit<Task, 'project_id' | 'created_at' | 'updated_at'>;
+
+export interface MspdiImportResult {
+  projectName: string;
+  tasks: ImportedTask[];
+  customFields: CustomField[]; // Extended attributes that have no matching field in the project yet
+  warnings: string[];
+}
+
+// PredecessorLink <Type> codes
+const LINK_TYPES: Record<string, DependencyType> = { '0': 'FF', '1': 'FS', '2': 'SF', '3': 'SS' };
+
+// <LagFormat> codes for elapsed units, which count every calendar minute
+const ELAPSED_LAG_FORMATS = ['4', '6', '8', '10', '12'];
+const PERCENT_LAG_FORMATS = ['19', '20'];
+
+// Extended attribute fields are named after the MS Project column they use, e.g. "Text3" or "Flag1"
+const FIELD_TYPE_PREFIXES: [string, FieldType][] = [
+  ['Outline Code', 'text'],
+  ['Text', 'text'],
+  ['Number', 'number'],
+  ['Cost', 'number'],
+  ['Date', 'date'],
+  ['Start', 'date'],
+  ['Finish', 'date'],
+  ['Flag', 'boolean'],
+  ['Duration', 'text'],
+];
+
+const children = (parent: Element | null | undefined, name: string): Element[] =>
+  parent ? Array.from(parent.children).filter(child => child.localName === name) : [];
+
+const child = (parent: Element | null | undefined, name: string): Element | undefined => children(parent, name)[0];
+
+const text = (parent: Element | null | undefined, name: string): string => child(parent, name)?.textContent?.trim() || '';
+
+// MSPDI timestamps look like 2025-03-03T08:00:00; only the day matters here
+const datePart = (value: string): string => value ? value.slice(0, 10) : '';
+
+// Parses ISO 8601 durations such as PT40H0M0S into minutes
+function durationMinutes(value: string): number {
+  const match = /^-?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value);
+  if (!match) return 0;
+  const [, days, hours, minutes, seconds] = match.map(part => parseFloat(part) || 0);
+  return days * 1440 + hours * 60 + minutes + seconds / 60;
+}
+
+function fieldTypeFor(fieldName: string): FieldType {
+  return FIELD_TYPE_PREFIXES.find(([prefix]) => fieldName.startsWith(prefix))?.[1] || 'text';
+}
+
+// Converts a custom field value read from a project file to the field's type
+export function convertAttributeValue(value: string, fieldType: FieldType): unknown {
+  switch (fieldType) {
+    case 'number': {
+      const number = parseFloat(value);
+      return isNaN(number) ? null : number;
+    }
+    case 'boolean':
+      return value === '1' || value.toLowerCase() === 'yes' || value.toLowerCase() === 'true';
+    case 'date':
+      return datePart(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reads a Microsoft Project XML (MSPDI) file. Tasks get new IDs, and outline
+ * levels, predecessor links, resource assignments and extended attributes are
+ * mapped onto parent IDs, typed dependencies, assignees and custom fields.
+ * Nothing is saved; the result is meant to be previewed first.
+ */
+export function importFromMSPDI(xml: string, existingFields: CustomField[] = []): MspdiImportResult {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  const project = document.documentElement;
+  if (document.getElementsByTagName('parsererror').length > 0 || project?.localName !== 'Project') {
+    throw new Error('This file is not a Microsoft Project XML file');
+  }
+
+  const warnings: string[] = [];
+  const minutesPerDay = parseInt(text(project, 'MinutesPerDay'), 10) || 480;
+
+  // Extended attribute definitions become custom fields, reusing project fields with the same name
+  const fieldsById = new Map<string, CustomField>();
+  const newFields: CustomField[] = [];
+  for (const definition of children(child(project, 'ExtendedAttributes'), 'ExtendedAttribute')) {
+    const fieldId = text(definition, 'FieldID');
+    const name = text(definition, 'Alias') || text(definition, 'FieldName');
+    if (!fieldId || !name) continue;
+
+    const existing = [...existingFields, ...newFields].find(field => field.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      fieldsById.set(fieldId, existing);
+      continue;
+    }
+
+    const options = children(child(definition, 'ValueList'), 'Value').map(value => text(value, 'Value')).filter(Boolean);
+    const field: CustomField = {
+      id: generateId(),
+      project_id: '',
+      name,
+      field_type: options.length > 0 ? 'select' : fieldTypeFor(text(definition, 'FieldName')),
+      required: false,
+      options: options.length > 0 ? options : undefined,
+      created_at: new Date().toISOString()
+    };
+    newFields.push(field);
+    fieldsById.set(fieldId, field);
+  }
+
+  // Resource names per task, skipping MS Project's "unassigned" placeholder resource
+  const resourceNames = new Map(
+    children(child(project, 'Resources'), 'Resource').map(resource => [text(resource, 'UID'), text(resource, 'Name')])
+  );
+  const assigneesByTask = new Map<string, string[]>();
+  for (const assignment of children(child(project, 'Assignments'), 'Assignment')) {
+    const name = resourceNames.get(text(assignment, 'ResourceUID'));
+    if (!name) continue;
+    const taskUid = text(assignment, 'TaskUID');
+    assigneesByTask.set(taskUid, [...(assigneesByTask.get(taskUid) || []), name]);
+  }
+
+  const taskElements = children(child(project, 'Tasks'), 'Task').filter(element =>
+    text(element, 'IsNull') !== '1' && text(element, 'UID') !== '0' && text(element, 'OutlineLevel') !== '0'
+  );
+
+  const idByUid = new Map<string, string>();
+  const tasks: ImportedTask[] = [];
+  const elements: Element[] = [];
+  const calendar = resolveCalendar(undefined);
+
+  for (const element of taskElements) {
+    const uid = text(element, 'UID');
+    const name = text(element, 'Name') || `Task ${text(element, 'ID') || uid}`;
+    const start = datePart(text(element, 'Start'));
+    if (!start) {
+      warnings.push(`Skipped "${name}": it has no start date`);
+      continue;
+    }
+
+    const isMilestone = text(element, 'Milestone') === '1';
+    let end = datePart(text(element, 'Finish'));
+    if (!end) {
+      const days = Math.max(1, Math.round(durationMinutes(text(element, 'Duration')) / minutesPerDay));
+      end = isMilestone ? start : format(addWorkingDays(parseISO(start), days - 1, calendar), 'yyyy-MM-dd');
+    }
+
+    const progress = Math.max(0, Math.min(100, parseInt(text(element, 'PercentComplete'), 10) || 0));
+    const status: TaskStatus = progress >= 100 ? 'completed' : progress > 0 ? 'in-progress' : 'not-started';
+
+    const customFields: Record<string, unknown> = {};
+    for (const attribute of children(element, 'ExtendedAttribute')) {
+      const field = fieldsById.get(text(attribute, 'FieldID'));
+      const value = text(attribute, 'Value');
+      if (field && value) customFields[field.id] = convertAttributeValue(value, field.field_type);
+    }
+
+    const id = generateId();
+    idByUid.set(uid, id);
+    elements.push(element);
+    tasks.push({
+      id,
+      name,
+      description: text(element, 'Notes'),
+      task_type: isMilestone ? 'milestone' : 'task',
+      status,
+      start_date: start,
+      end_date: end < start ? start : end,
+      assignee: (assigneesByTask.get(uid) || []).join(', '),
+      progress,
+      dependencies: [],
+      custom_fields: customFields
+    });
+  }
+
+  // Parents come from the outline levels, in file order
+  const parentIndexes = parentsFromOutlineLevels(elements.map(element => parseInt(text(element, 'OutlineLevel'), 10) || 1));
+  tasks.forEach((task, index) => {
+    task.parent_id = parentIndexes[index] >= 0 ? tasks[parentIndexes[index]].id : null;
+  });
+
+  // Links are resolved last so they can point at tasks further down the file
+  tasks.forEach((task, index) => {
+    for (const link of children(elements[index], 'PredecessorLink')) {
+      const predecessorId = idByUid.get(text(link, 'PredecessorUID'));
+      if (!predecessorId) {
+        warnings.push(`"${task.name}" links to a task that is not in the file; the link was dropped`);
+        continue;
+      }
+
+      const lagFormat = text(link, 'LagFormat');
+      const lagMinutes = (parseInt(text(link, 'LinkLag'), 10) || 0) / 10; // Stored in tenths of a minute
+      let lag = Math.round(lagMinutes / (ELAPSED_LAG_FORMATS.includes(lagFormat) ? 1440 : minutesPerDay));
+      if (PERCENT_LAG_FORMATS.includes(lagFormat)) {
+        warnings.push(`"${task.name}" has a percentage lag, which is not supported; it was set to 0`);
+        lag = 0;
+      }
+
+      const dependency: DependencyLink = {
+        task_id: predecessorId,
+        type: LINK_TYPES[text(link, 'Type')] || 'FS',
+        lag
+      };
+      task.dependencies.push(dependency);
+    }
+  });
+
+  return {
+    projectName: text(project, 'Title') || text(project, 'Name'),
+    tasks,
+    customFields: newFields,
+    warnings
+  };
+}
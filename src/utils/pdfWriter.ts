@@ -0,0 +1,153 @@
+// Writer for PDF documents made of drawings (see drawing.ts), one drawing per page.
+// Text uses the standard Helvetica fonts, which every PDF reader has, so no fonts
+// are embedded; characters outside Windows-1252 are printed as "?".
+
+import { DASH_PATTERN, Drawing, Shape, textWidth } from "@/utils/drawing";
+
+// Windows-1252 codes of the characters above U+00FF that the standard fonts can print
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// PDF string literal in the fonts' encoding, e.g. (Design \(phase 1\))
+function pdfString(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+    const value = String.fromCharCode(byte);
+    result += value === '(' || value === ')' || value === '\\' ? `\\${value}` : value;
+  }
+  return `(${result})`;
+}
+
+// Text outside the content, such as the document title, may use any characters
+function pdfTextString(text: string): string {
+  const hex = Array.from(text).flatMap(char => {
+    const code = char.codePointAt(0)!;
+    if (code <= 0xffff) return [code];
+    const offset = code - 0x10000;
+    return [0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff)];
+  }).map(unit => unit.toString(16).padStart(4, '0')).join('');
+  return `<FEFF${hex}>`;
+}
+
+const number = (value: number) => String(Math.round(value * 100) / 100);
+
+function color(hex: string, operator: 'rg' | 'RG'): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `${[value >> 16, (value >> 8) & 0xff, value & 0xff].map(part => number(part / 255)).join(' ')} ${operator}`;
+}
+
+// Content stream operators for one shape; PDF coordinates start at the bottom left
+function shapeOperators(shape: Shape, pageHeight: number): string[] {
+  const y = (top: number) => number(pageHeight - top);
+  const stroke = (hex?: string, width = 1, dashed = false) => hex
+    ? [color(hex, 'RG'), `${number(width)} w`, dashed ? `[${DASH_PATTERN.join(' ')}] 0 d` : '[] 0 d']
+    : [];
+  const paintOperator = (fill?: string, outline?: string) => fill && outline ? 'B' : fill ? 'f' : 'S';
+
+  switch (shape.type) {
+    case 'rect':
+      if (!shape.fill && !shape.stroke) return [];
+      return [
+        ...(shape.fill ? [color(shape.fill, 'rg')] : []),
+        ...stroke(shape.stroke, shape.lineWidth, shape.dashed),
+        `${number(shape.x)} ${y(shape.y + shape.height)} ${number(shape.width)} ${number(shape.height)} re ${paintOperator(shape.fill, shape.stroke)}`
+      ];
+    case 'line':
+      return [
+        ...stroke(shape.stroke, shape.lineWidth, shape.dashed),
+        `${number(shape.x1)} ${y(shape.y1)} m ${number(shape.x2)} ${y(shape.y2)} l S`
+      ];
+    case 'polygon': {
+      if (shape.points.length === 0 || (!shape.fill && !shape.stroke)) return [];
+      const path = shape.points.map(([px, py], index) => `${number(px)} ${y(py)} ${index === 0 ? 'm' : 'l'}`).join(' ');
+      return [
+        ...(shape.fill ? [color(shape.fill, 'rg')] : []),
+        ...stroke(shape.stroke, shape.lineWidth),
+        `${path} h ${paintOperator(shape.fill, shape.stroke)}`
+      ];
+    }
+    case 'text': {
+      const width = textWidth(shape.text, shape.size, shape.bold);
+      const x = shape.align === 'center' ? shape.x - width / 2 : shape.align === 'right' ? shape.x - width : shape.x;
+      return [
+        color(shape.color || '#000000', 'rg'),
+        `BT /${shape.bold ? 'F2' : 'F1'} ${number(shape.size)} Tf ${number(x)} ${y(shape.y)} Td ${pdfString(shape.text)} Tj ET`
+      ];
+    }
+  }
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Every byte of the content is below 256, so each character is written as one byte
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+/**
+ * Writes drawings as the pages of a PDF document. Page sizes are in points
+ * (1/72 inch), so an A4 landscape page is a 842 x 595 drawing.
+ */
+export async function writePdf(pages: Drawing[], title: string): Promise<Blob> {
+  const CATALOG_ID = 1;
+  const PAGES_ID = 2;
+  const FONT_ID = 3;
+  const BOLD_FONT_ID = 4;
+  const objects = new Map<number, (string | Uint8Array)[]>([
+    [CATALOG_ID, [`<< /Type /Catalog /Pages ${PAGES_ID} 0 R >>`]],
+    [FONT_ID, ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>']],
+    [BOLD_FONT_ID, ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>']]
+  ]);
+  const addObject = (...parts: (string | Uint8Array)[]) => {
+    const id = objects.size + 2; // The page tree is added last, under its reserved ID
+    objects.set(id, parts);
+    return id;
+  };
+
+  const pageIds: number[] = [];
+  for (const page of pages) {
+    const content = await deflate(latin1(page.shapes.flatMap(shape => shapeOperators(shape, page.height)).join('\n')));
+    const contentId = addObject(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, content, '\nendstream');
+    pageIds.push(addObject(
+      `<< /Type /Page /Parent ${PAGES_ID} 0 R /MediaBox [0 0 ${number(page.width)} ${number(page.height)}] ` +
+      `/Resources << /Font << /F1 ${FONT_ID} 0 R /F2 ${BOLD_FONT_ID} 0 R >> >> ` +
+      `/Contents ${contentId} 0 R >>`
+    ));
+  }
+  const infoId = addObject(`<< /Title ${pdfTextString(title)} /Producer (Project Manager Pro) >>`);
+  objects.set(PAGES_ID, [`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`]);
+
+  const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  for (let id = 1; id <= objects.size; id++) {
+    offsets.push(offset);
+    [`${id} 0 obj\n`, ...objects.get(id)!, '\nendobj\n'].forEach(part => {
+      const bytes = typeof part === 'string' ? latin1(part) : part;
+      chunks.push(bytes);
+      offset += bytes.length;
+    });
+  }
+
+  const xref = [
+    'xref',
+    `0 ${objects.size + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.size + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+    ''
+  ].join('\n');
+  chunks.push(latin1(xref));
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,249 @@
+import { CustomField, ImportProfile, Project, ProjectBaseline, ProjectCalendar, Task } from "@/types/project";
+import { normalizeDependencies } from "@/utils/dependencies";
+import { downloadBlob } from "@/utils/download";
+import { generateId } from "@/utils/idGenerator";
+
+export const BUNDLE_FORMAT = 'project-manager-pro/project-bundle';
+
+// Number of the newest database migration (supabase/migrations/0NN_*.sql) the
+// bundle layout matches. Raise it with each migration that adds project or task data.
+export const BUNDLE_SCHEMA_VERSION = 10;
+
+export interface BundlePermission {
+  email: string;
+  permission: string; // 'view', 'edit' or 'admin'
+}
+
+export interface BundleActivity {
+  id: string;
+  task_id: string | null;
+  user_id: string | null;
+  action: string;
+  changes: unknown;
+  created_at: string;
+}
+
+export interface BundleProject {
+  id: string;
+  name: string;
+  description: string;
+  status: Project['status'];
+  created_at: string;
+  created_by: string;
+  auto_schedule: boolean;
+  calendar?: ProjectCalendar;
+  active_baseline_id: string | null;
+  import_profiles: ImportProfile[];
+}
+
+/**
+ * Everything needed to rebuild a project elsewhere, as one JSON file.
+ * Sheet sync settings and the calendar feed token are left out: they
+ * point at things outside the project and are set up again after import.
+ */
+export interface ProjectBundle {
+  format: typeof BUNDLE_FORMAT;
+  schema_version: number;
+  exported_at: string;
+  project: BundleProject;
+  tasks: Task[];
+  custom_fields: CustomField[];
+  permissions: BundlePermission[];
+  baselines: ProjectBaseline[];
+  activity_log: BundleActivity[];
+}
+
+// Team members are stored as "email:permission"; entries without a permission are view-only
+const parsePermission = (member: string): BundlePermission => {
+  const [email, permission] = member.split(':');
+  return { email: email.trim(), permission: permission?.trim() || 'view' };
+};
+
+const formatPermission = ({ email, permission }: BundlePermission) => `${email}:${permission}`;
+
+export function createProjectBundle(project: Project, activity: BundleActivity[] = []): ProjectBundle {
+  // Projects loaded from Supabase come with created_at and their custom_fields rows
+  const stored = project as Project & { created_at?: string; custom_fields?: CustomField[] };
+  return {
+    format: BUNDLE_FORMAT,
+    schema_version: BUNDLE_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    project: {
+      id: project.id,
+      name: project.name,
+      description: project.description || '',
+      status: project.status,
+      created_at: stored.created_at || project.created_date || new Date().toISOString(),
+      created_by: project.created_by,
+      auto_schedule: project.auto_schedule || false,
+      calendar: project.calendar,
+      active_baseline_id: project.active_baseline_id || null,
+      import_profiles: project.import_profiles || []
+    },
+    tasks: project.tasks || [],
+    custom_fields: project.customFields ?? stored.custom_fields ?? [],
+    permissions: (project.team_members || []).filter(Boolean).map(parsePermission),
+    baselines: project.baselines || [],
+    activity_log: activity.map(entry => ({
+      id: entry.id,
+      task_id: entry.task_id || null,
+      user_id: entry.user_id || null,
+      action: entry.action,
+      changes: entry.changes ?? null,
+      created_at: entry.created_at
+    }))
+  };
+}
+
+// A bundle as read from a file, before the migrations fill in what it lacks
+type RawBundle = Omit<ProjectBundle, 'project' | 'tasks' | 'custom_fields' | 'baselines'> & {
+  project: Partial<BundleProject>;
+  tasks: Partial<Task>[];
+  custom_fields: (CustomField & { type?: CustomField['field_type'] })[];
+  baselines?: ProjectBaseline[];
+};
+
+// Each step brings a bundle written before the given migration up to that
+// migration's layout, filling in what older databases did not store.
+const BUNDLE_MIGRATIONS: { version: number; migrate: (bundle: RawBundle) => void }[] = [
+  {
+    version: 3, // 003_auto_schedule
+    migrate: bundle => { bundle.project.auto_schedule = bundle.project.auto_schedule ?? false; }
+  },
+  {
+    version: 5, // 005_project_baselines
+    migrate: bundle => {
+      bundle.baselines = bundle.baselines ?? [];
+      bundle.project.active_baseline_id = bundle.project.active_baseline_id ?? null;
+    }
+  },
+  {
+    version: 6, // 006_task_hierarchy
+    migrate: bundle => bundle.tasks.forEach(task => { task.parent_id = task.parent_id ?? null; })
+  },
+  {
+    version: 7, // 007_task_external_ids
+    migrate: bundle => bundle.tasks.forEach(task => { task.external_id = task.external_id ?? null; })
+  },
+  {
+    version: 8, // 008_import_profiles
+    migrate: bundle => { bundle.project.import_profiles = bundle.project.import_profiles ?? []; }
+  }
+];
+
+/**
+ * Reads a bundle file and brings it up to the current schema version.
+ * Throws when the file is not a project bundle or was written by a newer
+ * version of the app.
+ */
+export function parseProjectBundle(json: string): ProjectBundle {
+  let data: Partial<RawBundle> | null;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  if (!data || data.format !== BUNDLE_FORMAT || !data.project) {
+    throw new Error('The file is not a project bundle.');
+  }
+  const version = Number(data.schema_version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error('The project bundle has no schema version.');
+  }
+  if (version > BUNDLE_SCHEMA_VERSION) {
+    throw new Error(`The project bundle was made by a newer version of the app (schema ${version}). Update the app to import it.`);
+  }
+
+  const bundle: RawBundle = {
+    format: BUNDLE_FORMAT,
+    schema_version: version,
+    exported_at: data.exported_at || '',
+    project: { ...data.project },
+    tasks: Array.isArray(data.tasks) ? data.tasks.map(task => ({ ...task })) : [],
+    custom_fields: Array.isArray(data.custom_fields) ? data.custom_fields : [],
+    permissions: Array.isArray(data.permissions) ? data.permissions : [],
+    baselines: Array.isArray(data.baselines) ? data.baselines : undefined,
+    activity_log: Array.isArray(data.activity_log) ? data.activity_log : []
+  };
+  BUNDLE_MIGRATIONS
+    .filter(step => step.version > version)
+    .forEach(step => step.migrate(bundle));
+
+  // Older files hold custom field types under `type` and dependencies as plain task IDs
+  bundle.custom_fields = bundle.custom_fields.map(field => ({
+    ...field,
+    field_type: field.field_type || field.type || 'text'
+  }));
+  bundle.tasks.forEach(task => {
+    task.dependencies = normalizeDependencies(task.dependencies);
+    task.custom_fields = task.custom_fields || {};
+  });
+
+  return { ...bundle, schema_version: BUNDLE_SCHEMA_VERSION } as ProjectBundle;
+}
+
+/**
+ * Gives the project, tasks, custom fields and activity entries new IDs and
+ * updates every reference to them, so a bundle can be imported next to the
+ * project it came from. References to tasks that are not in the bundle are
+ * dropped.
+ */
+export function remapProjectBundle(bundle: ProjectBundle): ProjectBundle {
+  const projectId = generateId();
+  const taskIds = new Map(bundle.tasks.map(task => [task.id, generateId()]));
+  const fieldIds = new Map(bundle.custom_fields.map(field => [field.id, generateId()]));
+  const taskId = (id: string | null | undefined) => (id && taskIds.get(id)) || null;
+
+  const tasks = bundle.tasks.map(task => ({
+    ...task,
+    id: taskIds.get(task.id)!,
+    project_id: projectId,
+    parent_id: taskId(task.parent_id),
+    dependencies: normalizeDependencies(task.dependencies)
+      .filter(link => taskIds.has(link.task_id))
+      .map(link => ({ ...link, task_id: taskIds.get(link.task_id)! })),
+    custom_fields: Object.fromEntries(
+      Object.entries(task.custom_fields || {})
+        .filter(([id]) => fieldIds.has(id))
+        .map(([id, value]) => [fieldIds.get(id)!, value])
+    )
+  }));
+
+  const fieldMapping = (appField: string) => {
+    if (!appField.startsWith('custom_')) return appField;
+    const id = fieldIds.get(appField.slice('custom_'.length));
+    return id ? `custom_${id}` : '';
+  };
+
+  return {
+    ...bundle,
+    project: {
+      ...bundle.project,
+      id: projectId,
+      import_profiles: bundle.project.import_profiles.map(profile => ({
+        ...profile,
+        mappings: profile.mappings
+          .map(mapping => ({ ...mapping, appField: fieldMapping(mapping.appField) }))
+          .filter(mapping => mapping.appField)
+      }))
+    },
+    tasks,
+    custom_fields: bundle.custom_fields.map(field => ({ ...field, id: fieldIds.get(field.id)!, project_id: projectId })),
+    baselines: bundle.baselines.map(baseline => ({
+      ...baseline,
+      tasks: baseline.tasks
+        .filter(entry => taskIds.has(entry.task_id))
+        .map(entry => ({ ...entry, task_id: taskIds.get(entry.task_id)! }))
+    })),
+    activity_log: bundle.activity_log.map(entry => ({ ...entry, id: generateId(), task_id: taskId(entry.task_id) }))
+  };
+}
+
+export const bundleTeamMembers = (bundle: ProjectBundle): string[] =>
+  bundle.permissions.filter(entry => entry.email).map(formatPermission);
+
+export function exportProjectBundle(bundle: ProjectBundle) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json;charset=utf-8;' });
+  downloadBlob(blob, `${bundle.project.name}_${bundle.exported_at.slice(0, 10)}.json`);
+}
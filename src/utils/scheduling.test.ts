@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { format } from "date-fns";
+import { Task, TaskDependency } from "@/types/project";
+import { computeCascade, computeSchedule } from "@/utils/scheduling";
+
+// 2025-03-03 is a Monday
+const task = (id: string, start: string, end: string, dependencies: TaskDependency[] = [], extra: Partial<Task> = {}): Task => ({
+  id,
+  project_id: 'project',
+  name: id,
+  task_type: 'task',
+  status: 'not-started',
+  start_date: start,
+  end_date: end,
+  dependencies,
+  progress: 0,
+  created_at: '',
+  updated_at: '',
+  ...extra
+});
+
+const day = (date: Date) => format(date, 'yyyy-MM-dd');
+
+describe('computeSchedule', () => {
+  it('pushes a finish-to-start successor past its predecessor and finds the critical path', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-03', '2025-03-05'),
+      task('B', '2025-03-03', '2025-03-04', ['A']),
+      task('C', '2025-03-03', '2025-03-03')
+    ]);
+
+    expect(day(schedule.tasks.B.earlyStart)).toBe('2025-03-06');
+    expect(day(schedule.tasks.B.earlyFinish)).toBe('2025-03-07');
+    expect(day(schedule.projectFinish)).toBe('2025-03-07');
+    expect(schedule.criticalPath).toEqual(['A', 'B']);
+    expect(schedule.tasks.C.totalFloat).toBe(4);
+    expect(schedule.tasks.C.isCritical).toBe(false);
+  });
+
+  it('counts lags in working days and skips the weekend', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-03', '2025-03-05'),
+      task('B', '2025-03-03', '2025-03-04', [{ task_id: 'A', type: 'FS', lag: 2 }])
+    ]);
+
+    expect(day(schedule.tasks.B.earlyStart)).toBe('2025-03-10');
+    expect(day(schedule.tasks.B.earlyFinish)).toBe('2025-03-11');
+  });
+
+  it('lets a negative lag overlap the predecessor', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-03', '2025-03-05'),
+      task('B', '2025-03-03', '2025-03-04', [{ task_id: 'A', type: 'FS', lag: -1 }])
+    ]);
+
+    expect(day(schedule.tasks.B.earlyStart)).toBe('2025-03-05');
+  });
+
+  it('honours start-to-start and finish-to-finish links', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-03', '2025-03-05'),
+      task('SS', '2025-03-03', '2025-03-04', [{ task_id: 'A', type: 'SS', lag: 1 }]),
+      task('FF', '2025-03-03', '2025-03-04', [{ task_id: 'A', type: 'FF', lag: 0 }])
+    ]);
+
+    expect(day(schedule.tasks.SS.earlyStart)).toBe('2025-03-04');
+    expect(day(schedule.tasks.FF.earlyStart)).toBe('2025-03-04');
+    expect(day(schedule.tasks.FF.earlyFinish)).toBe('2025-03-05');
+  });
+
+  it('finishes a start-to-finish successor no earlier than the predecessor starts plus lag', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-05', '2025-03-07'),
+      task('B', '2025-03-03', '2025-03-04', [{ task_id: 'A', type: 'SF', lag: 2 }])
+    ]);
+
+    expect(day(schedule.tasks.B.earlyStart)).toBe('2025-03-05');
+    expect(day(schedule.tasks.B.earlyFinish)).toBe('2025-03-06');
+  });
+
+  it('gives milestones no duration', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-03', '2025-03-05'),
+      task('M', '2025-03-03', '2025-03-03', ['A'], { task_type: 'milestone' })
+    ]);
+
+    expect(schedule.tasks.M.duration).toBe(0);
+    expect(day(schedule.tasks.M.earlyStart)).toBe('2025-03-06');
+  });
+
+  it('still schedules every task when links form a cycle', () => {
+    const schedule = computeSchedule([
+      task('A', '2025-03-03', '2025-03-03', ['B']),
+      task('B', '2025-03-03', '2025-03-03', ['A'])
+    ]);
+
+    expect(Object.keys(schedule.tasks).sort()).toEqual(['A', 'B']);
+  });
+
+  it('ignores links to unknown tasks', () => {
+    const schedule = computeSchedule([task('A', '2025-03-03', '2025-03-04', ['missing'])]);
+
+    expect(day(schedule.tasks.A.earlyStart)).toBe('2025-03-03');
+  });
+});
+
+describe('computeCascade', () => {
+  it('moves successors transitively and keeps their working-day duration', () => {
+    const tasks = [
+      task('A', '2025-03-03', '2025-03-04'),
+      task('B', '2025-03-05', '2025-03-06', ['A']),
+      task('C', '2025-03-07', '2025-03-07', ['B'])
+    ];
+
+    const shifts = computeCascade(tasks, { ...tasks[0], end_date: '2025-03-05' });
+
+    expect(shifts.map(({ taskId, newStart, newEnd }) => ({ taskId, newStart, newEnd }))).toEqual([
+      { taskId: 'B', newStart: '2025-03-06', newEnd: '2025-03-07' },
+      { taskId: 'C', newStart: '2025-03-10', newEnd: '2025-03-10' }
+    ]);
+  });
+
+  it('leaves successors that already satisfy their links', () => {
+    const tasks = [
+      task('A', '2025-03-03', '2025-03-04'),
+      task('B', '2025-03-10', '2025-03-11', ['A'])
+    ];
+
+    expect(computeCascade(tasks, { ...tasks[0], end_date: '2025-03-05' })).toEqual([]);
+  });
+});
@@ -0,0 +1,325 @@
+import { differenceInCalendarDays, format, startOfDay } from "date-fns";
+import { DependencyType, ProjectCalendar, Task } from "@/types/project";
+import { normalizeDependencies } from "@/utils/dependencies";
+import {
+  ResolvedCalendar,
+  addWorkingDays,
+  countWorkingDays,
+  getWorkingDuration,
+  nextWorkingDay,
+  resolveCalendar,
+  toDate
+} from "@/utils/workingCalendar";
+
+export interface TaskSchedule {
+  taskId: string;
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  duration: number;   // in working days
+  totalFloat: number; // in working days
+  freeFloat: number;  // in working days
+  isCritical: boolean;
+}
+
+export interface ProjectSchedule {
+  projectStart: Date;
+  projectFinish: Date;
+  tasks: Record<string, TaskSchedule>;
+  criticalPath: string[]; // Task IDs in scheduled order
+}
+
+export interface TaskShift {
+  taskId: string;
+  taskName: string;
+  oldStart: string;
+  oldEnd: string;
+  newStart: string;
+  newEnd: string;
+  days: number; // How far the task moves forward, in calendar days
+}
+
+interface ScheduleEdge {
+  taskId: string; // The task on the other end of the link
+  type: DependencyType;
+  lag: number;
+}
+
+interface ScheduleNode {
+  task: Task;
+  duration: number;
+  // Working-day offsets from the project start. Finish offsets are exclusive.
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+  predecessors: ScheduleEdge[];
+  successors: ScheduleEdge[];
+}
+
+// Milestones have zero duration; everything else spans the working days of its date range.
+const getDuration = (task: Task, calendar: ResolvedCalendar): number => {
+  if (task.task_type === 'milestone') return 0;
+  return Math.max(1, getWorkingDuration(toDate(task.start_date), toDate(task.end_date), calendar));
+};
+
+// Kahn's algorithm. Tasks caught in a cycle are appended in their original order
+// so that the passes below still visit every task.
+const topologicalOrder = (nodes: Map<string, ScheduleNode>): string[] => {
+  const inDegree = new Map<string, number>();
+  nodes.forEach((node, id) => inDegree.set(id, node.predecessors.length));
+
+  const queue = [...nodes.keys()].filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const { taskId: successorId } of nodes.get(id)!.successors) {
+      const remaining = inDegree.get(successorId)! - 1;
+      inDegree.set(successorId, remaining);
+      if (remaining === 0) queue.push(successorId);
+    }
+  }
+
+  if (order.length < nodes.size) {
+    const visited = new Set(order);
+    nodes.forEach((_, id) => {
+      if (!visited.has(id)) order.push(id);
+    });
+  }
+
+  return order;
+};
+
+// Earliest start the successor may take, given one of its predecessors
+const earliestStartFrom = (predecessor: ScheduleNode, edge: ScheduleEdge, duration: number): number => {
+  switch (edge.type) {
+    case 'SS': return predecessor.earlyStart + edge.lag;
+    case 'FF': return predecessor.earlyFinish + edge.lag - duration;
+    case 'SF': return predecessor.earlyStart + edge.lag - duration;
+    default: return predecessor.earlyFinish + edge.lag;
+  }
+};
+
+// Latest finish the predecessor may take, given one of its successors
+const latestFinishFrom = (successor: ScheduleNode, edge: ScheduleEdge, duration: number): number => {
+  switch (edge.type) {
+    case 'SS': return successor.lateStart - edge.lag + duration;
+    case 'FF': return successor.lateFinish - edge.lag;
+    case 'SF': return successor.lateFinish - edge.lag + duration;
+    default: return successor.lateStart - edge.lag;
+  }
+};
+
+// Days the predecessor can slip before it delays the successor's early dates
+const linkSlack = (predecessor: ScheduleNode, successor: ScheduleNode, edge: ScheduleEdge): number => {
+  switch (edge.type) {
+    case 'SS': return successor.earlyStart - edge.lag - predecessor.earlyStart;
+    case 'FF': return successor.earlyFinish - edge.lag - predecessor.earlyFinish;
+    case 'SF': return successor.earlyFinish - edge.lag - predecessor.earlyStart;
+    default: return successor.earlyStart - edge.lag - predecessor.earlyFinish;
+  }
+};
+
+/**
+ * Runs a critical path (CPM) analysis over the project's tasks.
+ * Each task's planned start date acts as a "start no earlier than" constraint,
+ * so tasks without predecessors stay where they are planned.
+ * Links honour their type (FS/SS/FF/SF) and lag. Links to unknown task IDs are ignored.
+ * Durations, lags and floats are counted in working days of the project calendar.
+ */
+export function computeSchedule(tasks: Task[], projectCalendar?: ProjectCalendar): ProjectSchedule {
+  if (tasks.length === 0) {
+    const today = startOfDay(new Date());
+    return { projectStart: today, projectFinish: today, tasks: {}, criticalPath: [] };
+  }
+
+  const calendar = resolveCalendar(projectCalendar);
+  const projectStart = nextWorkingDay(
+    new Date(Math.min(...tasks.map(t => toDate(t.start_date).getTime()))),
+    calendar
+  );
+
+  const nodes = new Map<string, ScheduleNode>();
+  tasks.forEach(task => {
+    nodes.set(task.id, {
+      task,
+      duration: getDuration(task, calendar),
+      earlyStart: 0,
+      earlyFinish: 0,
+      lateStart: 0,
+      lateFinish: 0,
+      predecessors: [],
+      successors: []
+    });
+  });
+
+  nodes.forEach((node, id) => {
+    const seen = new Set<string>();
+    for (const link of normalizeDependencies(node.task.dependencies)) {
+      const predecessorId = link.task_id;
+      if (predecessorId === id || !nodes.has(predecessorId) || seen.has(predecessorId)) continue;
+      seen.add(predecessorId);
+      node.predecessors.push({ taskId: predecessorId, type: link.type, lag: link.lag });
+      nodes.get(predecessorId)!.successors.push({ taskId: id, type: link.type, lag: link.lag });
+    }
+  });
+
+  const order = topologicalOrder(nodes);
+
+  // Forward pass
+  for (const id of order) {
+    const node = nodes.get(id)!;
+    let earlyStart = Math.max(0, countWorkingDays(projectStart, toDate(node.task.start_date), calendar));
+    for (const edge of node.predecessors) {
+      earlyStart = Math.max(earlyStart, earliestStartFrom(nodes.get(edge.taskId)!, edge, node.duration));
+    }
+    node.earlyStart = earlyStart;
+    node.earlyFinish = earlyStart + node.duration;
+  }
+
+  const projectFinishOffset = Math.max(...[...nodes.values()].map(n => n.earlyFinish));
+
+  // Backward pass
+  for (const id of [...order].reverse()) {
+    const node = nodes.get(id)!;
+    let lateFinish = projectFinishOffset;
+    for (const edge of node.successors) {
+      lateFinish = Math.min(lateFinish, latestFinishFrom(nodes.get(edge.taskId)!, edge, node.duration));
+    }
+    node.lateFinish = lateFinish;
+    node.lateStart = lateFinish - node.duration;
+  }
+
+  // Offsets are exclusive at the finish; reported finish dates are the last working day.
+  const toStartDate = (offset: number) => addWorkingDays(projectStart, offset, calendar);
+  const toFinishDate = (offset: number, duration: number) =>
+    toStartDate(duration === 0 ? offset : offset - 1);
+
+  const schedules: Record<string, TaskSchedule> = {};
+  nodes.forEach((node, id) => {
+    const totalFloat = node.lateStart - node.earlyStart;
+    const freeFloat = Math.min(
+      projectFinishOffset - node.earlyFinish,
+      ...node.successors.map(edge => linkSlack(node, nodes.get(edge.taskId)!, edge))
+    );
+
+    schedules[id] = {
+      taskId: id,
+      earlyStart: toStartDate(node.earlyStart),
+      earlyFinish: toFinishDate(node.earlyFinish, node.duration),
+      lateStart: toStartDate(node.lateStart),
+      lateFinish: toFinishDate(node.lateFinish, node.duration),
+      duration: node.duration,
+      totalFloat,
+      freeFloat: Math.max(0, freeFloat),
+      isCritical: totalFloat <= 0
+    };
+  });
+
+  return {
+    projectStart,
+    projectFinish: toStartDate(Math.max(0, projectFinishOffset - 1)),
+    tasks: schedules,
+    criticalPath: order.filter(id => schedules[id].isCritical)
+  };
+}
+
+/**
+ * Works out how the successors of `changedTask` must move once its new dates are applied,
+ * following the dependency graph transitively. Tasks only ever move later and keep
+ * their working-day duration; a successor that already satisfies all of its links stays put.
+ * Lags count project working days, and each moved task lands on its assignee's working days.
+ */
+export function computeCascade(tasks: Task[], changedTask: Task, projectCalendar?: ProjectCalendar): TaskShift[] {
+  const calendar = resolveCalendar(projectCalendar);
+  const calendarFor = (task: Task) => resolveCalendar(projectCalendar, task.assignee);
+
+  const working = new Map<string, { task: Task; start: Date; end: Date }>();
+  tasks.forEach(task => working.set(task.id, { task, start: toDate(task.start_date), end: toDate(task.end_date) }));
+  working.set(changedTask.id, {
+    task: changedTask,
+    start: toDate(changedTask.start_date),
+    end: toDate(changedTask.end_date)
+  });
+
+  const successors = new Map<string, Set<string>>();
+  working.forEach(({ task }) => {
+    for (const link of normalizeDependencies(task.dependencies)) {
+      if (link.task_id === task.id || !working.has(link.task_id)) continue;
+      if (!successors.has(link.task_id)) successors.set(link.task_id, new Set());
+      successors.get(link.task_id)!.add(task.id);
+    }
+  });
+
+  // Only the tasks downstream of the change can move
+  const affected = new Set<string>();
+  const stack = [...(successors.get(changedTask.id) || [])];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (affected.has(id) || id === changedTask.id) continue;
+    affected.add(id);
+    stack.push(...(successors.get(id) || []));
+  }
+
+  // Visit affected tasks once all of their affected predecessors have been settled
+  const pending = new Map<string, number>();
+  affected.forEach(id => {
+    const links = normalizeDependencies(working.get(id)!.task.dependencies);
+    pending.set(id, new Set(links.map(l => l.task_id).filter(p => affected.has(p) && p !== id)).size);
+  });
+  const queue = [...affected].filter(id => pending.get(id) === 0);
+
+  const shifts: TaskShift[] = [];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const current = working.get(id)!;
+    const taskCalendar = calendarFor(current.task);
+    // Working days after the start day; zero for single-day tasks and milestones
+    const span = Math.max(0, getWorkingDuration(current.start, current.end, taskCalendar) - 1);
+    const startForFinish = (finish: Date) => addWorkingDays(finish, -span, taskCalendar);
+
+    let requiredStart = current.start;
+    for (const link of normalizeDependencies(current.task.dependencies)) {
+      const predecessor = working.get(link.task_id);
+      if (!predecessor || link.task_id === id) continue;
+
+      // Successors of a milestone may start on the milestone's day
+      const afterFinish = predecessor.task.task_type === 'milestone' ? 0 : 1;
+      let earliest: Date;
+      switch (link.type) {
+        case 'SS': earliest = addWorkingDays(predecessor.start, link.lag, calendar); break;
+        case 'FF': earliest = startForFinish(addWorkingDays(predecessor.end, link.lag, calendar)); break;
+        case 'SF': earliest = startForFinish(addWorkingDays(predecessor.start, link.lag - 1, calendar)); break;
+        default: earliest = addWorkingDays(predecessor.end, afterFinish + link.lag, calendar);
+      }
+      if (earliest > requiredStart) requiredStart = earliest;
+    }
+
+    if (requiredStart > current.start) {
+      const newStart = nextWorkingDay(requiredStart, taskCalendar);
+      const newEnd = addWorkingDays(newStart, span, taskCalendar);
+      shifts.push({
+        taskId: id,
+        taskName: current.task.name,
+        oldStart: format(current.start, 'yyyy-MM-dd'),
+        oldEnd: format(current.end, 'yyyy-MM-dd'),
+        newStart: format(newStart, 'yyyy-MM-dd'),
+        newEnd: format(newEnd, 'yyyy-MM-dd'),
+        days: differenceInCalendarDays(newStart, current.start)
+      });
+      working.set(id, { ...current, start: newStart, end: newEnd });
+    }
+
+    for (const successorId of successors.get(id) || []) {
+      if (!affected.has(successorId)) continue;
+      const remaining = pending.get(successorId)! - 1;
+      pending.set(successorId, remaining);
+      if (remaining === 0) queue.push(successorId);
+    }
+  }
+
+  return shifts;
+}
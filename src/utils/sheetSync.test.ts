@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types/project";
+import {
+  createHttpSyncConnector,
+  getSyncTime,
+  planSync,
+  resolveConflicts,
+  SheetRow,
+  taskToSheetRow
+} from "@/utils/sheetSync";
+
+const LAST_SYNC = '2025-03-10T12:00:00.000Z';
+const BEFORE = '2025-03-10T09:00:00.000Z';
+const AFTER = '2025-03-10T15:00:00.000Z';
+
+const task = (id: string, name: string, updatedAt = BEFORE, extra: Partial<Task> = {}): Task => ({
+  id,
+  project_id: 'project',
+  name,
+  task_type: 'task',
+  status: 'not-started',
+  start_date: '2025-03-03',
+  end_date: '2025-03-04',
+  dependencies: [],
+  progress: 0,
+  created_at: '',
+  updated_at: updatedAt,
+  ...extra
+});
+
+const sheetRow = (row: number, values: Partial<SheetRow>): SheetRow => ({
+  row,
+  id: '',
+  name: '',
+  type: 'task',
+  status: 'not-started',
+  start_date: '2025-03-03',
+  end_date: '2025-03-04',
+  assignee: '',
+  progress: '0',
+  description: '',
+  updated_at: BEFORE,
+  ...values
+});
+
+/**
+ * A sheet web app in memory, answering like the script createHttpSyncConnector
+ * expects: GET lists the rows, POST updates rows by row number or ID and
+ * appends the rest. Requests are recorded so tests can check what was sent.
+ */
+function createMockSheet(initialRows: SheetRow[]) {
+  let rows = initialRows.map((row, index) => ({ ...row, row: index + 2 }));
+  const requests: { method: string; contentType?: string; body?: unknown }[] = [];
+
+  const fetcher = (async (_url: string, init?: RequestInit) => {
+    const method = init?.method || 'GET';
+    const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+    requests.push({ method, contentType: (init?.headers as Record<string, string>)?.['Content-Type'], body });
+
+    if (method === 'POST') {
+      for (const pushed of body.rows as SheetRow[]) {
+        const index = rows.findIndex(row => (pushed.row && row.row === pushed.row) || (pushed.id && row.id === pushed.id));
+        if (index === -1) rows = [...rows, { ...pushed, row: rows.length + 2 }];
+        else rows = rows.map((row, i) => i === index ? { ...pushed, row: row.row } : row);
+      }
+      return Response.json({ ok: true });
+    }
+    return Response.json({ rows });
+  }) as typeof fetch;
+
+  return { fetcher, requests, rows: () => rows };
+}
+
+describe('createHttpSyncConnector', () => {
+  it('pulls every value as text and keeps each row position', async () => {
+    const fetcher = (async () => Response.json({
+      rows: [{ row: 2, id: 'a', name: ' Design ', progress: 50, start_date: '2025-03-03', updated_at: AFTER }, { name: 'No position', row: 'x' }]
+    })) as typeof fetch;
+
+    const rows = await createHttpSyncConnector('https://sheet.test', fetcher).pull();
+
+    expect(rows[0]).toMatchObject({ row: 2, id: 'a', name: 'Design', progress: '50', end_date: '', updated_at: AFTER });
+    expect(rows[1].row).toBeUndefined();
+  });
+
+  it('pushes rows as plain-text JSON, which the sheet writes back by row and ID', async () => {
+    const sheet = createMockSheet([sheetRow(2, { id: 'a', name: 'Design' })]);
+    const connector = createHttpSyncConnector('https://sheet.test', sheet.fetcher);
+
+    await connector.push([{ ...sheetRow(2, { id: 'a', name: 'Design v2' }) }, taskToSheetRow(task('b', 'Build'))]);
+
+    expect(sheet.requests[0]).toMatchObject({ method: 'POST', contentType: 'text/plain;charset=utf-8', body: { action: 'push' } });
+    expect((await connector.pull()).map(({ row, id, name }) => ({ row, id, name }))).toEqual([
+      { row: 2, id: 'a', name: 'Design v2' },
+      { row: 3, id: 'b', name: 'Build' }
+    ]);
+  });
+
+  it('explains failed requests and unexpected answers', async () => {
+    const answer = (response: Response | Error) => createHttpSyncConnector('https://sheet.test', (async () => {
+      if (response instanceof Error) throw response;
+      return response;
+    }) as typeof fetch);
+
+    await expect(answer(new TypeError('Failed to fetch')).pull()).rejects.toThrow('Could not reach the sheet');
+    await expect(answer(new Response('', { status: 403 })).pull()).rejects.toThrow('The sheet answered with an error (403)');
+    await expect(answer(new Response('<html>')).pull()).rejects.toThrow('The sheet did not answer with JSON');
+    await expect(answer(Response.json({ values: [] })).pull()).rejects.toThrow('did not answer with a list of rows');
+    await expect(answer(Response.json({ ok: false, error: 'read only' })).push([])).rejects.toThrow('The sheet refused the update: read only');
+  });
+});
+
+describe('planSync', () => {
+  it('takes sheet edits made since the last sync and pushes app edits made since then', () => {
+    const tasks = [task('a', 'Design'), task('b', 'Build', AFTER)];
+    const rows = [
+      sheetRow(2, { id: 'a', name: 'Design', status: 'In Progress', updated_at: AFTER }),
+      sheetRow(3, { id: 'b', name: 'Build (old)', updated_at: BEFORE })
+    ];
+
+    const plan = planSync(tasks, rows, LAST_SYNC);
+
+    expect(plan.changed).toEqual([{ task: tasks[0], updates: { status: 'in-progress' }, fields: ['status'] }]);
+    expect(plan.push).toEqual([{ ...taskToSheetRow(tasks[1]), row: 3 }]);
+    expect(plan.conflicts).toEqual([]);
+  });
+
+  it('makes a conflict of tasks edited on both sides, or when nothing was synced before', () => {
+    const tasks = [task('a', 'Design', AFTER)];
+    const rows = [sheetRow(2, { id: 'a', name: 'Design (sheet)', updated_at: AFTER })];
+
+    expect(planSync(tasks, rows, LAST_SYNC).conflicts).toEqual([
+      { task: tasks[0], row: rows[0], updates: { name: 'Design (sheet)' }, fields: ['name'] }
+    ]);
+    expect(planSync([task('a', 'Design')], [sheetRow(2, { id: 'a', name: 'Design (sheet)' })]).conflicts).toHaveLength(1);
+  });
+
+  it('counts rows the sheet never stamped as edited there', () => {
+    const plan = planSync([task('a', 'Design')], [sheetRow(2, { id: 'a', name: 'Renamed', updated_at: '' })], LAST_SYNC);
+
+    expect(plan.changed.map(change => change.updates)).toEqual([{ name: 'Renamed' }]);
+  });
+
+  it('leaves rows that match their task alone whoever edited them', () => {
+    const plan = planSync([task('a', 'Design', AFTER)], [sheetRow(2, { id: 'a', name: 'Design', updated_at: AFTER })], LAST_SYNC);
+
+    expect(plan).toEqual({ created: [], changed: [], conflicts: [], push: [], skipped: [] });
+  });
+
+  it('creates tasks for new rows and adds tasks missing from the sheet', () => {
+    const plan = planSync([task('a', 'Design')], [sheetRow(2, { name: 'Test', type: 'Milestone', progress: '150%' })], LAST_SYNC);
+
+    expect(plan.created).toEqual([expect.objectContaining({ name: 'Test', task_type: 'milestone', progress: 100, parent_id: null })]);
+    expect(plan.push).toEqual([
+      expect.objectContaining({ row: 2, id: plan.created[0].id, name: 'Test' }),
+      taskToSheetRow(task('a', 'Design'))
+    ]);
+  });
+
+  it('skips unreadable rows and rows of deleted tasks, but overwrites them with app edits', () => {
+    const tasks = [task('a', 'Design'), task('b', 'Build', AFTER)];
+    const plan = planSync(tasks, [
+      sheetRow(2, { id: 'a', name: 'Design', start_date: '03/03/2025' }),
+      sheetRow(3, { id: 'b', name: 'Build', status: 'Someday' }),
+      sheetRow(4, { id: 'gone', name: 'Old' })
+    ], LAST_SYNC);
+
+    expect(plan.skipped).toEqual([
+      'Row 2: dates must be written as YYYY-MM-DD',
+      'Row 3: unknown status "Someday"',
+      'Row 4: no task has the ID "gone"; it may have been deleted in the app'
+    ]);
+    expect(plan.push).toEqual([{ ...taskToSheetRow(tasks[1]), row: 3 }]);
+    expect(plan.changed).toEqual([]);
+  });
+});
+
+describe('resolveConflicts', () => {
+  it('applies the sheet version where chosen and pushes the app version otherwise', () => {
+    const tasks = [task('a', 'Design', AFTER), task('b', 'Build', AFTER)];
+    const rows = [
+      sheetRow(2, { id: 'a', name: 'Design (sheet)', updated_at: AFTER }),
+      sheetRow(3, { id: 'b', name: 'Build (sheet)', updated_at: AFTER })
+    ];
+
+    const plan = resolveConflicts(planSync(tasks, rows, LAST_SYNC), { a: 'sheet' });
+
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.changed).toEqual([{ task: tasks[0], updates: { name: 'Design (sheet)' }, fields: ['name'] }]);
+    expect(plan.push).toEqual([{ ...taskToSheetRow(tasks[1]), row: 3 }]);
+  });
+});
+
+describe('getSyncTime', () => {
+  it('is never earlier than a task saved by the sync itself', () => {
+    const now = new Date('2025-03-10T12:00:00.000Z');
+
+    expect(getSyncTime([task('a', 'Design', BEFORE)], now)).toBe(now.toISOString());
+    expect(getSyncTime([task('a', 'Design', AFTER), task('b', 'Build', 'not a date')], now)).toBe(AFTER);
+  });
+});
+
+describe('a sync against the mock sheet', () => {
+  it('leaves both sides matching and finds nothing to do on the next sync', async () => {
+    const sheet = createMockSheet([
+      sheetRow(0, { id: 'a', name: 'Design', assignee: 'Ana', updated_at: AFTER }),
+      sheetRow(0, { name: 'Added in sheet' })
+    ]);
+    const connector = createHttpSyncConnector('https://sheet.test', sheet.fetcher);
+    let tasks = [task('a', 'Design'), task('b', 'Build', AFTER)];
+
+    const plan = planSync(tasks, await connector.pull(), LAST_SYNC);
+    tasks = [
+      ...tasks.map(current => {
+        const change = plan.changed.find(({ task }) => task.id === current.id);
+        return change ? { ...current, ...change.updates } : current;
+      }),
+      ...plan.created.map(created => task(created.id, created.name, BEFORE, created))
+    ];
+    await connector.push(plan.push);
+    const syncedAt = getSyncTime(tasks, new Date(AFTER));
+
+    expect(tasks.map(({ name, assignee }) => ({ name, assignee: assignee || '' }))).toEqual([
+      { name: 'Design', assignee: 'Ana' },
+      { name: 'Build', assignee: '' },
+      { name: 'Added in sheet', assignee: '' }
+    ]);
+    expect(sheet.rows().map(row => row.name)).toEqual(['Design', 'Added in sheet', 'Build']);
+    expect(sheet.rows().every(row => row.id)).toBe(true);
+    expect(planSync(tasks, await connector.pull(), syncedAt)).toEqual({ created: [], changed: [], conflicts: [], push: [], skipped: [] });
+  });
+});
@@ -0,0 +1,258 @@
+import { format } from "date-fns";
+import { Task } from "@/types/project";
+import { generateId } from "@/utils/idGenerator";
+import { parseImportDate } from "@/utils/dateFormats";
+import { TaskChange } from "@/utils/importDiff";
+import { normalizeStatus, TASK_STATUSES, TASK_TYPES } from "@/utils/importWithMapping";
+import { ImportedTask } from "@/utils/mspdiImport";
+
+// A task as one row of the sheet. Values are text, as the sheet holds them.
+export interface SheetRow {
+  row?: number;       // Position in the sheet of a pulled row, so a push can fill in the ID of a row added there
+  id: string;         // Task ID; blank on rows added in the sheet
+  name: string;
+  type: string;
+  status: string;
+  start_date: string; // yyyy-MM-dd
+  end_date: string;
+  assignee: string;
+  progress: string;
+  description: string;
+  updated_at: string; // Last edit, as an ISO timestamp
+}
+
+// Where tasks are synced to. Connectors for other sheet services only need these two calls.
+export interface SyncConnector {
+  pull: () => Promise<SheetRow[]>;
+  push: (rows: SheetRow[]) => Promise<void>;
+}
+
+export interface SyncConflict {
+  task: Task;
+  row: SheetRow;
+  updates: Partial<Task>; // The sheet's values for the fields that differ
+  fields: (keyof Task)[];
+}
+
+export interface SyncPlan {
+  created: ImportedTask[]; // Rows added in the sheet
+  changed: TaskChange[];   // Sheet edits to apply to tasks
+  conflicts: SyncConflict[];
+  push: SheetRow[];        // Task edits and new tasks to write to the sheet
+  skipped: string[];       // Rows that can't be read, and why
+}
+
+export type ConflictChoice = 'app' | 'sheet';
+
+// The task properties a row holds
+const SYNCED_FIELDS: (keyof Task)[] = ['name', 'task_type', 'status', 'start_date', 'end_date', 'assignee', 'progress', 'description'];
+
+const isAfter = (time: string | undefined, since: string) => !!time && new Date(time).getTime() > new Date(since).getTime();
+
+const describeRow = (row: SheetRow) => row.row ? `Row ${row.row}` : `"${row.name || row.id}"`;
+
+export function taskToSheetRow(task: Task): SheetRow {
+  return {
+    id: task.id,
+    name: task.name,
+    type: task.task_type,
+    status: task.status,
+    start_date: task.start_date.slice(0, 10),
+    end_date: task.end_date.slice(0, 10),
+    assignee: task.assignee || '',
+    progress: String(task.progress ?? 0),
+    description: task.description || '',
+    updated_at: task.updated_at
+  };
+}
+
+// Reads a row's values as task properties; blank type, status and progress take the defaults
+function readSheetRow(row: SheetRow): { values?: Partial<Task>; error?: string } {
+  if (!row.name.trim()) return { error: 'task name is missing' };
+
+  const type = row.type.trim().toLowerCase() || 'task';
+  if (!TASK_TYPES.includes(type as Task['task_type'])) return { error: `unknown type "${row.type}"` };
+  const status = normalizeStatus(row.status.trim()) || 'not-started';
+  if (!TASK_STATUSES.includes(status as Task['status'])) return { error: `unknown status "${row.status}"` };
+
+  const startDate = parseImportDate(row.start_date, 'iso');
+  const endDate = parseImportDate(row.end_date, 'iso');
+  if (!startDate || !endDate) return { error: 'dates must be written as YYYY-MM-DD' };
+  if (endDate < startDate) return { error: 'end date is before the start date' };
+
+  const progress = row.progress.trim() ? parseFloat(row.progress.replace('%', '')) : 0;
+  if (isNaN(progress)) return { error: `"${row.progress}" is not a progress percentage` };
+
+  return {
+    values: {
+      name: row.name.trim(),
+      task_type: type as Task['task_type'],
+      status: status as Task['status'],
+      start_date: format(startDate, 'yyyy-MM-dd'),
+      end_date: format(endDate, 'yyyy-MM-dd'),
+      assignee: row.assignee.trim(),
+      progress: Math.max(0, Math.min(100, progress)),
+      description: row.description
+    }
+  };
+}
+
+function findChanges(task: Task, values: Partial<Task>): { updates: Partial<Task>; fields: (keyof Task)[] } {
+  const fields = SYNCED_FIELDS.filter(field => {
+    const current = field === 'start_date' || field === 'end_date' ? task[field].slice(0, 10) : task[field];
+    return (current ?? '') !== (values[field] ?? '');
+  });
+  const updates: Partial<Task> = {};
+  fields.forEach(field => {
+    (updates as Record<string, unknown>)[field] = values[field];
+  });
+  return { updates, fields };
+}
+
+/**
+ * Works out a two-way sync. Rows are matched to tasks by ID. Where they
+ * differ, the side edited since `lastSyncedAt` wins; if both sides were
+ * edited, or there was no sync before, the task is a conflict for the user
+ * to settle. Rows without an ID become new tasks, and tasks missing from
+ * the sheet are added to it. Nothing is deleted on either side.
+ */
+export function planSync(tasks: Task[], rows: SheetRow[], lastSyncedAt?: string): SyncPlan {
+  const plan: SyncPlan = { created: [], changed: [], conflicts: [], push: [], skipped: [] };
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const inSheet = new Set<string>();
+
+  rows.forEach(row => {
+    const task = row.id ? byId.get(row.id) : undefined;
+    if (row.id && !task) {
+      plan.skipped.push(`${describeRow(row)}: no task has the ID "${row.id}"; it may have been deleted in the app`);
+      return;
+    }
+    if (task) inSheet.add(task.id);
+
+    const { values, error } = readSheetRow(row);
+    if (error) {
+      plan.skipped.push(`${describeRow(row)}: ${error}`);
+      // A task edited in the app still overwrites the row it can't read
+      if (task && lastSyncedAt && isAfter(task.updated_at, lastSyncedAt)) {
+        plan.push.push({ ...taskToSheetRow(task), row: row.row });
+      }
+      return;
+    }
+
+    if (!task) {
+      const id = generateId();
+      plan.created.push({ id, ...values, dependencies: [], parent_id: null } as ImportedTask);
+      plan.push.push({ ...row, id });
+      return;
+    }
+
+    const { updates, fields } = findChanges(task, values);
+    if (fields.length === 0) return;
+
+    const editedInApp = !lastSyncedAt || isAfter(task.updated_at, lastSyncedAt);
+    // Rows the sheet never stamped count as edited
+    const editedInSheet = !lastSyncedAt || !row.updated_at || isAfter(row.updated_at, lastSyncedAt);
+    if (editedInApp && editedInSheet) {
+      plan.conflicts.push({ task, row, updates, fields });
+    } else if (editedInSheet) {
+      plan.changed.push({ task, updates, fields });
+    } else {
+      plan.push.push({ ...taskToSheetRow(task), row: row.row });
+    }
+  });
+
+  tasks.filter(task => !inSheet.has(task.id)).forEach(task => plan.push.push(taskToSheetRow(task)));
+  return plan;
+}
+
+/**
+ * The time to record for a finished sync: the latest of now and every
+ * task's updated_at. Tasks saved by the sync itself, and a database clock
+ * ahead of this one, then don't count as app edits on the next sync.
+ */
+export function getSyncTime(tasks: Task[], now = new Date()): string {
+  const latest = Math.max(now.getTime(), ...tasks.map(task => new Date(task.updated_at).getTime() || 0));
+  return new Date(latest).toISOString();
+}
+
+// Applies the user's choice for each conflict; conflicts without one keep the app's version
+export function resolveConflicts(plan: SyncPlan, choices: Record<string, ConflictChoice>): SyncPlan {
+  const changed = [...plan.changed];
+  const push = [...plan.push];
+  plan.conflicts.forEach(({ task, row, updates, fields }) => {
+    if (choices[task.id] === 'sheet') changed.push({ task, updates, fields });
+    else push.push({ ...taskToSheetRow(task), row: row.row });
+  });
+  return { ...plan, changed, push, conflicts: [] };
+}
+
+// Sheets hand back numbers and dates as they see fit; every value is read as text
+function toSheetRow(value: unknown): SheetRow {
+  const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const text = (field: keyof SheetRow) => String(source[field] ?? '').trim();
+  const row: SheetRow = {
+    id: text('id'),
+    name: text('name'),
+    type: text('type'),
+    status: text('status'),
+    start_date: text('start_date'),
+    end_date: text('end_date'),
+    assignee: text('assignee'),
+    progress: text('progress'),
+    description: text('description'),
+    updated_at: text('updated_at')
+  };
+  const position = Number(source.row);
+  return Number.isInteger(position) && position > 0 ? { ...row, row: position } : row;
+}
+
+/**
+ * Connects to a sheet through a web app that speaks JSON, such as a Google
+ * Apps Script deployed from the sheet:
+ *
+ *   GET  <url>  answers { "rows": [SheetRow, ...] }
+ *   POST <url>  with { "action": "push", "rows": [...] } updates the rows with
+ *               the same `row` number or ID, appends the rest, and answers { "ok": true }
+ *
+ * The sheet is expected to stamp `updated_at` on rows edited there. Any
+ * server that answers the same way works, including a local mock.
+ */
+export function createHttpSyncConnector(url: string, fetcher: typeof fetch = fetch): SyncConnector {
+  const request = async (init?: RequestInit) => {
+    let response: Response;
+    try {
+      response = await fetcher(url, init);
+    } catch {
+      throw new Error('Could not reach the sheet. Check the URL and that the script is deployed for access.');
+    }
+    if (!response.ok) {
+      throw new Error(`The sheet answered with an error (${response.status})`);
+    }
+    try {
+      return await response.json();
+    } catch {
+      throw new Error('The sheet did not answer with JSON');
+    }
+  };
+
+  return {
+    pull: async () => {
+      const body = await request();
+      if (!Array.isArray(body?.rows)) {
+        throw new Error('The sheet did not answer with a list of rows');
+      }
+      return body.rows.map(toSheetRow);
+    },
+    push: async (rows) => {
+      // Sent as plain text, which needs no CORS preflight; Apps Script can't answer one
+      const body = await request({
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
+        body: JSON.stringify({ action: 'push', rows })
+      });
+      if (body?.ok === false) {
+        throw new Error(body.error ? `The sheet refused the update: ${body.error}` : 'The sheet refused the update');
+      }
+    }
+  };
+}
@@ -0,0 +1,577 @@
+import { differenceInCalendarDays, format, isValid, parseISO, startOfDay } from "date-fns";
+import { ProjectBaseline, ProjectCalendar, Task } from "@/types/project";
+import { computeSchedule } from "@/utils/scheduling";
+import { formatVariance, getTaskVariance } from "@/utils/baselines";
+import { Drawing, Shape, fitText, textWidth, wrapText } from "@/utils/drawing";
+import { downloadBlob } from "@/utils/download";
+import { splitAssignees, toDate } from "@/utils/workingCalendar";
+import { writePdf } from "@/utils/pdfWriter";
+
+export type ReportSection = 'summary' | 'kpis' | 'charts' | 'milestones' | 'overdue' | 'team';
+export type ReportPageSize = 'a4' | 'letter';
+
+// In the order they appear in the report
+export const REPORT_SECTIONS: { value: ReportSection; label: string; description: string }[] = [
+  { value: 'summary', label: 'Executive summary', description: 'The text written below' },
+  { value: 'kpis', label: 'Key figures', description: 'Completion, milestones, overdue work and the projected finish' },
+  { value: 'charts', label: 'Charts', description: 'Task status and task type breakdowns' },
+  { value: 'milestones', label: 'Milestone status', description: 'Every milestone with its due date and state' },
+  { value: 'overdue', label: 'Overdue tasks', description: 'Unfinished tasks past their finish date' },
+  { value: 'team', label: 'Team performance', description: 'Tasks and completion per assignee' }
+];
+
+// Portrait, in points
+export const REPORT_PAGE_SIZES: { value: ReportPageSize; label: string; width: number; height: number }[] = [
+  { value: 'a4', label: 'A4', width: 595, height: 842 },
+  { value: 'letter', label: 'Letter', width: 612, height: 792 }
+];
+
+export interface StatusReportOptions {
+  projectName: string;
+  sections: ReportSection[];
+  executiveSummary: string;
+  pageSize: ReportPageSize;
+  calendar?: ProjectCalendar;
+  baseline?: ProjectBaseline;   // Adds baseline variance to the key figures and milestones
+}
+
+export interface TeamMemberStats {
+  assignee: string;
+  total: number;
+  completed: number;
+  inProgress: number;
+  overdue: number;
+  completionRate: number;
+}
+
+export interface ReportAnalytics {
+  totalTasks: number;
+  completedTasks: number;
+  inProgressTasks: number;
+  notStartedTasks: number;
+  onHoldTasks: number;
+  milestones: Task[];            // By due date
+  completedMilestones: number;
+  deliverables: number;
+  completedDeliverables: number;
+  overdueTasks: Task[];          // Most overdue first
+  upcomingTasks: Task[];         // Not started, starting within the next 7 days
+  teamPerformance: TeamMemberStats[];
+  statusData: { name: string; value: number; color: string }[];
+  typeData: { name: string; value: number; color: string }[];
+  completionRate: number;
+  milestoneCompletionRate: number;
+  deliverableCompletionRate: number;
+}
+
+const UPCOMING_DAYS = 7;
+const DUE_SOON_DAYS = 14;
+
+// Status groups, matching the colors the Gantt chart uses
+const STATUS_GROUPS = [
+  { name: 'Completed', statuses: ['completed', 'done'], color: '#16a34a' },
+  { name: 'In Progress', statuses: ['in-progress', 'dev-in-progress', 'on-going'], color: '#2563eb' },
+  { name: 'Not Started', statuses: ['not-started'], color: '#94a3b8' },
+  { name: 'On Hold', statuses: ['on-hold'], color: '#d97706' },
+  { name: 'Impacted', statuses: ['impacted'], color: '#dc2626' }
+];
+
+const TYPE_GROUPS = [
+  { name: 'Tasks', type: 'task', color: '#2563eb' },
+  { name: 'Milestones', type: 'milestone', color: '#a855f7' },
+  { name: 'Deliverables', type: 'deliverable', color: '#0d9488' }
+];
+
+const inGroup = (task: Task, name: string) => STATUS_GROUPS.find(group => group.name === name)!.statuses.includes(task.status);
+const isCompleted = (task: Task) => inGroup(task, 'Completed');
+const isInProgress = (task: Task) => inGroup(task, 'In Progress');
+
+const percent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 100) : 0;
+
+// Calendar days an unfinished task is past its finish date; 0 when it isn't late
+export function daysOverdue(task: Task, now = new Date()): number {
+  const end = toDate(task.end_date);
+  if (isCompleted(task) || !isValid(end)) return 0;
+  return Math.max(0, differenceInCalendarDays(startOfDay(now), end));
+}
+
+/**
+ * The figures shown on the Analytics tab and in the PDF status report.
+ * Tasks without valid dates are counted but never overdue or upcoming.
+ */
+export function getReportAnalytics(tasks: Task[], now = new Date()): ReportAnalytics {
+  const today = startOfDay(now);
+  const milestones = tasks
+    .filter(task => task.task_type === 'milestone')
+    .sort((a, b) => a.end_date.localeCompare(b.end_date));
+  const deliverables = tasks.filter(task => task.task_type === 'deliverable');
+
+  const overdueTasks = tasks
+    .filter(task => daysOverdue(task, now) > 0)
+    .sort((a, b) => daysOverdue(b, now) - daysOverdue(a, now));
+  const upcomingTasks = tasks.filter(task => {
+    if (task.status !== 'not-started') return false;
+    const days = differenceInCalendarDays(toDate(task.start_date), today);
+    return days > 0 && days <= UPCOMING_DAYS;
+  });
+
+  const team = new Map<string, TeamMemberStats>();
+  for (const task of tasks) {
+    for (const assignee of splitAssignees(task.assignee)) {
+      const stats = team.get(assignee) || { assignee, total: 0, completed: 0, inProgress: 0, overdue: 0, completionRate: 0 };
+      stats.total++;
+      if (isCompleted(task)) stats.completed++;
+      if (isInProgress(task)) stats.inProgress++;
+      if (daysOverdue(task, now) > 0) stats.overdue++;
+      team.set(assignee, stats);
+    }
+  }
+  const teamPerformance = [...team.values()]
+    .map(stats => ({ ...stats, completionRate: percent(stats.completed, stats.total) }))
+    .sort((a, b) => a.assignee.localeCompare(b.assignee));
+
+  const statusData = STATUS_GROUPS.map(group => ({
+    name: group.name,
+    value: tasks.filter(task => group.statuses.includes(task.status)).length,
+    color: group.color
+  }));
+  const count = (name: string) => statusData.find(item => item.name === name)!.value;
+  const completedMilestones = milestones.filter(isCompleted).length;
+  const completedDeliverables = deliverables.filter(isCompleted).length;
+
+  return {
+    totalTasks: tasks.length,
+    completedTasks: count('Completed'),
+    inProgressTasks: count('In Progress'),
+    notStartedTasks: count('Not Started'),
+    onHoldTasks: count('On Hold'),
+    milestones,
+    completedMilestones,
+    deliverables: deliverables.length,
+    completedDeliverables,
+    overdueTasks,
+    upcomingTasks,
+    teamPerformance,
+    statusData,
+    typeData: TYPE_GROUPS.map(group => ({
+      name: group.name,
+      value: tasks.filter(task => task.task_type === group.type).length,
+      color: group.color
+    })),
+    completionRate: percent(count('Completed'), tasks.length),
+    milestoneCompletionRate: percent(completedMilestones, milestones.length),
+    deliverableCompletionRate: percent(completedDeliverables, deliverables.length)
+  };
+}
+
+const BRAND_NAME = 'Project Manager Pro';
+
+const COLORS = {
+  brand: '#0f172a',
+  accent: '#60a5fa',
+  text: '#0f172a',
+  muted: '#64748b',
+  grid: '#e2e8f0',
+  panel: '#f8fafc',
+  track: '#e2e8f0',
+  success: '#16a34a',
+  warning: '#d97706',
+  danger: '#dc2626',
+  milestone: '#a855f7'
+};
+
+const MARGIN = 40;
+const BAND_HEIGHT = 36;
+const FOOTER_HEIGHT = 34;
+const SECTION_GAP = 22;
+const HEADING_HEIGHT = 28;
+const BODY_SIZE = 10;
+const LINE_HEIGHT = 14;
+const SMALL_SIZE = 8;
+const ROW_HEIGHT = 17;
+const CARD_HEIGHT = 66;
+const CARD_GAP = 10;
+const CHART_HEIGHT = 150;
+const CELL_PADDING = 5;
+
+// Page layout with a cursor that moves down the page; shapes go onto the last page
+interface PageFlow {
+  width: number;
+  height: number;
+  pages: Shape[][];
+  y: number;
+}
+
+const CONTENT_TOP = BAND_HEIGHT + 28;
+const contentBottom = (flow: PageFlow) => flow.height - FOOTER_HEIGHT - 12;
+const contentWidth = (flow: PageFlow) => flow.width - MARGIN * 2;
+const currentPage = (flow: PageFlow) => flow.pages[flow.pages.length - 1];
+
+function newPage(flow: PageFlow) {
+  flow.pages.push([]);
+  flow.y = CONTENT_TOP;
+}
+
+// Moves to a new page unless `height` still fits below the cursor
+function reserve(flow: PageFlow, height: number): boolean {
+  if (flow.y + height <= contentBottom(flow)) return false;
+  newPage(flow);
+  return true;
+}
+
+function progressBar(x: number, y: number, width: number, value: number, fill: string): Shape[] {
+  const filled = (width * Math.max(0, Math.min(100, value))) / 100;
+  return [
+    { type: 'rect', x, y, width, height: 5, fill: COLORS.track },
+    ...(filled > 0 ? [{ type: 'rect', x, y, width: filled, height: 5, fill } as Shape] : [])
+  ];
+}
+
+// Headings keep at least `keepWith` points of their section on the same page
+function drawHeading(flow: PageFlow, title: string, keepWith = 2 * ROW_HEIGHT) {
+  if (flow.y > CONTENT_TOP) flow.y += SECTION_GAP;
+  reserve(flow, HEADING_HEIGHT + keepWith);
+  currentPage(flow).push(
+    { type: 'text', x: MARGIN, y: flow.y + 14, text: title, size: 13, bold: true, color: COLORS.text },
+    { type: 'rect', x: MARGIN, y: flow.y + 20, width: 28, height: 2, fill: COLORS.accent }
+  );
+  flow.y += HEADING_HEIGHT;
+}
+
+function drawParagraphs(flow: PageFlow, text: string) {
+  for (const line of wrapText(text, contentWidth(flow), BODY_SIZE)) {
+    reserve(flow, LINE_HEIGHT);
+    if (line) currentPage(flow).push({ type: 'text', x: MARGIN, y: flow.y + 10, text: line, size: BODY_SIZE, color: COLORS.text });
+    flow.y += LINE_HEIGHT;
+  }
+}
+
+function drawNote(flow: PageFlow, text: string) {
+  reserve(flow, LINE_HEIGHT);
+  currentPage(flow).push({ type: 'text', x: MARGIN, y: flow.y + 10, text, size: 9, color: COLORS.muted });
+  flow.y += LINE_HEIGHT;
+}
+
+interface KpiCard {
+  label: string;
+  value: string;
+  detail: string;
+  color: string;
+  progress?: number;
+}
+
+function drawCards(flow: PageFlow, cards: KpiCard[]) {
+  const cardWidth = (contentWidth(flow) - CARD_GAP * (cards.length - 1)) / cards.length;
+  reserve(flow, CARD_HEIGHT);
+  cards.forEach((card, index) => {
+    const x = MARGIN + index * (cardWidth + CARD_GAP);
+    const inner = cardWidth - 20;
+    currentPage(flow).push(
+      { type: 'rect', x, y: flow.y, width: cardWidth, height: CARD_HEIGHT, fill: COLORS.panel, stroke: COLORS.grid },
+      { type: 'rect', x, y: flow.y, width: 3, height: CARD_HEIGHT, fill: card.color },
+      { type: 'text', x: x + 10, y: flow.y + 15, text: fitText(card.label, inner, SMALL_SIZE), size: SMALL_SIZE, color: COLORS.muted },
+      { type: 'text', x: x + 10, y: flow.y + 37, text: fitText(card.value, inner, 17, true), size: 17, bold: true, color: card.color },
+      { type: 'text', x: x + 10, y: flow.y + 50, text: fitText(card.detail, inner, 7), size: 7, color: COLORS.muted },
+      ...(card.progress !== undefined ? progressBar(x + 10, flow.y + 55, inner, card.progress, card.color) : [])
+    );
+  });
+  flow.y += CARD_HEIGHT;
+}
+
+// Pie slice outlines are approximated with short straight segments
+function pieSlice(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): [number, number][] {
+  const steps = Math.max(2, Math.ceil((endAngle - startAngle) / (Math.PI / 45)));
+  const arc = Array.from({ length: steps + 1 }, (_, index): [number, number] => {
+    const angle = startAngle + ((endAngle - startAngle) * index) / steps;
+    return [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+  });
+  return endAngle - startAngle >= Math.PI * 2 - 1e-6 ? arc : [[cx, cy], ...arc];
+}
+
+function drawStatusPie(shapes: Shape[], x: number, y: number, width: number, analytics: ReportAnalytics) {
+  const radius = 52;
+  const cx = x + radius;
+  const cy = y + 28 + radius;
+  shapes.push({ type: 'text', x, y: y + 12, text: 'Task status', size: 10, bold: true, color: COLORS.text });
+
+  let angle = -Math.PI / 2;
+  for (const item of analytics.statusData.filter(entry => entry.value > 0)) {
+    const sweep = (item.value / analytics.totalTasks) * Math.PI * 2;
+    shapes.push({ type: 'polygon', points: pieSlice(cx, cy, radius, angle, angle + sweep), fill: item.color, stroke: '#ffffff', lineWidth: 0.75 });
+    angle += sweep;
+  }
+  shapes.push({ type: 'polygon', points: pieSlice(cx, cy, radius * 0.55, 0, Math.PI * 2), fill: '#ffffff' });
+  shapes.push({ type: 'text', x: cx, y: cy + 5, text: `${analytics.completionRate}%`, size: 13, bold: true, color: COLORS.text, align: 'center' });
+
+  const legendX = cx + radius + 16;
+  analytics.statusData.forEach((item, index) => {
+    const top = y + 36 + index * 16;
+    shapes.push(
+      { type: 'rect', x: legendX, y: top - 7, width: 8, height: 8, fill: item.color },
+      { type: 'text', x: legendX + 13, y: top, text: item.name, size: SMALL_SIZE, color: COLORS.text },
+      { type: 'text', x: x + width, y: top, text: `${item.value} · ${percent(item.value, analytics.totalTasks)}%`, size: SMALL_SIZE, color: COLORS.muted, align: 'right' }
+    );
+  });
+}
+
+function drawBarChart(shapes: Shape[], x: number, y: number, width: number, title: string, items: { name: string; value: number; color: string }[]) {
+  const labelWidth = 70;
+  const valueWidth = 40;
+  const max = Math.max(1, ...items.map(item => item.value));
+  shapes.push({ type: 'text', x, y: y + 12, text: title, size: 10, bold: true, color: COLORS.text });
+  items.forEach((item, index) => {
+    const top = y + 30 + index * 24;
+    const barWidth = ((width - labelWidth - valueWidth) * item.value) / max;
+    shapes.push(
+      { type: 'text', x, y: top + 9, text: fitText(item.name, labelWidth - 6, SMALL_SIZE), size: SMALL_SIZE, color: COLORS.text },
+      { type: 'rect', x: x + labelWidth, y: top, width: width - labelWidth - valueWidth, height: 12, fill: COLORS.panel },
+      ...(barWidth > 0 ? [{ type: 'rect', x: x + labelWidth, y: top, width: barWidth, height: 12, fill: item.color } as Shape] : []),
+      { type: 'text', x: x + width, y: top + 9, text: String(item.value), size: SMALL_SIZE, color: COLORS.muted, align: 'right' }
+    );
+  });
+}
+
+interface ReportColumn<T> {
+  label: string;
+  share: number; // Fraction of the content width
+  align?: 'left' | 'right';
+  text: (row: T) => string;
+  color?: (row: T) => string;
+  bar?: (row: T) => number; // Draws a percentage bar before the text
+}
+
+// Rows that don't fit move to the next page, under a repeated header row
+function drawTable<T>(flow: PageFlow, columns: ReportColumn<T>[], rows: T[]) {
+  const width = contentWidth(flow);
+  const lefts = columns.map((_, index) => MARGIN + columns.slice(0, index).reduce((sum, column) => sum + column.share * width, 0));
+
+  const drawHeader = () => {
+    currentPage(flow).push({ type: 'rect', x: MARGIN, y: flow.y, width, height: ROW_HEIGHT, fill: COLORS.panel });
+    columns.forEach((column, index) => {
+      const cellWidth = column.share * width - CELL_PADDING * 2;
+      currentPage(flow).push({
+        type: 'text',
+        x: column.align === 'right' ? lefts[index] + column.share * width - CELL_PADDING : lefts[index] + CELL_PADDING,
+        y: flow.y + 12,
+        text: fitText(column.label, cellWidth, SMALL_SIZE, true),
+        size: SMALL_SIZE,
+        bold: true,
+        color: COLORS.muted,
+        align: column.align || 'left'
+      });
+    });
+    flow.y += ROW_HEIGHT;
+  };
+
+  reserve(flow, ROW_HEIGHT * 2);
+  drawHeader();
+  for (const row of rows) {
+    if (reserve(flow, ROW_HEIGHT)) drawHeader();
+    const shapes = currentPage(flow);
+    columns.forEach((column, index) => {
+      let left = lefts[index] + CELL_PADDING;
+      let cellWidth = column.share * width - CELL_PADDING * 2;
+      if (column.bar) {
+        const barWidth = cellWidth - 34;
+        shapes.push(...progressBar(left, flow.y + 6, barWidth, column.bar(row), COLORS.success));
+        left += barWidth + 6;
+        cellWidth = 28;
+      }
+      const text = fitText(column.text(row), cellWidth, SMALL_SIZE);
+      shapes.push({
+        type: 'text',
+        x: column.align === 'right' ? left + cellWidth : left,
+        y: flow.y + 11.5,
+        text,
+        size: SMALL_SIZE,
+        color: column.color?.(row) || COLORS.text,
+        align: column.align || 'left'
+      });
+    });
+    shapes.push({ type: 'line', x1: MARGIN, y1: flow.y + ROW_HEIGHT, x2: MARGIN + width, y2: flow.y + ROW_HEIGHT, stroke: COLORS.grid, lineWidth: 0.5 });
+    flow.y += ROW_HEIGHT;
+  }
+}
+
+const statusLabel = (status: string) => status.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+const formatDate = (value: string) => {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'MMM d, yyyy') : '';
+};
+
+function milestoneState(task: Task, now: Date): { label: string; color: string } {
+  if (isCompleted(task)) return { label: 'Done', color: COLORS.success };
+  if (daysOverdue(task, now) > 0) return { label: 'Late', color: COLORS.danger };
+  const daysLeft = differenceInCalendarDays(toDate(task.end_date), startOfDay(now));
+  if (daysLeft <= DUE_SOON_DAYS) return { label: 'Due soon', color: COLORS.warning };
+  return { label: 'On track', color: COLORS.muted };
+}
+
+function drawSections(flow: PageFlow, tasks: Task[], options: StatusReportOptions, now: Date) {
+  const analytics = getReportAnalytics(tasks, now);
+  const sections = REPORT_SECTIONS.map(section => section.value).filter(section => options.sections.includes(section));
+  const { baseline, calendar } = options;
+
+  for (const section of sections) {
+    switch (section) {
+      case 'summary': {
+        if (!options.executiveSummary.trim()) break;
+        drawHeading(flow, 'Executive summary', LINE_HEIGHT * 2);
+        drawParagraphs(flow, options.executiveSummary.trim());
+        break;
+      }
+      case 'kpis': {
+        const schedule = computeSchedule(tasks, calendar);
+        const variances = baseline
+          ? tasks.map(task => getTaskVariance(task, baseline, calendar)).filter(variance => variance)
+          : [];
+        const slipped = variances.filter(variance => variance.finishVariance > 0).length;
+        drawHeading(flow, 'Key figures', CARD_HEIGHT * 2 + CARD_GAP);
+        drawCards(flow, [
+          { label: 'Project completion', value: `${analytics.completionRate}%`, detail: `${analytics.completedTasks} of ${analytics.totalTasks} tasks completed`, color: COLORS.accent, progress: analytics.completionRate },
+          { label: 'Milestones', value: `${analytics.completedMilestones}/${analytics.milestones.length}`, detail: `${analytics.milestoneCompletionRate}% completed`, color: COLORS.milestone, progress: analytics.milestoneCompletionRate },
+          { label: 'Overdue tasks', value: String(analytics.overdueTasks.length), detail: 'Unfinished past their finish date', color: analytics.overdueTasks.length > 0 ? COLORS.danger : COLORS.success },
+          { label: 'Upcoming tasks', value: String(analytics.upcomingTasks.length), detail: `Starting within the next ${UPCOMING_DAYS} days`, color: COLORS.warning }
+        ]);
+        flow.y += CARD_GAP;
+        drawCards(flow, [
+          { label: 'Deliverables', value: `${analytics.completedDeliverables}/${analytics.deliverables}`, detail: `${analytics.deliverableCompletionRate}% completed`, color: '#0d9488', progress: analytics.deliverableCompletionRate },
+          { label: 'In progress', value: String(analytics.inProgressTasks), detail: `${analytics.onHoldTasks} on hold`, color: '#2563eb' },
+          { label: 'Projected finish', value: tasks.length > 0 ? format(schedule.projectFinish, 'MMM d, yyyy') : '-', detail: `${schedule.criticalPath.length} tasks on the critical path`, color: COLORS.text },
+          baseline
+            ? { label: `Against ${baseline.name}`, value: `${slipped} late`, detail: `of ${variances.length} tasks in the baseline`, color: slipped > 0 ? COLORS.danger : COLORS.success }
+            : { label: 'Baseline', value: 'None', detail: 'Set a baseline to track slippage', color: COLORS.muted }
+        ]);
+        break;
+      }
+      case 'charts': {
+        drawHeading(flow, 'Charts', CHART_HEIGHT);
+        if (analytics.totalTasks === 0) {
+          drawNote(flow, 'There are no tasks to chart yet.');
+          break;
+        }
+        const half = (contentWidth(flow) - 30) / 2;
+        drawStatusPie(currentPage(flow), MARGIN, flow.y, half, analytics);
+        drawBarChart(currentPage(flow), MARGIN + half + 30, flow.y, half, 'Task types', analytics.typeData);
+        flow.y += CHART_HEIGHT;
+        break;
+      }
+      case 'milestones': {
+        drawHeading(flow, `Milestone status (${analytics.completedMilestones} of ${analytics.milestones.length} done)`);
+        if (analytics.milestones.length === 0) {
+          drawNote(flow, 'This project has no milestones.');
+          break;
+        }
+        const columns: ReportColumn<Task>[] = [
+          { label: 'Milestone', share: baseline ? 0.4 : 0.5, text: task => task.name },
+          { label: 'Due', share: 0.16, text: task => formatDate(task.end_date) },
+          { label: 'Status', share: 0.17, text: task => statusLabel(task.status) },
+          { label: 'State', share: 0.17, text: task => milestoneState(task, now).label, color: task => milestoneState(task, now).color }
+        ];
+        if (baseline) {
+          columns.push({
+            label: 'Finish var.',
+            share: 0.1,
+            align: 'right',
+            text: task => {
+              const variance = getTaskVariance(task, baseline, calendar);
+              return variance ? formatVariance(variance.finishVariance) : '-';
+            },
+            color: task => (getTaskVariance(task, baseline, calendar)?.finishVariance || 0) > 0 ? COLORS.danger : COLORS.text
+          });
+        }
+        drawTable(flow, columns, analytics.milestones);
+        break;
+      }
+      case 'overdue': {
+        drawHeading(flow, `Overdue tasks (${analytics.overdueTasks.length})`);
+        if (analytics.overdueTasks.length === 0) {
+          drawNote(flow, 'No tasks are overdue.');
+          break;
+        }
+        drawTable(flow, [
+          { label: 'Task', share: 0.38, text: task => task.name },
+          { label: 'Assignee', share: 0.2, text: task => task.assignee || 'Unassigned' },
+          { label: 'Due', share: 0.15, text: task => formatDate(task.end_date) },
+          { label: 'Days late', share: 0.11, align: 'right', text: task => String(daysOverdue(task, now)), color: () => COLORS.danger },
+          { label: 'Status', share: 0.16, text: task => statusLabel(task.status) }
+        ], analytics.overdueTasks);
+        break;
+      }
+      case 'team': {
+        drawHeading(flow, 'Team performance');
+        if (analytics.teamPerformance.length === 0) {
+          drawNote(flow, 'No tasks are assigned yet.');
+          break;
+        }
+        drawTable<TeamMemberStats>(flow, [
+          { label: 'Assignee', share: 0.3, text: stats => stats.assignee },
+          { label: 'Tasks', share: 0.1, align: 'right', text: stats => String(stats.total) },
+          { label: 'Completed', share: 0.12, align: 'right', text: stats => String(stats.completed) },
+          { label: 'In progress', share: 0.12, align: 'right', text: stats => String(stats.inProgress) },
+          { label: 'Overdue', share: 0.1, align: 'right', text: stats => String(stats.overdue), color: stats => stats.overdue > 0 ? COLORS.danger : COLORS.text },
+          { label: 'Completion', share: 0.26, text: stats => `${stats.completionRate}%`, bar: stats => stats.completionRate }
+        ], analytics.teamPerformance);
+        break;
+      }
+    }
+  }
+}
+
+// The brand band and footer, added once the page count is known
+function pageChrome(flow: PageFlow, projectName: string, pageIndex: number, now: Date): Shape[] {
+  const footerY = flow.height - FOOTER_HEIGHT;
+  const pageLabel = `Page ${pageIndex + 1} of ${flow.pages.length}`;
+  const footerText = `${projectName} · Status report · ${format(now, 'MMM d, yyyy')}`;
+  return [
+    { type: 'rect', x: 0, y: 0, width: flow.width, height: BAND_HEIGHT, fill: COLORS.brand },
+    { type: 'rect', x: 0, y: BAND_HEIGHT, width: flow.width, height: 3, fill: COLORS.accent },
+    { type: 'text', x: MARGIN, y: 23, text: BRAND_NAME, size: 11, bold: true, color: '#ffffff' },
+    { type: 'text', x: flow.width - MARGIN, y: 23, text: 'Status report', size: 9, color: '#cbd5e1', align: 'right' },
+    { type: 'line', x1: MARGIN, y1: footerY, x2: flow.width - MARGIN, y2: footerY, stroke: COLORS.grid, lineWidth: 0.5 },
+    {
+      type: 'text',
+      x: MARGIN,
+      y: footerY + 14,
+      text: fitText(footerText, contentWidth(flow) - textWidth(pageLabel, 7.5) - 20, 7.5),
+      size: 7.5,
+      color: COLORS.muted
+    },
+    { type: 'text', x: flow.width - MARGIN, y: footerY + 14, text: pageLabel, size: 7.5, color: COLORS.muted, align: 'right' }
+  ];
+}
+
+/**
+ * Lays the status report out as pages, in the order of REPORT_SECTIONS.
+ * The executive summary is left out when it is blank.
+ */
+export function buildStatusReport(tasks: Task[], options: StatusReportOptions, now = new Date()): Drawing[] {
+  if (options.sections.length === 0) throw new Error('Choose at least one section for the report.');
+  const page = REPORT_PAGE_SIZES.find(size => size.value === options.pageSize) || REPORT_PAGE_SIZES[0];
+  const flow: PageFlow = { width: page.width, height: page.height, pages: [], y: 0 };
+  newPage(flow);
+
+  const subtitle = [
+    `Status as of ${format(now, 'MMMM d, yyyy')}`,
+    ...(options.baseline ? [`compared with ${options.baseline.name}`] : [])
+  ].join(', ');
+  currentPage(flow).push(
+    { type: 'text', x: MARGIN, y: flow.y + 16, text: fitText(options.projectName, contentWidth(flow), 20, true), size: 20, bold: true, color: COLORS.text },
+    { type: 'text', x: MARGIN, y: flow.y + 34, text: fitText(subtitle, contentWidth(flow), BODY_SIZE), size: BODY_SIZE, color: COLORS.muted }
+  );
+  flow.y += 44;
+
+  drawSections(flow, tasks, options, now);
+
+  return flow.pages.map((shapes, index) => ({
+    width: flow.width,
+    height: flow.height,
+    shapes: [...pageChrome(flow, options.projectName, index, now), ...shapes]
+  }));
+}
+
+export async function exportStatusReport(tasks: Task[], options: StatusReportOptions) {
+  const pdf = await writePdf(buildStatusReport(tasks, options), `${options.projectName} status report`);
+  downloadBlob(pdf, `${options.projectName}_Status_Report_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+}
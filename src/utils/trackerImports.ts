@@ -0,0 +1,458 @@
+import { format } from "date-fns";
+import { CustomField, FieldType, TaskStatus, TaskType } from "@/types/project";
+import { ParsedCsv } from "@/utils/csvParser";
+import { parseImportDate } from "@/utils/dateFormats";
+import { findDependencyCycles, getDependencyIds, normalizeDependencies } from "@/utils/dependencies";
+import { generateId } from "@/utils/idGenerator";
+import { ImportedTask } from "@/utils/mspdiImport";
+
+export type TrackerSource = 'jira' | 'trello' | 'asana';
+
+export interface TrackerImportResult {
+  projectName: string;
+  tasks: ImportedTask[];
+  customFields: CustomField[]; // Labels and story point fields that have no matching field in the project yet
+  warnings: string[];
+}
+
+/**
+ * Where each task property is found in a tracker's CSV export. Every column
+ * named is read, including repeated ones such as Jira's Labels; single
+ * values come from the first that is filled in. Header names are matched
+ * ignoring case.
+ */
+export interface CsvTrackerPreset {
+  label: string;
+  key: string[];          // IDs of the item that parents and links refer to; the first is kept as its external ID
+  name: string[];
+  description: string[];
+  type: string[];
+  status: string[];
+  assignee: string[];
+  start: string[];
+  end: string[];
+  created: string[];      // Start date when there is none
+  completed: string[];    // Completion date; marks the item as done
+  parent: string[];       // Key or name of the parent item, e.g. the epic
+  predecessors: string[]; // Keys of the items this one waits for
+  successors: string[];   // Keys of the items waiting for this one
+  labels: string[];
+  storyPoints: string[];
+  types: Record<string, TaskType>; // Item types that aren't plain tasks, lowercased
+}
+
+export const JIRA_PRESET: CsvTrackerPreset = {
+  label: 'Jira',
+  key: ['Issue key', 'Issue id'],
+  name: ['Summary'],
+  description: ['Description'],
+  type: ['Issue Type'],
+  status: ['Status'],
+  assignee: ['Assignee'],
+  start: ['Custom field (Start date)', 'Start date'],
+  end: ['Due date', 'Custom field (Target end)'],
+  created: ['Created'],
+  completed: ['Resolved'],
+  parent: ['Parent id', 'Parent', 'Custom field (Epic Link)'],
+  predecessors: ['Inward issue link (Blocks)'],
+  successors: ['Outward issue link (Blocks)'],
+  labels: ['Labels'],
+  storyPoints: ['Custom field (Story Points)', 'Custom field (Story point estimate)'],
+  types: { milestone: 'milestone' }
+};
+
+export const ASANA_PRESET: CsvTrackerPreset = {
+  label: 'Asana',
+  key: ['Task ID'],
+  name: ['Name'],
+  description: ['Notes'],
+  type: [],
+  status: ['Section/Column'],
+  assignee: ['Assignee'],
+  start: ['Start Date'],
+  end: ['Due Date'],
+  created: ['Created At'],
+  completed: ['Completed At'],
+  parent: ['Parent task'],
+  predecessors: ['Blocked By (Dependencies)'],
+  successors: ['Blocking (Dependencies)'],
+  labels: ['Tags'],
+  storyPoints: ['Story Points', 'Points'],
+  types: {}
+};
+
+// Workflow states, Trello lists and Asana sections as teams commonly name them, lowercased
+export const TRACKER_STATUSES: Record<string, TaskStatus> = {
+  'backlog': 'not-started',
+  'to do': 'not-started',
+  'todo': 'not-started',
+  'open': 'not-started',
+  'new': 'not-started',
+  'selected for development': 'not-started',
+  'ready': 'not-started',
+  'in progress': 'in-progress',
+  'doing': 'in-progress',
+  'in review': 'in-progress',
+  'code review': 'in-progress',
+  'review': 'in-progress',
+  'testing': 'in-progress',
+  'blocked': 'on-hold',
+  'on hold': 'on-hold',
+  'done': 'completed',
+  'closed': 'completed',
+  'resolved': 'completed',
+  'complete': 'completed',
+  'completed': 'completed'
+};
+
+const TRELLO_STORY_POINT_FIELDS = ['story points', 'points', 'estimate'];
+// Jira writes dates as 12/Mar/24 10:15 AM, which parseImportDate reads as a month-name
+// date; Asana and Trello use ISO dates
+function parseTrackerDate(text: string | undefined): string {
+  const date = parseImportDate(text || '', 'iso');
+  return date ? format(date, 'yyyy-MM-dd') : '';
+}
+
+const splitList = (values: string[]): string[] =>
+  values.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+
+// Finds a project field with the same name, or makes a new one
+function trackerField(
+  name: string,
+  fieldType: FieldType,
+  existingFields: CustomField[],
+  newFields: CustomField[],
+  options?: string[]
+): CustomField {
+  const existing = existingFields.find(field => field.name.toLowerCase() === name.toLowerCase());
+  if (existing) return existing;
+
+  const field: CustomField = {
+    id: generateId(),
+    project_id: '',
+    name,
+    field_type: fieldType,
+    required: false,
+    options,
+    created_at: new Date().toISOString()
+  };
+  newFields.push(field);
+  return field;
+}
+
+// An item as read from any tracker, before keys are turned into task IDs
+interface TrackerItem {
+  keys: string[];
+  task: ImportedTask;
+  parent?: string;
+  predecessors: string[];
+  successors: string[];
+  labels: string[];
+  storyPoints?: number;
+  status: string; // As the tracker names it
+}
+
+/**
+ * Turns items into tasks: parents and links are resolved by key (and parents
+ * by name as well), labels fill a select field and story points a number
+ * field. Links that would make a loop are dropped, as the project would
+ * refuse them.
+ */
+function buildTrackerResult(
+  projectName: string,
+  items: TrackerItem[],
+  existingFields: CustomField[],
+  warnings: string[]
+): TrackerImportResult {
+  const byKey = new Map<string, TrackerItem>();
+  const byName = new Map<string, TrackerItem[]>();
+  items.forEach(item => {
+    item.keys.forEach(key => byKey.set(key.toLowerCase(), item));
+    const name = item.task.name.toLowerCase();
+    byName.set(name, [...(byName.get(name) || []), item]);
+  });
+  const find = (reference: string) => byKey.get(reference.toLowerCase());
+
+  const unknownStatuses = new Set<string>();
+  items.forEach(item => {
+    if (item.status && !TRACKER_STATUSES[item.status.toLowerCase()]) unknownStatuses.add(item.status);
+  });
+  if (unknownStatuses.size > 0) {
+    warnings.push(`Statuses not recognised, imported as Not Started: ${[...unknownStatuses].join(', ')}`);
+  }
+
+  items.forEach(item => {
+    if (!item.parent) return;
+    const namesakes = byName.get(item.parent.toLowerCase()) || [];
+    const parent = find(item.parent) || (namesakes.length === 1 ? namesakes[0] : undefined);
+    if (parent && parent !== item) {
+      item.task.parent_id = parent.task.id;
+    } else if (namesakes.length > 1) {
+      warnings.push(`"${item.task.name}": more than one item is called "${item.parent}"; it was not placed under either`);
+    } else {
+      warnings.push(`"${item.task.name}": its parent "${item.parent}" is not in the file`);
+    }
+  });
+
+  // A parent chain that comes back round is cut at the first task found in it
+  const tasksById = new Map(items.map(item => [item.task.id, item.task]));
+  items.forEach(({ task }) => {
+    let ancestorId = task.parent_id;
+    for (let steps = 0; ancestorId && ancestorId !== task.id && steps < items.length; steps++) {
+      ancestorId = tasksById.get(ancestorId)?.parent_id;
+    }
+    if (ancestorId === task.id) {
+      warnings.push(`"${task.name}" is its own ancestor; it was moved to the top level`);
+      task.parent_id = null;
+    }
+  });
+
+  const link = (successor: TrackerItem, predecessor: TrackerItem | undefined, reference: string) => {
+    if (!predecessor) {
+      warnings.push(`"${successor.task.name}" links to "${reference}", which is not in the file; the link was dropped`);
+    } else if (predecessor !== successor && !getDependencyIds(successor.task.dependencies).includes(predecessor.task.id)) {
+      successor.task.dependencies.push({ task_id: predecessor.task.id, type: 'FS', lag: 0 });
+    }
+  };
+  items.forEach(item => {
+    item.predecessors.forEach(reference => link(item, find(reference), reference));
+    item.successors.forEach(reference => {
+      const successor = find(reference);
+      if (successor) link(successor, item, item.keys[0]);
+      else warnings.push(`"${item.task.name}" links to "${reference}", which is not in the file; the link was dropped`);
+    });
+  });
+
+  const tasks = items.map(item => item.task);
+  for (let cycles = findDependencyCycles(tasks); cycles.length > 0; cycles = findDependencyCycles(tasks)) {
+    const [predecessorId, successorId] = cycles[0];
+    const successor = tasksById.get(successorId)!;
+    successor.dependencies = normalizeDependencies(successor.dependencies).filter(dep => dep.task_id !== predecessorId);
+    warnings.push(`"${successor.name}" and "${tasksById.get(predecessorId)!.name}" wait for each other; one link was dropped`);
+  }
+
+  const newFields: CustomField[] = [];
+  const labels = [...new Set(items.flatMap(item => item.labels))].sort((a, b) => a.localeCompare(b));
+  const labelField = labels.length > 0 ? trackerField('Labels', 'select', existingFields, newFields, labels) : undefined;
+  const missingOptions = labelField?.field_type === 'select' && Array.isArray(labelField.options)
+    ? labels.filter(label => !labelField.options.includes(label))
+    : [];
+  if (missingOptions.length > 0) {
+    warnings.push(`Labels that are not options of the project's "${labelField!.name}" field: ${missingOptions.join(', ')}`);
+  }
+  const hasPoints = items.some(item => item.storyPoints !== undefined);
+  const pointsField = hasPoints ? trackerField('Story Points', 'number', existingFields, newFields) : undefined;
+
+  let multiLabelled = 0;
+  items.forEach(item => {
+    const customFields: Record<string, unknown> = {};
+    // A select field holds one value
+    if (labelField && item.labels.length > 0) customFields[labelField.id] = item.labels[0];
+    if (item.labels.length > 1) multiLabelled++;
+    if (pointsField && item.storyPoints !== undefined) customFields[pointsField.id] = item.storyPoints;
+    item.task.custom_fields = customFields;
+  });
+  if (multiLabelled > 0) {
+    warnings.push(`${multiLabelled} ${multiLabelled === 1 ? 'item has' : 'items have'} more than one label; only the first was kept`);
+  }
+
+  return { projectName, tasks, customFields: newFields, warnings };
+}
+
+function newTrackerTask(
+  name: string,
+  start: string,
+  end: string,
+  status: TaskStatus,
+  fields: Partial<ImportedTask> = {}
+): ImportedTask {
+  return {
+    id: generateId(),
+    name,
+    description: '',
+    task_type: 'task',
+    status,
+    start_date: start,
+    end_date: end < start ? start : end,
+    assignee: '',
+    progress: status === 'completed' ? 100 : 0,
+    dependencies: [],
+    parent_id: null,
+    ...fields
+  };
+}
+
+/**
+ * Reads a Jira or Asana CSV export with its preset. Items without a start
+ * date start when they were created, and items without a due date take
+ * their completion or start date.
+ */
+export function importFromTrackerCsv(
+  csv: ParsedCsv,
+  preset: CsvTrackerPreset,
+  existingFields: CustomField[] = []
+): TrackerImportResult {
+  const headers = csv.headers.map(header => header.trim().toLowerCase());
+  const columnsFor = (names: string[]) => names.flatMap(name =>
+    headers.flatMap((header, index) => header === name.toLowerCase() ? [index] : [])
+  );
+  if (columnsFor(preset.name).length === 0) {
+    throw new Error(`This doesn't look like a ${preset.label} export: it has no ${preset.name.join(' or ')} column`);
+  }
+
+  const warnings: string[] = [];
+  const items: TrackerItem[] = [];
+  csv.rows.forEach((row, index) => {
+    const all = (names: string[]) => columnsFor(names).map(column => row[column]?.trim() || '').filter(Boolean);
+    const first = (names: string[]) => all(names)[0] || '';
+
+    const name = first(preset.name);
+    if (!name) return;
+
+    const completedOn = parseTrackerDate(first(preset.completed));
+    const start = parseTrackerDate(first(preset.start)) || parseTrackerDate(first(preset.created));
+    const end = parseTrackerDate(first(preset.end)) || completedOn || start;
+    if (!start && !end) {
+      warnings.push(`Row ${csv.rowNumbers[index]} ("${name}") has no dates; it was skipped`);
+      return;
+    }
+
+    const statusName = first(preset.status);
+    const status = completedOn ? 'completed' : TRACKER_STATUSES[statusName.toLowerCase()] || 'not-started';
+    const keys = all(preset.key);
+    const points = parseFloat(first(preset.storyPoints));
+    items.push({
+      keys,
+      task: newTrackerTask(name, start || end, end || start, status, {
+        description: first(preset.description),
+        task_type: preset.types[first(preset.type).toLowerCase()] || 'task',
+        assignee: first(preset.assignee),
+        external_id: keys[0]
+      }),
+      parent: first(preset.parent) || undefined,
+      predecessors: splitList(all(preset.predecessors)),
+      successors: splitList(all(preset.successors)),
+      labels: [...new Set(splitList(all(preset.labels)))],
+      storyPoints: isNaN(points) ? undefined : points,
+      status: completedOn ? '' : statusName
+    });
+  });
+
+  return buildTrackerResult('', items, existingFields, warnings);
+}
+
+interface TrelloCard {
+  id: string;
+  shortLink?: string;
+  name: string;
+  desc?: string;
+  idList: string;
+  idMembers?: string[];
+  labels?: { name?: string; color?: string }[];
+  start?: string | null;
+  due?: string | null;
+  dueComplete?: boolean;
+  closed?: boolean;
+  pos?: number;
+  attachments?: { url?: string }[];
+  customFieldItems?: { idCustomField: string; value?: { number?: string } }[];
+}
+
+interface TrelloBoard {
+  name?: string;
+  cards?: TrelloCard[];
+  lists?: { id: string; name: string; closed?: boolean; pos?: number }[];
+  members?: { id: string; fullName?: string; username?: string }[];
+  checklists?: { idCard: string; pos?: number; checkItems?: { name: string; state?: string; due?: string | null; pos?: number }[] }[];
+  customFields?: { id: string; name: string; type?: string }[];
+}
+
+const byPosition = (a: { pos?: number }, b: { pos?: number }) => (a.pos ?? 0) - (b.pos ?? 0);
+
+// Trello IDs begin with the creation time, in seconds, as 8 hex digits
+const trelloCreatedOn = (id: string) => {
+  const seconds = parseInt(id.slice(0, 8), 16);
+  return isNaN(seconds) ? '' : format(new Date(seconds * 1000), 'yyyy-MM-dd');
+};
+
+/**
+ * Reads a Trello board exported as JSON (Menu > Print, export and share >
+ * Export as JSON). Each list's name sets the status of its cards, checklist
+ * items become subtasks of their card, and a card attached to another card
+ * is taken as its predecessor. Archived cards and lists are left out.
+ */
+export function importFromTrello(json: string, existingFields: CustomField[] = []): TrackerImportResult {
+  let board: TrelloBoard;
+  try {
+    board = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not a Trello board export');
+  }
+  if (!Array.isArray(board?.cards) || !Array.isArray(board.lists)) {
+    throw new Error('This file is not a Trello board export');
+  }
+
+  const warnings: string[] = [];
+  const lists = new Map(board.lists.map(list => [list.id, list]));
+  const members = new Map((board.members || []).map(member => [member.id, member.fullName || member.username || '']));
+  const pointsFieldIds = new Set((board.customFields || [])
+    .filter(field => field.type === 'number' && TRELLO_STORY_POINT_FIELDS.includes(field.name.trim().toLowerCase()))
+    .map(field => field.id));
+
+  const isOpen = (card: TrelloCard) => !card.closed && !!lists.get(card.idList) && !lists.get(card.idList)!.closed;
+  const cards = board.cards.filter(isOpen);
+  if (cards.length < board.cards.length) {
+    const archived = board.cards.length - cards.length;
+    warnings.push(`${archived} archived ${archived === 1 ? 'card was' : 'cards were'} left out`);
+  }
+  const listOrder = [...lists.values()].sort(byPosition).map(list => list.id);
+  cards.sort((a, b) => listOrder.indexOf(a.idList) - listOrder.indexOf(b.idList) || byPosition(a, b));
+
+  const items: TrackerItem[] = [];
+  cards.forEach(card => {
+    const listName = lists.get(card.idList)!.name;
+    const status = card.dueComplete ? 'completed' : TRACKER_STATUSES[listName.trim().toLowerCase()] || 'not-started';
+    const start = parseTrackerDate(card.start || '') || trelloCreatedOn(card.id);
+    const end = parseTrackerDate(card.due || '') || start;
+    const points = card.customFieldItems?.find(item => pointsFieldIds.has(item.idCustomField))?.value?.number;
+    // Cards link to each other as attachments with the card's URL, trello.com/c/<short link>
+    const linkedCards = (card.attachments || [])
+      .map(attachment => /trello\.com\/c\/([a-z0-9]+)/i.exec(attachment.url || '')?.[1])
+      .filter((shortLink): shortLink is string => !!shortLink);
+
+    const task = newTrackerTask(card.name, start, end, status, {
+      description: card.desc || '',
+      assignee: (card.idMembers || []).map(id => members.get(id)).filter(Boolean).join(', '),
+      external_id: card.shortLink || card.id
+    });
+    items.push({
+      keys: [card.id, card.shortLink].filter(Boolean),
+      task,
+      predecessors: linkedCards.filter(shortLink => shortLink !== card.shortLink),
+      successors: [],
+      labels: [...new Set((card.labels || []).map(label => label.name || label.color || '').filter(Boolean))],
+      storyPoints: points !== undefined && !isNaN(parseFloat(points)) ? parseFloat(points) : undefined,
+      status: card.dueComplete ? '' : listName
+    });
+
+    (board.checklists || [])
+      .filter(checklist => checklist.idCard === card.id)
+      .sort(byPosition)
+      .flatMap(checklist => [...(checklist.checkItems || [])].sort(byPosition))
+      .forEach(checkItem => {
+        const itemEnd = parseTrackerDate(checkItem.due || '') || end;
+        items.push({
+          keys: [],
+          task: newTrackerTask(checkItem.name, start, itemEnd, checkItem.state === 'complete' ? 'completed' : 'not-started', {
+            parent_id: task.id
+          }),
+          predecessors: [],
+          successors: [],
+          labels: [],
+          status: ''
+        });
+      });
+  });
+
+  return buildTrackerResult(board.name || '', items, existingFields, warnings);
+}
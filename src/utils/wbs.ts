@@ -0,0 +1,142 @@
+import { parseISO } from "date-fns";
+import { ProjectCalendar, Task } from "@/types/project";
+import { getWorkingDuration, resolveCalendar } from "@/utils/workingCalendar";
+
+type HierarchyNode = { id: string; parent_id?: string | null };
+
+export interface WbsNode<T extends HierarchyNode = Task> {
+  task: T;
+  wbs: string;   // Outline number, e.g. "1.2.3"
+  level: number; // 1 for top-level tasks
+  parentId?: string;
+  childIds: string[];
+  isSummary: boolean;
+}
+
+// Parent IDs that point at missing tasks, or that are part of a loop, are ignored
+function resolveParents<T extends HierarchyNode>(tasks: T[]): Map<string, string | undefined> {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  const parents = new Map<string, string | undefined>();
+
+  for (const task of tasks) {
+    const seen = new Set([task.id]);
+    let parentId = task.parent_id || undefined;
+    while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      parentId = byId.get(parentId)!.parent_id || undefined;
+    }
+    // The walk only returns to the task itself when the task is part of a loop
+    const isValid = task.parent_id && byId.has(task.parent_id) && parentId !== task.id;
+    parents.set(task.id, isValid ? task.parent_id! : undefined);
+  }
+  return parents;
+}
+
+/**
+ * Orders tasks depth-first (each parent followed by its subtree) and assigns
+ * outline numbers. Siblings keep their relative order from `tasks`.
+ */
+export function buildWbs<T extends HierarchyNode>(tasks: T[]): WbsNode<T>[] {
+  const parents = resolveParents(tasks);
+  const children = new Map<string | undefined, T[]>();
+  for (const task of tasks) {
+    const parentId = parents.get(task.id);
+    children.set(parentId, [...(children.get(parentId) || []), task]);
+  }
+
+  const nodes: WbsNode<T>[] = [];
+  const visit = (task: T, prefix: string, level: number) => {
+    const childTasks = children.get(task.id) || [];
+    nodes.push({
+      task,
+      wbs: prefix,
+      level,
+      parentId: parents.get(task.id),
+      childIds: childTasks.map(child => child.id),
+      isSummary: childTasks.length > 0
+    });
+    childTasks.forEach((child, index) => visit(child, `${prefix}.${index + 1}`, level + 1));
+  };
+  (children.get(undefined) || []).forEach((task, index) => visit(task, `${index + 1}`, 1));
+
+  return nodes;
+}
+
+export function getDescendantIds<T extends HierarchyNode>(tasks: T[], taskId: string): Set<string> {
+  const parents = resolveParents(tasks);
+  const descendants = new Set<string>();
+  let added = true;
+  while (added) {
+    added = false;
+    for (const task of tasks) {
+      const parentId = parents.get(task.id);
+      if (parentId && (parentId === taskId || descendants.has(parentId)) && !descendants.has(task.id)) {
+        descendants.add(task.id);
+        added = true;
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Rolls dates and progress up into summary tasks: a summary spans its earliest
+ * child start to its latest child finish, and its progress is the child progress
+ * weighted by working-day duration. Leaf tasks are returned unchanged.
+ */
+export function rollupSummaryTasks(tasks: Task[], calendar?: ProjectCalendar): Task[] {
+  const nodes = buildWbs(tasks);
+  const rolled = new Map<string, Task>();
+
+  // Depth-first order puts children after their parent, so walk it backwards
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const { task, childIds, isSummary } = nodes[i];
+    if (!isSummary) {
+      rolled.set(task.id, task);
+      continue;
+    }
+
+    const childTasks = childIds.map(id => rolled.get(id)!);
+    const first = childTasks.reduce((a, b) => parseISO(b.start_date) < parseISO(a.start_date) ? b : a);
+    const last = childTasks.reduce((a, b) => parseISO(b.end_date) > parseISO(a.end_date) ? b : a);
+
+    let totalWeight = 0;
+    let completedWeight = 0;
+    for (const child of childTasks) {
+      const weight = Math.max(1, getWorkingDuration(
+        parseISO(child.start_date), parseISO(child.end_date), resolveCalendar(calendar, child.assignee)
+      ));
+      totalWeight += weight;
+      completedWeight += weight * (child.progress || 0);
+    }
+
+    rolled.set(task.id, {
+      ...task,
+      start_date: first.start_date,
+      end_date: last.end_date,
+      progress: Math.round(completedWeight / totalWeight)
+    });
+  }
+
+  return tasks.map(task => rolled.get(task.id) || task);
+}
+
+/**
+ * Turns outline levels read in row order (e.g. from a CSV "Outline Level"
+ * column) into the index of each row's parent, or -1 for top-level rows.
+ * A level that skips ahead (1 then 3) is attached to the nearest shallower row.
+ */
+export function parentsFromOutlineLevels(levels: number[]): number[] {
+  const stack: { level: number; index: number }[] = [];
+  return levels.map((level, index) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+    const parentIndex = stack.length > 0 ? stack[stack.length - 1].index : -1;
+    stack.push({ level, index });
+    return parentIndex;
+  });
+}
+
+// Outline level implied by a WBS code: "1.2.3" is level 3
+export function levelFromWbs(wbs: string): number {
+  return wbs.trim().replace(/\.$/, '').split('.').length;
+}
@@ -0,0 +1,97 @@
+import { addDays, eachDayOfInterval, format, isAfter, parseISO, startOfDay } from "date-fns";
+import { ProjectCalendar } from "@/types/project";
+
+export const DEFAULT_CALENDAR: ProjectCalendar = {
+  working_days: [1, 2, 3, 4, 5],
+  holidays: [],
+  resource_calendars: []
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// A calendar flattened for fast lookups, optionally merged with one assignee's overrides
+export interface ResolvedCalendar {
+  workingDays: Set<number>;
+  nonWorkingDates: Set<string>; // YYYY-MM-DD
+}
+
+const dateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Task dates are stored either as YYYY-MM-DD or as full ISO strings
+export const toDate = (value: string): Date => startOfDay(parseISO(value));
+
+// Assignees are free text; "Ana, Raj" is two people, each with their own calendar
+export const splitAssignees = (assignee?: string): string[] =>
+  (assignee || '').split(/[,;]/).map(name => name.trim()).filter(Boolean);
+
+/**
+ * Merges the project calendar with the assignee's own workweek and leave, if any.
+ * Projects without a calendar use a Monday to Friday workweek.
+ */
+export function resolveCalendar(calendar: ProjectCalendar | undefined, assignee?: string): ResolvedCalendar {
+  const base = calendar || DEFAULT_CALENDAR;
+  const resource = assignee
+    ? base.resource_calendars?.find(r => r.assignee.toLowerCase() === assignee.toLowerCase())
+    : undefined;
+
+  const workingDays = resource?.working_days?.length ? resource.working_days : base.working_days;
+  const nonWorkingDates = new Set((base.holidays || []).map(h => h.date));
+
+  for (const leave of resource?.leave || []) {
+    const start = parseISO(leave.start_date);
+    const end = parseISO(leave.end_date);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || isAfter(start, end)) continue;
+    eachDayOfInterval({ start, end }).forEach(day => nonWorkingDates.add(dateKey(day)));
+  }
+
+  // A calendar with no working days would make every loop below endless
+  return {
+    workingDays: new Set(workingDays.length > 0 ? workingDays : DEFAULT_CALENDAR.working_days),
+    nonWorkingDates
+  };
+}
+
+export function isWorkingDay(date: Date, calendar: ResolvedCalendar): boolean {
+  return calendar.workingDays.has(date.getDay()) && !calendar.nonWorkingDates.has(dateKey(date));
+}
+
+// Returns the date itself when it is a working day, otherwise the next one
+export function nextWorkingDay(date: Date, calendar: ResolvedCalendar): Date {
+  let current = startOfDay(date);
+  while (!isWorkingDay(current, calendar)) current = addDays(current, 1);
+  return current;
+}
+
+/**
+ * Moves `days` working days forward (or backward when negative), skipping
+ * weekends, holidays and leave. Zero returns the date unchanged.
+ */
+export function addWorkingDays(date: Date, days: number, calendar: ResolvedCalendar): Date {
+  let current = startOfDay(date);
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (isWorkingDay(current, calendar)) remaining--;
+  }
+  return current;
+}
+
+// Number of working days in [from, to). Negative when `to` is before `from`.
+export function countWorkingDays(from: Date, to: Date, calendar: ResolvedCalendar): number {
+  let start = startOfDay(from);
+  let end = startOfDay(to);
+  const sign = isAfter(start, end) ? -1 : 1;
+  if (sign < 0) [start, end] = [end, start];
+
+  let count = 0;
+  for (let current = start; current < end; current = addDays(current, 1)) {
+    if (isWorkingDay(current, calendar)) count++;
+  }
+  return sign * count;
+}
+
+// Working days between two dates, both inclusive
+export function getWorkingDuration(start: Date, end: Date, calendar: ResolvedCalendar): number {
+  return countWorkingDays(start, addDays(startOfDay(end), 1), calendar);
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { CustomField, ProjectCalendar, Task, TaskDependency } from "@/types/project";
+import { generateXER, importFromXER } from "@/utils/xerUtils";
+
+const task = (id: string, start: string, end: string, dependencies: TaskDependency[] = [], extra: Partial<Task> = {}): Task => ({
+  id,
+  project_id: 'project',
+  name: id,
+  task_type: 'task',
+  status: 'not-started',
+  start_date: start,
+  end_date: end,
+  dependencies,
+  progress: 0,
+  created_at: '',
+  updated_at: '',
+  ...extra
+});
+
+const phaseField: CustomField = {
+  id: 'phase',
+  project_id: 'project',
+  name: 'Phase',
+  field_type: 'select',
+  required: false,
+  options: ['Alpha', 'Beta'],
+  created_at: ''
+};
+
+const calendar: ProjectCalendar = {
+  working_days: [1, 2, 3, 4, 5],
+  holidays: [{ date: '2025-03-17' }],
+  resource_calendars: [{ assignee: 'Ana', leave: [{ start_date: '2025-03-20', end_date: '2025-03-21' }] }]
+};
+
+// 2025-03-03 is a Monday
+const tasks = [
+  task('phase-1', '2025-03-03', '2025-03-07'),
+  task('design', '2025-03-03', '2025-03-05', [], { parent_id: 'phase-1', assignee: 'Ana', progress: 50, status: 'in-progress', custom_fields: { phase: 'Alpha' } }),
+  task('build', '2025-03-06', '2025-03-07', [{ task_id: 'design', type: 'SS', lag: 3 }], { parent_id: 'phase-1', assignee: 'Ana, Ben', custom_fields: { phase: 'Beta' } }),
+  task('test', '2025-03-06', '2025-03-06', [{ task_id: 'build', type: 'FS', lag: -1 }, { task_id: 'phase-1', type: 'FS', lag: 0 }]),
+  task('launch', '2025-03-07', '2025-03-07', [{ task_id: 'test', type: 'SF', lag: 0 }], { task_type: 'milestone', status: 'completed', progress: 100 })
+];
+
+const roundTrip = () => importFromXER(generateXER({ name: 'Demo', tasks, customFields: [phaseField], calendar }), [phaseField]);
+const byName = (result: ReturnType<typeof importFromXER>, name: string) => result.tasks.find(task => task.name === name)!;
+
+describe('XER round trip', () => {
+  it('keeps the WBS, dates, progress and assignees', () => {
+    const result = roundTrip();
+
+    expect(result.projectName).toBe('Demo');
+    // Activities outside any WBS node come before the nodes
+    expect(result.tasks.map(task => task.name)).toEqual(['test', 'launch', 'phase-1', 'design', 'build']);
+    const phase = byName(result, 'phase-1');
+    expect(byName(result, 'design')).toMatchObject({ parent_id: phase.id, start_date: '2025-03-03', end_date: '2025-03-05', progress: 50, status: 'in-progress', assignee: 'Ana' });
+    expect(byName(result, 'build').assignee).toBe('Ana, Ben');
+    expect(byName(result, 'launch')).toMatchObject({ task_type: 'milestone', status: 'completed', progress: 100, parent_id: null });
+    expect(phase).toMatchObject({ start_date: '2025-03-03', end_date: '2025-03-07' });
+  });
+
+  it('keeps link types and lags, including leads, and drops links to WBS nodes', () => {
+    const result = roundTrip();
+    const idOf = (name: string) => byName(result, name).id;
+
+    expect(byName(result, 'build').dependencies).toEqual([{ task_id: idOf('design'), type: 'SS', lag: 3 }]);
+    expect(byName(result, 'test').dependencies).toEqual([{ task_id: idOf('build'), type: 'FS', lag: -1 }]);
+    expect(byName(result, 'launch').dependencies).toEqual([{ task_id: idOf('test'), type: 'SF', lag: 0 }]);
+  });
+
+  it('maps custom field values onto matching fields through activity codes', () => {
+    const result = roundTrip();
+
+    expect(result.customFields).toEqual([]);
+    expect(byName(result, 'design').custom_fields).toEqual({ phase: 'Alpha' });
+    expect(byName(result, 'build').custom_fields).toEqual({ phase: 'Beta' });
+  });
+
+  it('creates select fields for activity code types the project does not have', () => {
+    const result = importFromXER(generateXER({ name: 'Demo', tasks, customFields: [phaseField], calendar }));
+
+    expect(result.customFields).toHaveLength(1);
+    expect(result.customFields[0]).toMatchObject({ name: 'Phase', field_type: 'select', options: ['Alpha', 'Beta'] });
+    expect(byName(result, 'design').custom_fields).toEqual({ [result.customFields[0].id]: 'Alpha' });
+  });
+
+  it('keeps the working week, holidays and resource leave', () => {
+    const { calendar: imported, calendarName } = roundTrip();
+
+    expect(calendarName).toBe('Standard');
+    expect(imported?.working_days).toEqual([1, 2, 3, 4, 5]);
+    expect(imported?.holidays).toEqual([{ date: '2025-03-17' }]);
+    expect(imported?.resource_calendars).toEqual([
+      { assignee: 'Ana', working_days: undefined, leave: [{ start_date: '2025-03-20', end_date: '2025-03-21' }] }
+    ]);
+  });
+});
+
+describe('importFromXER', () => {
+  it('rejects files that are not XER exports', () => {
+    expect(() => importFromXER('<Project></Project>')).toThrow('not a Primavera P6 XER file');
+  });
+
+  it('reads CRLF files and warns about links to other projects', () => {
+    const content = [
+      'ERMHDR\t19.12',
+      '%T\tPROJECT', '%F\tproj_id\tproj_short_name', '%R\t1\tOne',
+      '%T\tTASK', '%F\ttask_id\tproj_id\ttask_code\ttask_name\ttarget_start_date\ttarget_end_date',
+      '%R\t10\t1\tA10\tOnly\t2025-03-03 08:00\t2025-03-04 17:00',
+      '%T\tTASKPRED', '%F\ttask_id\tpred_task_id\tproj_id\tpred_type\tlag_hr_cnt', '%R\t10\t99\t1\tPR_FS\t0',
+      '%E'
+    ].join('\r\n');
+
+    const result = importFromXER(content);
+
+    expect(result.tasks).toHaveLength(1);
+    expect(result.tasks[0]).toMatchObject({ name: 'Only', start_date: '2025-03-03', end_date: '2025-03-04', dependencies: [] });
+    expect(result.warnings).toEqual(['"Only" has a predecessor outside this project; the link was dropped']);
+  });
+});
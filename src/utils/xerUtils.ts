@@ -0,0 +1,614 @@
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, isAfter } from "date-fns";
+import {
+  CalendarLeave,
+  CustomField,
+  DependencyType,
+  Project,
+  ProjectCalendar,
+  ResourceCalendar,
+  Task,
+  TaskStatus
+} from "@/types/project";
+import { normalizeDependencies } from "@/utils/dependencies";
+import { downloadBlob } from "@/utils/download";
+import { generateId } from "@/utils/idGenerator";
+import { convertAttributeValue, ImportedTask } from "@/utils/mspdiImport";
+import { buildWbs, rollupSummaryTasks } from "@/utils/wbs";
+import { DEFAULT_CALENDAR, getWorkingDuration, resolveCalendar, splitAssignees, toDate } from "@/utils/workingCalendar";
+
+export interface XerImportResult {
+  projectName: string;
+  tasks: ImportedTask[];
+  customFields: CustomField[]; // Activity code types that have no matching field in the project yet
+  calendar?: ProjectCalendar;
+  calendarName?: string;
+  warnings: string[];
+}
+
+type XerRow = Record<string, string>;
+type XerProject = Pick<Project, 'name' | 'tasks' | 'customFields' | 'calendar'>;
+
+const HOURS_PER_DAY = 8;
+const DEPENDENCY_TYPES: DependencyType[] = ['FS', 'SS', 'FF', 'SF'];
+
+// P6 calendar exceptions are stored as day numbers counted from this date
+const SERIAL_DATE_EPOCH = new Date(1899, 11, 30);
+
+const datePart = (value?: string): string => value ? value.slice(0, 10) : '';
+
+// Tables are introduced by %T, their columns by %F and each row by %R, all tab separated
+function parseTables(content: string): Map<string, XerRow[]> {
+  const tables = new Map<string, XerRow[]>();
+  let rows: XerRow[] = [];
+  let fields: string[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const [marker, ...values] = line.split('\t');
+    if (marker === '%T') {
+      rows = [];
+      fields = [];
+      tables.set(values[0], rows);
+    } else if (marker === '%F') {
+      fields = values;
+    } else if (marker === '%R') {
+      rows.push(Object.fromEntries(fields.map((field, index) => [field, values[index] ?? ''])));
+    }
+  }
+  return tables;
+}
+
+interface CalendarNode {
+  name: string;
+  attributes: string[];
+  children: CalendarNode[];
+}
+
+// clndr_data is a nested structure like (0||DaysOfWeek()((0||2()((0||0(s|08:00|f|17:00)())))))
+function parseCalendarData(data: string): CalendarNode | undefined {
+  const text = data.replace(/[\s\x7f]/g, '');
+  let position = 0;
+
+  const readUntil = (stop: string) => {
+    const end = text.indexOf(stop, position);
+    if (end === -1) throw new Error('Unterminated calendar data');
+    const value = text.slice(position, end);
+    position = end + stop.length;
+    return value;
+  };
+
+  const parseNode = (): CalendarNode => {
+    position++; // (
+    readUntil('||');
+    const name = readUntil('(');
+    const attributes = readUntil(')').split('|').filter(Boolean);
+    position++; // ( before the children
+    const children: CalendarNode[] = [];
+    while (text[position] === '(') children.push(parseNode());
+    position += 2; // )) closing the children and the node
+    return { name, attributes, children };
+  };
+
+  try {
+    return text.startsWith('(') ? parseNode() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+const findNode = (node: CalendarNode | undefined, name: string): CalendarNode | undefined =>
+  node?.children.find(child => child.name === name);
+
+// Working weekdays (0 = Sunday) and non-working dates of a P6 calendar
+function readCalendar(row: XerRow | undefined): { workingDays: number[]; nonWorkingDates: string[] } {
+  const root = parseCalendarData(row?.clndr_data || '');
+  const weekDays = findNode(root, 'DaysOfWeek')?.children || [];
+  const workingDays = weekDays
+    .filter(day => day.children.length > 0)
+    .map(day => parseInt(day.name, 10) - 1) // P6 numbers days from 1 = Sunday
+    .filter(day => day >= 0 && day <= 6);
+
+  // Exceptions without working hours are days off
+  const nonWorkingDates = (findNode(root, 'Exceptions')?.children || [])
+    .filter(exception => exception.children.length === 0)
+    .map(exception => parseInt(exception.attributes[exception.attributes.indexOf('d') + 1], 10))
+    .filter(serial => !isNaN(serial))
+    .map(serial => format(addDays(SERIAL_DATE_EPOCH, serial), 'yyyy-MM-dd'));
+
+  return {
+    workingDays: workingDays.length > 0 ? workingDays : DEFAULT_CALENDAR.working_days,
+    nonWorkingDates
+  };
+}
+
+function writeCalendarData(workingDays: number[], nonWorkingDates: string[]): string {
+  const days = Array.from({ length: 7 }, (_, day) => workingDays.includes(day)
+    ? `(0||${day + 1}()((0||0(s|08:00|f|12:00)())(0||1(s|13:00|f|17:00)())))`
+    : `(0||${day + 1}()())`
+  ).join('');
+  const exceptions = nonWorkingDates
+    .map((date, index) => `(0||${index}(d|${differenceInCalendarDays(toDate(date), SERIAL_DATE_EPOCH)})())`)
+    .join('');
+  return `(0||CalendarData()((0||DaysOfWeek()(${days}))(0||VIEW(ShowTotal|Y)())(0||Exceptions()(${exceptions}))))`;
+}
+
+// Turns single days off into leave periods, joining consecutive days
+function toLeavePeriods(dates: string[]): CalendarLeave[] {
+  const periods: CalendarLeave[] = [];
+  for (const date of [...dates].sort()) {
+    const last = periods[periods.length - 1];
+    if (last && format(addDays(toDate(last.end_date), 1), 'yyyy-MM-dd') === date) {
+      last.end_date = date;
+    } else {
+      periods.push({ start_date: date, end_date: date });
+    }
+  }
+  return periods;
+}
+
+function statusFor(progress: number, statusCode?: string): TaskStatus {
+  if (statusCode === 'TK_Complete' || progress >= 100) return 'completed';
+  if (statusCode === 'TK_Active' || progress > 0) return 'in-progress';
+  return 'not-started';
+}
+
+/**
+ * Reads a Primavera P6 XER file. WBS nodes become summary tasks, activities
+ * become tasks under them, relationships keep their type and lag, resource
+ * assignments become assignees and activity codes become select custom fields.
+ * The project's default calendar and resource calendars are returned
+ * separately so the caller can decide whether to use them.
+ */
+export function importFromXER(content: string, existingFields: CustomField[] = []): XerImportResult {
+  if (!content.startsWith('ERMHDR')) {
+    throw new Error('This file is not a Primavera P6 XER file');
+  }
+
+  const tables = parseTables(content);
+  const table = (name: string) => tables.get(name) || [];
+  const projects = table('PROJECT');
+  if (projects.length === 0) {
+    throw new Error('The XER file does not contain a project');
+  }
+
+  const warnings: string[] = [];
+  const project = projects[0];
+  if (projects.length > 1) {
+    warnings.push(`The file contains ${projects.length} projects; only "${project.proj_short_name}" was imported`);
+  }
+  const inProject = (row: XerRow) => !row.proj_id || row.proj_id === project.proj_id;
+
+  // Calendars
+  const calendarRows = new Map(table('CALENDAR').map(row => [row.clndr_id, row]));
+  const projectCalendarRow = calendarRows.get(project.clndr_id) || table('CALENDAR').find(row => row.default_flag === 'Y');
+  const hoursPerDay = (calendarId?: string) =>
+    parseFloat(calendarRows.get(calendarId || '')?.day_hr_cnt || '') || parseFloat(projectCalendarRow?.day_hr_cnt || '') || HOURS_PER_DAY;
+
+  const resourceNames = new Map(table('RSRC').map(row => [row.rsrc_id, row.rsrc_name || row.rsrc_short_name]));
+  let calendar: ProjectCalendar | undefined;
+  if (projectCalendarRow) {
+    const { workingDays, nonWorkingDates } = readCalendar(projectCalendarRow);
+    const holidays = new Set(nonWorkingDates);
+
+    // Resource calendars are kept only where they differ from the project calendar
+    const resourceCalendars: ResourceCalendar[] = [];
+    for (const resource of table('RSRC')) {
+      const row = calendarRows.get(resource.clndr_id);
+      if (!row || row === projectCalendarRow || !resource.rsrc_name) continue;
+      const own = readCalendar(row);
+      const sameWeek = own.workingDays.length === workingDays.length && own.workingDays.every(day => workingDays.includes(day));
+      const leave = toLeavePeriods(own.nonWorkingDates.filter(date => !holidays.has(date)));
+      if (sameWeek && leave.length === 0) continue;
+      resourceCalendars.push({
+        assignee: resource.rsrc_name,
+        working_days: sameWeek ? undefined : own.workingDays,
+        leave
+      });
+    }
+
+    calendar = {
+      working_days: workingDays,
+      holidays: nonWorkingDates.map(date => ({ date })),
+      resource_calendars: resourceCalendars
+    };
+  }
+
+  // Activity codes used in this project become custom fields
+  const codeAssignments = table('TASKACTV').filter(inProject);
+  const usedTypeIds = new Set(codeAssignments.map(row => row.actv_code_type_id));
+  const codes = new Map(table('ACTVCODE').map(row => [row.actv_code_id, row]));
+  const fieldsByTypeId = new Map<string, CustomField>();
+  const newFields: CustomField[] = [];
+  for (const codeType of table('ACTVTYPE').filter(row => usedTypeIds.has(row.actv_code_type_id))) {
+    const name = codeType.actv_code_type;
+    const existing = [...existingFields, ...newFields].find(field => field.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      fieldsByTypeId.set(codeType.actv_code_type_id, existing);
+      continue;
+    }
+
+    const options = table('ACTVCODE')
+      .filter(code => code.actv_code_type_id === codeType.actv_code_type_id)
+      .sort((a, b) => (parseInt(a.seq_num, 10) || 0) - (parseInt(b.seq_num, 10) || 0))
+      .map(code => code.short_name);
+    const field: CustomField = {
+      id: generateId(),
+      project_id: '',
+      name,
+      field_type: 'select',
+      required: false,
+      options,
+      created_at: new Date().toISOString()
+    };
+    newFields.push(field);
+    fieldsByTypeId.set(codeType.actv_code_type_id, field);
+  }
+
+  const assigneesByTask = new Map<string, string[]>();
+  for (const assignment of table('TASKRSRC').filter(inProject)) {
+    const name = resourceNames.get(assignment.rsrc_id);
+    if (!name) continue;
+    assigneesByTask.set(assignment.task_id, [...(assigneesByTask.get(assignment.task_id) || []), name]);
+  }
+
+  const wbsRows = table('PROJWBS').filter(inProject);
+  const activityRows = table('TASK').filter(inProject);
+  const wbsById = new Map(wbsRows.map(row => [row.wbs_id, row]));
+  const isRootWbs = (wbsId?: string) => !wbsId || !wbsById.has(wbsId) || wbsById.get(wbsId)!.proj_node_flag === 'Y';
+
+  const fallbackStart = datePart(project.plan_start_date) || format(new Date(), 'yyyy-MM-dd');
+  const tasks: ImportedTask[] = [];
+  const wbsTaskIds = new Set<string>();
+  const idByActivityId = new Map<string, string>();
+  const hoursPerDayByTask = new Map<string, number>();
+
+  const addActivity = (row: XerRow, parentId: string | null) => {
+    const isMilestone = row.task_type === 'TT_Mile' || row.task_type === 'TT_FinMile';
+    const finish = datePart(row.act_end_date || row.target_end_date || row.early_end_date);
+    const start = datePart(row.act_start_date || row.target_start_date || row.early_start_date) || finish;
+    if (!start) {
+      warnings.push(`Skipped "${row.task_name}": it has no dates`);
+      return;
+    }
+
+    const progress = row.status_code === 'TK_Complete'
+      ? 100
+      : Math.max(0, Math.min(100, Math.round(parseFloat(row.phys_complete_pct) || 0)));
+
+    const customFields: Record<string, unknown> = {};
+    for (const assignment of codeAssignments.filter(code => code.task_id === row.task_id)) {
+      const field = fieldsByTypeId.get(assignment.actv_code_type_id);
+      const value = codes.get(assignment.actv_code_id)?.short_name;
+      if (field && value) customFields[field.id] = convertAttributeValue(value, field.field_type);
+    }
+
+    const id = generateId();
+    idByActivityId.set(row.task_id, id);
+    hoursPerDayByTask.set(id, hoursPerDay(row.clndr_id));
+    tasks.push({
+      id,
+      name: row.task_name || row.task_code,
+      description: '',
+      task_type: isMilestone ? 'milestone' : 'task',
+      status: statusFor(progress, row.status_code),
+      start_date: start,
+      end_date: isMilestone || !finish || finish < start ? start : finish,
+      assignee: (assigneesByTask.get(row.task_id) || []).join(', '),
+      progress,
+      dependencies: [],
+      parent_id: parentId,
+      custom_fields: customFields
+    });
+  };
+
+  const bySequence = (a: XerRow, b: XerRow) => (parseInt(a.seq_num, 10) || 0) - (parseInt(b.seq_num, 10) || 0);
+  const byCode = (a: XerRow, b: XerRow) => (a.task_code || '').localeCompare(b.task_code || '', undefined, { numeric: true });
+
+  // Each WBS node is followed by its own activities and then its child nodes
+  const addWbs = (row: XerRow, parentId: string | null) => {
+    const id = generateId();
+    wbsTaskIds.add(id);
+    tasks.push({
+      id,
+      name: row.wbs_name || row.wbs_short_name,
+      description: '',
+      task_type: 'task',
+      status: 'not-started',
+      start_date: fallbackStart,
+      end_date: fallbackStart,
+      assignee: '',
+      progress: 0,
+      dependencies: [],
+      parent_id: parentId,
+      custom_fields: {}
+    });
+    activityRows.filter(activity => activity.wbs_id === row.wbs_id).sort(byCode).forEach(activity => addActivity(activity, id));
+    wbsRows.filter(child => child.parent_wbs_id === row.wbs_id && child.proj_node_flag !== 'Y').sort(bySequence)
+      .forEach(child => addWbs(child, id));
+  };
+
+  activityRows.filter(activity => isRootWbs(activity.wbs_id)).sort(byCode).forEach(activity => addActivity(activity, null));
+  wbsRows.filter(row => row.proj_node_flag !== 'Y' && isRootWbs(row.parent_wbs_id)).sort(bySequence)
+    .forEach(row => addWbs(row, null));
+
+  for (const relationship of table('TASKPRED').filter(inProject)) {
+    const successorId = idByActivityId.get(relationship.task_id);
+    const predecessorId = idByActivityId.get(relationship.pred_task_id);
+    if (!successorId) continue;
+    const successor = tasks.find(task => task.id === successorId)!;
+    if (!predecessorId) {
+      warnings.push(`"${successor.name}" has a predecessor outside this project; the link was dropped`);
+      continue;
+    }
+    const type = relationship.pred_type?.replace('PR_', '') as DependencyType;
+    successor.dependencies.push({
+      task_id: predecessorId,
+      type: DEPENDENCY_TYPES.includes(type) ? type : 'FS',
+      lag: Math.round((parseFloat(relationship.lag_hr_cnt) || 0) / hoursPerDayByTask.get(successorId)!)
+    });
+  }
+
+  // WBS summary tasks take their dates and progress from their activities
+  const rolled = rollupSummaryTasks(tasks as Task[], calendar).map(task =>
+    wbsTaskIds.has(task.id) ? { ...task, status: statusFor(task.progress) } : task
+  );
+
+  return {
+    projectName: project.proj_short_name,
+    tasks: rolled,
+    customFields: newFields,
+    calendar,
+    calendarName: projectCalendarRow?.clndr_name,
+    warnings
+  };
+}
+
+// P6 writes XER files in the Windows code page unless it is set up for UTF-8
+export function decodeXerFile(buffer: ArrayBuffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Tabs and line breaks would split a row
+const cleanValue = (value: string | number | undefined): string =>
+  value === undefined ? '' : String(value).replace(/[\t\r\n]+/g, ' ');
+
+function writeTable(name: string, fields: string[], rows: Record<string, string | number | undefined>[]): string[] {
+  return [
+    `%T\t${name}`,
+    `%F\t${fields.join('\t')}`,
+    ...rows.map(row => `%R\t${fields.map(field => cleanValue(row[field])).join('\t')}`)
+  ];
+}
+
+/**
+ * Writes a project as a Primavera P6 XER file. Summary tasks become WBS nodes
+ * and other tasks become activities. P6 cannot link to WBS nodes, so
+ * dependencies to or from summary tasks are left out. Custom fields become
+ * project activity codes, with each distinct value as a code.
+ */
+export function generateXER(project: XerProject): string {
+  const calendar = project.calendar || DEFAULT_CALENDAR;
+  const nodes = buildWbs(project.tasks || []);
+  const projectId = 1;
+  const rootWbsId = 100;
+  const summaryIds = new Set(nodes.filter(node => node.isSummary).map(node => node.task.id));
+
+  const wbsIds = new Map<string, number>();
+  const activityIds = new Map<string, number>();
+  nodes.forEach(({ task }, index) => {
+    if (summaryIds.has(task.id)) wbsIds.set(task.id, rootWbsId + 1 + index);
+    else activityIds.set(task.id, 1000 + index);
+  });
+  const wbsFor = (parentId?: string) => (parentId && wbsIds.get(parentId)) || rootWbsId;
+
+  const dateTime = (value: string, time: string) => `${format(toDate(value), 'yyyy-MM-dd')} ${time}`;
+  const holidayDates = (calendar.holidays || []).map(holiday => holiday.date);
+
+  // Calendar 1 is the project calendar; resources with their own workweek or leave get another
+  const resourceNames: string[] = [];
+  for (const name of nodes.flatMap(node => splitAssignees(node.task.assignee))) {
+    if (!resourceNames.some(existing => existing.toLowerCase() === name.toLowerCase())) resourceNames.push(name);
+  }
+  const calendarRows = [{
+    clndr_id: 1,
+    default_flag: 'Y',
+    clndr_name: 'Standard',
+    proj_id: projectId,
+    clndr_type: 'CA_Project',
+    day_hr_cnt: HOURS_PER_DAY,
+    week_hr_cnt: HOURS_PER_DAY * calendar.working_days.length,
+    clndr_data: writeCalendarData(calendar.working_days, holidayDates)
+  }];
+  const resourceCalendarIds = new Map<string, number>();
+  for (const name of resourceNames) {
+    const resource = calendar.resource_calendars?.find(r => r.assignee.toLowerCase() === name.toLowerCase());
+    if (!resource) continue;
+    const workingDays = resource.working_days?.length ? resource.working_days : calendar.working_days;
+    const leaveDates = (resource.leave || [])
+      .filter(period => !isAfter(toDate(period.start_date), toDate(period.end_date)))
+      .flatMap(period => eachDayOfInterval({ start: toDate(period.start_date), end: toDate(period.end_date) }))
+      .map(day => format(day, 'yyyy-MM-dd'));
+    const id = calendarRows.length + 1;
+    resourceCalendarIds.set(name.toLowerCase(), id);
+    calendarRows.push({
+      clndr_id: id,
+      default_flag: 'N',
+      clndr_name: name,
+      proj_id: undefined,
+      clndr_type: 'CA_Rsrc',
+      day_hr_cnt: HOURS_PER_DAY,
+      week_hr_cnt: HOURS_PER_DAY * workingDays.length,
+      clndr_data: writeCalendarData(workingDays, Array.from(new Set([...holidayDates, ...leaveDates])).sort())
+    });
+  }
+
+  const starts = nodes.map(node => node.task.start_date).sort();
+  const finishes = nodes.map(node => node.task.end_date).sort();
+  const projectStart = starts[0] || format(new Date(), 'yyyy-MM-dd');
+
+  const projectRows = [{
+    proj_id: projectId,
+    proj_short_name: project.name,
+    clndr_id: 1,
+    plan_start_date: dateTime(projectStart, '08:00'),
+    scd_end_date: dateTime(finishes[finishes.length - 1] || projectStart, '17:00'),
+    last_recalc_date: dateTime(format(new Date(), 'yyyy-MM-dd'), '08:00'),
+    def_complete_pct_type: 'CP_Phys'
+  }];
+
+  const wbsRows = [
+    { wbs_id: rootWbsId, proj_id: projectId, seq_num: 0, proj_node_flag: 'Y', status_code: 'WS_Open', wbs_short_name: project.name, wbs_name: project.name, parent_wbs_id: undefined },
+    ...nodes.filter(node => node.isSummary).map(node => ({
+      wbs_id: wbsIds.get(node.task.id),
+      proj_id: projectId,
+      seq_num: nodes.indexOf(node) + 1,
+      proj_node_flag: 'N',
+      status_code: 'WS_Open',
+      wbs_short_name: node.wbs.split('.').pop(),
+      wbs_name: node.task.name,
+      parent_wbs_id: wbsFor(node.parentId)
+    }))
+  ];
+
+  const activityRows = nodes.filter(node => !node.isSummary).map((node, index) => {
+    const { task } = node;
+    const isMilestone = task.task_type === 'milestone';
+    const isComplete = task.status === 'completed';
+    const isStarted = isComplete || task.status === 'in-progress' || task.progress > 0;
+    const hours = isMilestone
+      ? 0
+      : getWorkingDuration(toDate(task.start_date), toDate(task.end_date), resolveCalendar(project.calendar, task.assignee)) * HOURS_PER_DAY;
+    const start = dateTime(task.start_date, '08:00');
+    const finish = isMilestone ? start : dateTime(task.end_date, '17:00');
+    const ownCalendar = splitAssignees(task.assignee).length === 1
+      ? resourceCalendarIds.get(task.assignee.trim().toLowerCase())
+      : undefined;
+
+    return {
+      task_id: activityIds.get(task.id),
+      proj_id: projectId,
+      wbs_id: wbsFor(node.parentId),
+      clndr_id: ownCalendar || 1,
+      phys_complete_pct: isComplete ? 100 : Math.round(task.progress || 0),
+      complete_pct_type: 'CP_Phys',
+      task_type: isMilestone ? 'TT_Mile' : 'TT_Task',
+      duration_type: 'DT_FixedDUR2',
+      status_code: isComplete ? 'TK_Complete' : isStarted ? 'TK_Active' : 'TK_NotStart',
+      task_code: `A${1000 + index * 10}`,
+      task_name: task.name,
+      target_drtn_hr_cnt: hours,
+      remain_drtn_hr_cnt: isComplete ? 0 : Math.round(hours * (1 - (task.progress || 0) / 100)),
+      act_start_date: isStarted ? start : undefined,
+      act_end_date: isComplete ? finish : undefined,
+      early_start_date: start,
+      early_end_date: finish,
+      target_start_date: start,
+      target_end_date: finish
+    };
+  });
+
+  let relationshipId = 0;
+  const relationshipRows = nodes.filter(node => !node.isSummary).flatMap(({ task }) =>
+    normalizeDependencies(task.dependencies)
+      .filter(link => activityIds.has(link.task_id))
+      .map(link => ({
+        task_pred_id: ++relationshipId,
+        task_id: activityIds.get(task.id),
+        pred_task_id: activityIds.get(link.task_id),
+        proj_id: projectId,
+        pred_proj_id: projectId,
+        pred_type: `PR_${link.type}`,
+        lag_hr_cnt: link.lag * HOURS_PER_DAY
+      }))
+  );
+
+  const resourceRows = resourceNames.map((name, index) => ({
+    rsrc_id: index + 1,
+    clndr_id: resourceCalendarIds.get(name.toLowerCase()) || 1,
+    rsrc_short_name: name.replace(/\s+/g, '').toUpperCase().slice(0, 20),
+    rsrc_name: name,
+    rsrc_type: 'RT_Labor'
+  }));
+  let assignmentId = 0;
+  const assignmentRows = nodes.filter(node => !node.isSummary).flatMap(({ task }) =>
+    splitAssignees(task.assignee).map(name => ({
+      taskrsrc_id: ++assignmentId,
+      task_id: activityIds.get(task.id),
+      proj_id: projectId,
+      rsrc_id: resourceNames.findIndex(existing => existing.toLowerCase() === name.toLowerCase()) + 1
+    }))
+  );
+
+  // Each custom field becomes a code type; its options and the values in use become codes
+  const codeTypeRows: Record<string, string | number>[] = [];
+  const codeRows: Record<string, string | number>[] = [];
+  const taskCodeRows: Record<string, string | number | undefined>[] = [];
+  (project.customFields || []).forEach((field, fieldIndex) => {
+    const typeId = fieldIndex + 1;
+    const values = new Map<string, number>();
+    const codeFor = (value: string) => {
+      if (!values.has(value)) {
+        values.set(value, typeId * 1000 + values.size + 1);
+        codeRows.push({
+          actv_code_id: values.get(value)!,
+          actv_code_type_id: typeId,
+          actv_code_name: value,
+          short_name: value,
+          seq_num: values.size
+        });
+      }
+      return values.get(value)!;
+    };
+
+    (Array.isArray(field.options) ? field.options : []).forEach((option: string) => codeFor(String(option)));
+    for (const { task } of nodes.filter(node => !node.isSummary)) {
+      const value = formatValue(task.custom_fields?.[field.id]);
+      if (!value) continue;
+      taskCodeRows.push({ task_id: activityIds.get(task.id), actv_code_type_id: typeId, actv_code_id: codeFor(value), proj_id: projectId });
+    }
+
+    codeTypeRows.push({
+      actv_code_type_id: typeId,
+      actv_short_len: Math.max(1, ...Array.from(values.keys()).map(value => value.length)),
+      seq_num: typeId,
+      actv_code_type: field.name,
+      proj_id: projectId,
+      actv_code_type_scope: 'AS_Project'
+    });
+  });
+
+  const lines = [
+    ['ERMHDR', '19.12', format(new Date(), 'yyyy-MM-dd'), 'Project', 'admin', 'admin', 'dbxDatabaseNoName', 'Project Management', 'USD'].join('\t'),
+    ...writeTable('CALENDAR', ['clndr_id', 'default_flag', 'clndr_name', 'proj_id', 'clndr_type', 'day_hr_cnt', 'week_hr_cnt', 'clndr_data'], calendarRows),
+    ...writeTable('PROJECT', ['proj_id', 'proj_short_name', 'clndr_id', 'plan_start_date', 'scd_end_date', 'last_recalc_date', 'def_complete_pct_type'], projectRows),
+    ...writeTable('PROJWBS', ['wbs_id', 'proj_id', 'seq_num', 'proj_node_flag', 'status_code', 'wbs_short_name', 'wbs_name', 'parent_wbs_id'], wbsRows),
+    ...writeTable('RSRC', ['rsrc_id', 'clndr_id', 'rsrc_short_name', 'rsrc_name', 'rsrc_type'], resourceRows),
+    ...writeTable('ACTVTYPE', ['actv_code_type_id', 'actv_short_len', 'seq_num', 'actv_code_type', 'proj_id', 'actv_code_type_scope'], codeTypeRows),
+    ...writeTable('ACTVCODE', ['actv_code_id', 'actv_code_type_id', 'actv_code_name', 'short_name', 'seq_num'], codeRows),
+    ...writeTable('TASK', [
+      'task_id', 'proj_id', 'wbs_id', 'clndr_id', 'phys_complete_pct', 'complete_pct_type', 'task_type', 'duration_type',
+      'status_code', 'task_code', 'task_name', 'target_drtn_hr_cnt', 'remain_drtn_hr_cnt', 'act_start_date', 'act_end_date',
+      'early_start_date', 'early_end_date', 'target_start_date', 'target_end_date'
+    ], activityRows),
+    ...writeTable('TASKACTV', ['task_id', 'actv_code_type_id', 'actv_code_id', 'proj_id'], taskCodeRows),
+    ...writeTable('TASKPRED', ['task_pred_id', 'task_id', 'pred_task_id', 'proj_id', 'pred_proj_id', 'pred_type', 'lag_hr_cnt'], relationshipRows),
+    ...writeTable('TASKRSRC', ['taskrsrc_id', 'task_id', 'proj_id', 'rsrc_id'], assignmentRows),
+    '%E'
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function exportToXER(project: XerProject) {
+  const blob = new Blob([generateXER(project)], { type: 'text/plain;charset=utf-8;' });
+  downloadBlob(blob, `${project.name}_${format(new Date(), 'yyyy-MM-dd')}.xer`);
+}
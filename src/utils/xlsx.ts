@@ -0,0 +1,343 @@
+// Reader and writer for Excel workbooks (.xlsx, Office Open XML spreadsheets)
+
+import { format } from "date-fns";
+import { ParsedCsv } from "@/utils/csvParser";
+import { dateToExcelSerial, excelSerialToDate } from "@/utils/dateFormats";
+import { createZip, readZip } from "@/utils/zipArchive";
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+// Built-in number formats that show a date: 14-22 everywhere, the rest in East Asian locales
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58]);
+
+// Cell styles in the stylesheet written by writeXlsx, by index
+const HEADER_STYLE = 1;
+const DATE_STYLE = 2;
+
+const MAX_SHEET_NAME_LENGTH = 31;
+
+export interface XlsxSheet {
+  name: string;
+  rows: string[][];     // Cell text; date cells as yyyy-MM-dd
+  rowNumbers: number[]; // Row number of each row as Excel shows it
+}
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxSheetData {
+  name: string;
+  rows: XlsxCellValue[][];
+  columnWidths?: number[]; // In characters
+  hasHeader?: boolean;     // The first row is styled, frozen and filterable
+}
+
+// Control characters other than tabs and line breaks are not allowed in XML at all
+const isXmlCharacter = (char: string) => char >= ' ' || char === '\t' || char === '\n' || char === '\r';
+
+const escapeXml = (value: string): string => Array.from(value).filter(isXmlCharacter).join('')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const parseXml = (bytes: Uint8Array | undefined, part: string): Document => {
+  if (!bytes) throw new Error(`The workbook has no ${part}`);
+  const document = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`The workbook's ${part} is damaged`);
+  }
+  return document;
+};
+
+const elements = (parent: Document | Element, name: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS(MAIN_NS, name));
+
+// "AB12" -> 27 (0-based column)
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+// 27 -> "AB"
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  }
+  return name;
+}
+
+// Quoted text, [colors] and escaped characters don't make a format a date
+function isDateFormatCode(code: string): boolean {
+  const bare = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return /[dy]/i.test(bare) || (/m/i.test(bare) && !/[hs]/i.test(bare));
+}
+
+// Style indexes whose number format shows a date
+function readDateStyles(styles: Document | null): Set<number> {
+  const dateStyles = new Set<number>();
+  if (!styles) return dateStyles;
+
+  const customFormats = new Map(
+    elements(styles, 'numFmt').map(numFmt => [Number(numFmt.getAttribute('numFmtId')), numFmt.getAttribute('formatCode') || ''])
+  );
+  const cellXfs = elements(styles, 'cellXfs')[0];
+  if (!cellXfs) return dateStyles;
+
+  elements(cellXfs, 'xf').forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId'));
+    const code = customFormats.get(formatId);
+    if (code !== undefined ? isDateFormatCode(code) : BUILT_IN_DATE_FORMATS.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+// A shared string can be split into formatted runs; phonetic hints (rPh) are not part of the text
+function stringText(item: Element): string {
+  return elements(item, 't')
+    .filter(t => (t.parentNode as Element).localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+}
+
+function cellText(cell: Element, sharedStrings: string[], dateStyles: Set<number>): string {
+  const type = cell.getAttribute('t');
+  if (type === 'inlineStr') {
+    const inline = elements(cell, 'is')[0];
+    return inline ? stringText(inline) : '';
+  }
+
+  const value = elements(cell, 'v')[0]?.textContent || '';
+  if (type === 's') return sharedStrings[Number(value)] || '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  if (type === 'str' || type === 'e' || !value) return value;
+
+  const number = Number(value);
+  if (dateStyles.has(Number(cell.getAttribute('s'))) && !isNaN(number)) {
+    const date = excelSerialToDate(number);
+    if (date) return format(date, 'yyyy-MM-dd');
+  }
+  return value;
+}
+
+function readSheet(name: string, document: Document, sharedStrings: string[], dateStyles: Set<number>): XlsxSheet {
+  const rows: string[][] = [];
+  const rowNumbers: number[] = [];
+  let lastRowNumber = 0;
+
+  for (const row of elements(document, 'row')) {
+    const rowNumber = Number(row.getAttribute('r')) || lastRowNumber + 1;
+    lastRowNumber = rowNumber;
+
+    const cells: string[] = [];
+    let lastColumn = -1;
+    for (const cell of Array.from(row.children).filter(child => child.localName === 'c')) {
+      const reference = cell.getAttribute('r');
+      const column = reference ? columnIndex(reference) : lastColumn + 1;
+      lastColumn = column;
+      const text = cellText(cell, sharedStrings, dateStyles);
+      if (text !== '') cells[column] = text;
+    }
+
+    // Rows that only carry formatting hold nothing to import
+    if (cells.length === 0) continue;
+    rows.push(Array.from(cells, cell => cell ?? ''));
+    rowNumbers.push(rowNumber);
+  }
+  return { name, rows, rowNumbers };
+}
+
+/**
+ * Reads the worksheets of an .xlsx workbook in tab order, as text. Cells
+ * with a date format come out as yyyy-MM-dd; formulas as their last
+ * calculated value. Empty rows are left out.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<XlsxSheet[]> {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(buffer);
+  } catch {
+    throw new Error('This file is not an Excel workbook (.xlsx)');
+  }
+
+  const workbook = parseXml(files.get('xl/workbook.xml'), 'workbook part');
+  const relationships = parseXml(files.get('xl/_rels/workbook.xml.rels'), 'relationships part');
+  const targets = new Map(
+    Array.from(relationships.getElementsByTagNameNS(PACKAGE_REL_NS, 'Relationship'))
+      .filter(relationship => relationship.getAttribute('Type')?.endsWith('/worksheet'))
+      .map(relationship => {
+        const target = relationship.getAttribute('Target') || '';
+        return [relationship.getAttribute('Id'), target.startsWith('/') ? target.slice(1) : `xl/${target}`];
+      })
+  );
+
+  const sharedStrings = files.has('xl/sharedStrings.xml')
+    ? elements(parseXml(files.get('xl/sharedStrings.xml'), 'shared strings'), 'si').map(stringText)
+    : [];
+  const dateStyles = readDateStyles(files.has('xl/styles.xml') ? parseXml(files.get('xl/styles.xml'), 'styles') : null);
+
+  // Chart sheets have no worksheet relationship and are skipped
+  return elements(workbook, 'sheet')
+    .map(sheet => ({ name: sheet.getAttribute('name') || '', path: targets.get(sheet.getAttributeNS(REL_NS, 'id')) }))
+    .filter(sheet => sheet.path && files.has(sheet.path))
+    .map(sheet => readSheet(sheet.name, parseXml(files.get(sheet.path), `sheet "${sheet.name}"`), sharedStrings, dateStyles));
+}
+
+/**
+ * Presents a worksheet like a parsed CSV file, so it can go through the
+ * same field mapping: the first row is the header.
+ */
+export function sheetToCsv(sheet: XlsxSheet): ParsedCsv {
+  const [headers = [], ...rows] = sheet.rows;
+  const width = Math.max(headers.length, ...rows.map(row => row.length));
+  const pad = (row: string[]) => Array.from({ length: width }, (_, index) => row[index] ?? '');
+  return {
+    headers: pad(headers).map(header => header.trim()),
+    rows: rows.map(pad),
+    rowNumbers: sheet.rowNumbers.slice(1),
+    delimiter: ',',
+    errors: []
+  };
+}
+
+// Excel refuses sheet names that are too long, repeated or contain []:*?/\
+function sheetNames(sheets: XlsxSheetData[]): string[] {
+  const used = new Set<string>();
+  return sheets.map(sheet => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet';
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, MAX_SHEET_NAME_LENGTH - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function writeSheet(sheet: XlsxSheetData, index: number, sharedString: (text: string) => number): string {
+  const width = Math.max(1, ...sheet.rows.map(row => row.length));
+  const lastCell = `${columnName(width - 1)}${Math.max(1, sheet.rows.length)}`;
+
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const isHeader = sheet.hasHeader && rowIndex === 0;
+    const cells = row.map((value, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      const style = isHeader ? ` s="${HEADER_STYLE}"` : '';
+      if (value === null || value === undefined || value === '') return '';
+      if (value instanceof Date) {
+        return `<c r="${reference}" s="${isHeader ? HEADER_STYLE : DATE_STYLE}"><v>${dateToExcelSerial(value)}</v></c>`;
+      }
+      if (typeof value === 'number') {
+        return isFinite(value) ? `<c r="${reference}"${style}><v>${value}</v></c>` : '';
+      }
+      if (typeof value === 'boolean') {
+        return `<c r="${reference}"${style} t="b"><v>${value ? 1 : 0}</v></c>`;
+      }
+      return `<c r="${reference}"${style} t="s"><v>${sharedString(value)}</v></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const pane = sheet.hasHeader
+    ? '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>'
+    : '';
+  const columns = sheet.columnWidths?.length
+    ? `<cols>${sheet.columnWidths.map((width, column) =>
+      `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+<dimension ref="A1:${lastCell}"/>
+<sheetViews><sheetView workbookViewId="0"${index === 0 ? ' tabSelected="1"' : ''}>${pane}</sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="15"/>
+${columns}<sheetData>${rows.join('')}</sheetData>
+${sheet.hasHeader ? `<autoFilter ref="A1:${lastCell}"/>` : ''}
+</worksheet>`;
+}
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="${MAIN_NS}">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFE5E7EB"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border><left/><right/><top/><bottom style="thin"><color auto="1"/></bottom><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="1" xfId="0" applyFont="1" applyFill="1" applyBorder="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+/**
+ * Builds an .xlsx workbook. Dates become date cells, numbers and booleans
+ * keep their type, and a sheet's header row is bold, frozen and filterable.
+ */
+export async function writeXlsx(sheets: XlsxSheetData[]): Promise<Blob> {
+  const names = sheetNames(sheets);
+  const strings: string[] = [];
+  const stringIndexes = new Map<string, number>();
+  const sharedString = (text: string) => {
+    if (!stringIndexes.has(text)) {
+      stringIndexes.set(text, strings.length);
+      strings.push(text);
+    }
+    return stringIndexes.get(text);
+  };
+  const worksheets = sheets.map((sheet, index) => writeSheet(sheet, index, sharedString));
+
+  const filterNames = sheets
+    .map((sheet, index) => {
+      if (!sheet.hasHeader) return '';
+      const width = Math.max(1, ...sheet.rows.map(row => row.length));
+      const range = `$A$1:$${columnName(width - 1)}$${Math.max(1, sheet.rows.length)}`;
+      return `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">'${escapeXml(names[index].replace(/'/g, "''"))}'!${range}</definedName>`;
+    })
+    .join('');
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+${sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+<Override PartName="/xl/sharedStrings.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/>
+</Types>`,
+    '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_REL_NS}">
+<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>
+${filterNames ? `<definedNames>${filterNames}</definedNames>` : ''}
+</workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="${PACKAGE_REL_NS}">
+${sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>
+<Relationship Id="rId${sheets.length + 2}" Type="${REL_NS}/sharedStrings" Target="sharedStrings.xml"/>
+</Relationships>`,
+    'xl/styles.xml': STYLES,
+    ...Object.fromEntries(worksheets.map((xml, index) => [`xl/worksheets/sheet${index + 1}.xml`, xml]))
+  };
+  // Written last, once every sheet has added its strings
+  files['xl/sharedStrings.xml'] = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<sst xmlns="${MAIN_NS}" count="${strings.length}" uniqueCount="${strings.length}">${strings.map(text =>
+    `<si><t${/^\s|\s$/.test(text) ? ' xml:space="preserve"' : ''}>${escapeXml(text)}</t></si>`).join('')}</sst>`;
+
+  const encoder = new TextEncoder();
+  const zip = await createZip(Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
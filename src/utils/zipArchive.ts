@@ -0,0 +1,162 @@
+// Reader and writer for ZIP archives, the container used by .xlsx files. Compression
+// uses the browser's built-in deflate streams.
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_LENGTH = 0xffff;
+const STORED = 0;
+const DEFLATED = 8;
+const UTF8_NAMES = 0x0800; // General purpose flag: names are UTF-8
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// MS-DOS date and time, as ZIP headers store them
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Reads every file in a ZIP archive. Folders are skipped; ZIP64 archives and
+ * compression methods other than deflate are not supported.
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  // The end record sits at the very end, unless the archive has a comment after it
+  let end = -1;
+  const searchFrom = Math.max(0, bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE - MAX_COMMENT_LENGTH);
+  for (let offset = bytes.length - END_OF_CENTRAL_DIRECTORY_SIZE; offset >= searchFrom; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error('This file is not a ZIP archive');
+  }
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || entryCount === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('The ZIP archive is damaged');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const headerOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+    if (view.getUint32(headerOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error('The ZIP archive is damaged');
+    }
+
+    // The local header's name and extra field can differ in length from the central directory's
+    const dataStart = headerOffset + 30 + view.getUint16(headerOffset + 26, true) + view.getUint16(headerOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === STORED) {
+      files.set(name, data);
+    } else if (method === DEFLATED) {
+      files.set(name, await transform(data, new DecompressionStream('deflate-raw')));
+    } else {
+      throw new Error(`"${name}" uses a ZIP compression method that is not supported`);
+    }
+  }
+  return files;
+}
+
+// Writes files into a ZIP archive, deflating each one
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const compressed = await transform(entry.data, new CompressionStream('deflate-raw'));
+    const crc = crc32(entry.data);
+
+    const header = new Uint8Array(30 + name.length);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, LOCAL_FILE_HEADER, true);
+    headerView.setUint16(4, 20, true); // Version needed to extract: 2.0
+    headerView.setUint16(6, UTF8_NAMES, true);
+    headerView.setUint16(8, DEFLATED, true);
+    headerView.setUint16(10, time, true);
+    headerView.setUint16(12, date, true);
+    headerView.setUint32(14, crc, true);
+    headerView.setUint32(18, compressed.length, true);
+    headerView.setUint32(22, entry.data.length, true);
+    headerView.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    recordView.setUint16(4, 20, true); // Version made by
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, UTF8_NAMES, true);
+    recordView.setUint16(10, DEFLATED, true);
+    recordView.setUint16(12, time, true);
+    recordView.setUint16(14, date, true);
+    recordView.setUint32(16, crc, true);
+    recordView.setUint32(20, compressed.length, true);
+    recordView.setUint32(24, entry.data.length, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(header, compressed);
+    centralDirectory.push(record);
+    offset += header.length + compressed.length;
+  }
+
+  const directorySize = centralDirectory.reduce((size, record) => size + record.length, 0);
+  const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_SIZE);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end], { type: 'application/zip' });
+}
@@ -0,0 +1,34 @@
+import { createCsvReader, detectEncoding, ParsedCsv } from "@/utils/csvParser";
+
+export type CsvWorkerMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; result: ParsedCsv }
+  | { type: 'error'; message: string };
+
+const worker = self as unknown as Worker;
+const post = (message: CsvWorkerMessage) => worker.postMessage(message);
+
+// Reads the posted file as a stream, so parsing starts before the whole file is decoded
+worker.onmessage = async (event: MessageEvent<{ file: File }>) => {
+  const { file } = event.data;
+  try {
+    const stream = file.stream().getReader();
+    const reader = createCsvReader();
+    let decoder: TextDecoder | null = null;
+    let loaded = 0;
+
+    for (;;) {
+      const { done, value } = await stream.read();
+      if (done) break;
+      decoder = decoder || new TextDecoder(detectEncoding(value));
+      reader.push(decoder.decode(value, { stream: true }));
+      loaded += value.length;
+      post({ type: 'progress', loaded, total: file.size });
+    }
+    if (decoder) reader.push(decoder.decode());
+
+    post({ type: 'done', result: reader.finish() });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to read the CSV file' });
+  }
+};
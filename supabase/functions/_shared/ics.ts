@@ -0,0 +1,140 @@
+// Shared by the app's .ics export and the calendar-feed edge function. Edge functions are
+// bundled from supabase/functions only, so this file lives here and has no imports.
+
+// The task properties a calendar shows; Task has all of them
+export interface IcsTask {
+  id: string;
+  name: string;
+  description?: string | null;
+  task_type: string;
+  status: string;
+  start_date: string;
+  end_date: string;
+  assignee?: string | null;
+  progress?: number | null;
+  updated_at?: string;
+}
+
+export interface IcsOptions {
+  assignee?: string;        // Only tasks assigned to this person, ignoring case
+  milestonesOnly?: boolean;
+  refreshMinutes?: number;  // How often subscribed calendars should check for changes
+}
+
+// Right-hand side of every event UID. Task IDs are unique, so UIDs stay the same across exports.
+const UID_DOMAIN = 'project-manager-pro';
+const PRODUCT_ID = '-//Project Manager Pro//Project Calendar//EN';
+const MAX_LINE_OCTETS = 75;
+const DEFAULT_REFRESH_MINUTES = 60;
+
+const splitAssignees = (assignee?: string): string[] =>
+  (assignee || '').split(/[,;]/).map(name => name.trim()).filter(Boolean);
+
+// Dates are taken as written, so a task doesn't move a day in calendars west of UTC
+const datePart = (value: string) => value.slice(0, 10);
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+// UTC timestamps, e.g. 20250303T081500Z
+const icsTimestamp = (value: string | Date) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string): string => value
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 bytes continue on the next line after a space, without splitting a character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const statusLabel = (status: string) => status.split('-').map(word => word[0].toUpperCase() + word.slice(1)).join(' ');
+
+// Lists the tasks the calendar shows, with `options` applied
+export function filterCalendarTasks<T extends IcsTask>(tasks: T[], options: IcsOptions = {}): T[] {
+  const assignee = options.assignee?.trim().toLowerCase();
+  return tasks.filter(task =>
+    (!options.milestonesOnly || task.task_type === 'milestone') &&
+    (!assignee || splitAssignees(task.assignee).some(name => name.toLowerCase() === assignee))
+  );
+}
+
+function taskEvent(task: IcsTask, stamp: string): string[] {
+  const start = datePart(task.start_date);
+  const end = datePart(task.end_date);
+  const isMilestone = task.task_type === 'milestone';
+  const details = [
+    task.description || '',
+    `Status: ${statusLabel(task.status)}`,
+    isMilestone ? '' : `Progress: ${Math.round(task.progress || 0)}%`,
+    task.assignee ? `Assigned to: ${task.assignee}` : ''
+  ].filter(Boolean);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    ...(task.updated_at ? [`LAST-MODIFIED:${icsTimestamp(task.updated_at)}`] : []),
+    // All-day events; the end date is the day after the last one
+    `DTSTART;VALUE=DATE:${icsDate(start)}`,
+    `DTEND;VALUE=DATE:${icsDate(nextDay(isMilestone || end < start ? start : end))}`,
+    `SUMMARY:${escapeText(isMilestone ? `Milestone: ${task.name}` : task.name)}`,
+    `DESCRIPTION:${escapeText(details.join('\n'))}`,
+    `CATEGORIES:${escapeText(statusLabel(task.task_type))}`,
+    'TRANSP:TRANSPARENT', // Tasks don't block time in the calendar
+    'END:VEVENT'
+  ];
+}
+
+/**
+ * Writes tasks as an iCalendar file of all-day events, one per task, for
+ * Outlook, Google Calendar and other calendar apps. Each event's UID is made
+ * from its task ID, so apps update the event instead of adding a copy when
+ * the file is imported again or a subscription refreshes.
+ */
+export function generateICS(name: string, tasks: IcsTask[], options: IcsOptions = {}): string {
+  const stamp = icsTimestamp(new Date());
+  const refresh = options.refreshMinutes || DEFAULT_REFRESH_MINUTES;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:PT${refresh}M`,
+    `X-PUBLISHED-TTL:PT${refresh}M`,
+    ...filterCalendarTasks(tasks, options).flatMap(task => taskEvent(task, stamp)),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Names for the calendar and file, e.g. "Website Relaunch (Ana)"
+export function calendarName(projectName: string, options: IcsOptions = {}): string {
+  const scope = [options.milestonesOnly ? 'milestones' : '', options.assignee?.trim() || ''].filter(Boolean);
+  return scope.length > 0 ? `${projectName} (${scope.join(', ')})` : projectName;
+}
@@ -0,0 +1,69 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { calendarName, generateICS } from '../_shared/ics.ts';
+
+// Calendar apps poll this URL without signing in, so the project's feed token is the only credential:
+//   GET /functions/v1/calendar-feed?token=<calendar_feed_token>[&assignee=<name>][&milestones=1]
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const token = params.get('token');
+  if (!token) {
+    return new Response('Missing feed token', { status: 400 });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false
+        }
+      }
+    );
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from('projects')
+      .select('id, name')
+      .eq('calendar_feed_token', token)
+      .maybeSingle();
+
+    if (projectError) throw projectError;
+    // Same answer for a token that was reset as for one that never existed
+    if (!project) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+
+    const { data: tasks, error: tasksError } = await supabaseClient
+      .from('tasks')
+      .select('id, name, description, task_type, status, start_date, end_date, assignee, progress, updated_at')
+      .eq('project_id', project.id)
+      .order('start_date');
+
+    if (tasksError) throw tasksError;
+
+    const options = {
+      assignee: params.get('assignee') || undefined,
+      milestonesOnly: params.get('milestones') === '1'
+    };
+    const name = calendarName(project.name, options);
+
+    return new Response(generateICS(name, tasks ?? [], options), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'private, max-age=300'
+      },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+    return new Response('The calendar could not be loaded', { status: 500 });
+  }
+};
+
+serve(handler);
@@ -0,0 +1,2 @@
+-- Per-project auto-scheduling: when enabled, moving a task pushes its successors forward
+ALTER TABLE projects ADD COLUMN auto_schedule BOOLEAN DEFAULT false;
@@ -0,0 +1,2 @@
+-- Working calendar per project: workweek, holidays and per-assignee leave
+ALTER TABLE projects ADD COLUMN calendar JSONB DEFAULT '{"working_days":[1,2,3,4,5],"holidays":[],"resource_calendars":[]}'::jsonb;
@@ -0,0 +1,3 @@
+-- Named snapshots of every task's planned dates, used to report slippage
+ALTER TABLE projects ADD COLUMN baselines JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE projects ADD COLUMN active_baseline_id TEXT;
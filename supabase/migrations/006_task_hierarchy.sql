@@ -0,0 +1,3 @@
+-- Work breakdown structure: tasks can belong to a summary task
+ALTER TABLE tasks ADD COLUMN parent_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+CREATE INDEX idx_tasks_parent_id ON tasks(parent_id);
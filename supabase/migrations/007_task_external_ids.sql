@@ -0,0 +1,3 @@
+-- Imports match tasks to rows by a key from the source system instead of by name
+ALTER TABLE tasks ADD COLUMN external_id TEXT;
+CREATE UNIQUE INDEX idx_tasks_project_external_id ON tasks(project_id, external_id) WHERE external_id IS NOT NULL;
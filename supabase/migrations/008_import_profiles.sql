@@ -0,0 +1,2 @@
+-- Saved CSV column mappings, reused when the same export is imported again
+ALTER TABLE projects ADD COLUMN import_profiles JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,2 @@
+-- Google Sheets sync settings and log, kept per project
+ALTER TABLE projects ADD COLUMN sheet_sync JSONB;
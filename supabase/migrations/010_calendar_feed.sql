@@ -0,0 +1,3 @@
+-- Secret token in the URL of a project's calendar feed; NULL while the feed is off
+ALTER TABLE projects ADD COLUMN calendar_feed_token TEXT;
+CREATE UNIQUE INDEX idx_projects_calendar_feed_token ON projects(calendar_feed_token) WHERE calendar_feed_token IS NOT NULL;